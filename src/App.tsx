@@ -11,6 +11,8 @@ import { Phase1_UploadAlign } from './pages/Phase1_UploadAlign';
 import { Phase2_ProcessingValidation } from './pages/Phase2_ProcessingValidation';
 import { Phase3_InsightExtraction } from './pages/Phase3_InsightExtraction';
 import { Phase3_5_GapAnalysis } from './pages/Phase3_5_GapAnalysis';
+import { Phase3_6_Synthesis } from './pages/Phase3_6_Synthesis';
+import { Phase3_7_Coding } from './pages/Phase3_7_Coding';
 import { Phase4_Consolidation } from './pages/Phase4_Consolidation';
 
 // Inner app component that can use useLocation (must be inside BrowserRouter)
@@ -37,6 +39,8 @@ function AppContent() {
                     <Route path="/framework" element={<Phase2_ProcessingValidation />} />
                     <Route path="/extraction" element={<Phase3_InsightExtraction />} />
                     <Route path="/gap-analysis" element={<Phase3_5_GapAnalysis />} />
+                    <Route path="/synthesis" element={<Phase3_6_Synthesis />} />
+                    <Route path="/coding" element={<Phase3_7_Coding />} />
                     <Route path="/consolidation" element={<Phase4_Consolidation />} />
                 </Routes>
             </div>
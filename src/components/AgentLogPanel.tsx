@@ -33,6 +33,10 @@ export function AgentLogPanel({ logs, onClear }: AgentLogPanelProps) {
                 return 'text-green-600 bg-green-50';
             case 'error':
                 return 'text-red-600 bg-red-50';
+            case 'cancelled':
+                return 'text-amber-600 bg-amber-50';
+            case 'retry':
+                return 'text-orange-600 bg-orange-50';
         }
     };
 
@@ -120,6 +124,11 @@ export function AgentLogPanel({ logs, onClear }: AgentLogPanelProps) {
                                                         Duration: {log.duration}ms
                                                     </div>
                                                 )}
+                                                {log.action === 'retry' && (
+                                                    <div className="text-xs text-solita-mid-grey">
+                                                        Attempt {log.attempt} failed, retrying in {((log.retryDelay ?? 0) / 1000).toFixed(1)}s
+                                                    </div>
+                                                )}
                                                 {log.tokens && (
                                                     <div className="text-xs text-solita-mid-grey">
                                                         Tokens: {log.tokens.total.toLocaleString()} (prompt: {log.tokens.prompt.toLocaleString()}, completion: {log.tokens.completion.toLocaleString()})
@@ -162,20 +171,22 @@ export function AgentLogPanel({ logs, onClear }: AgentLogPanelProps) {
                                             </>
                                         )}
 
-                                        {selectedLog.action === 'response' && selectedLog.response && (
+                                        {(selectedLog.action === 'response' || selectedLog.action === 'cancelled') && selectedLog.response && (
                                             <div>
-                                                <h5 className="font-semibold text-sm text-solita-dark-grey mb-2">Response</h5>
+                                                <h5 className="font-semibold text-sm text-solita-dark-grey mb-2">
+                                                    {selectedLog.action === 'cancelled' ? 'Partial Response (stopped)' : 'Response'}
+                                                </h5>
                                                 <pre className="bg-white p-3 rounded border border-solita-light-grey text-xs overflow-x-auto whitespace-pre-wrap">
                                                     {selectedLog.response}
                                                 </pre>
                                             </div>
                                         )}
 
-                                        {selectedLog.action === 'error' && selectedLog.error && (
+                                        {(selectedLog.action === 'error' || selectedLog.action === 'retry') && selectedLog.error && (
                                             <div>
                                                 <h5 className="font-semibold text-sm text-red-600 mb-2 flex items-center gap-2">
                                                     <AlertCircle className="w-4 h-4" />
-                                                    Error
+                                                    {selectedLog.action === 'retry' ? `Attempt ${selectedLog.attempt} Failed` : 'Error'}
                                                 </h5>
                                                 <pre className="bg-red-50 p-3 rounded border border-red-200 text-xs overflow-x-auto whitespace-pre-wrap text-red-700">
                                                     {selectedLog.error}
@@ -1,15 +1,19 @@
 import { useEffect, useState } from 'react';
 import { Agent, AgentStatus } from '../types';
-import { agentOrchestrator } from '../services/agent.orchestrator';
-import { Loader2, CheckCircle2, XCircle, Circle } from 'lucide-react';
+import { agentOrchestrator, QueueLane } from '../services/agent.orchestrator';
+import { Loader2, CheckCircle2, XCircle, Circle, Clock, MinusCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // Real-time visualization of agent execution status and progress
 export function AgentVisualizer() {
-    const [agents, setAgents] = useState<Agent[]>([]);
+    const [agents, setAgents] = useState<Agent[]>(() => agentOrchestrator.getAgents());
+    const [lanes, setLanes] = useState<QueueLane[]>(() => agentOrchestrator.getLanes());
 
     useEffect(() => {
-        const unsubscribe = agentOrchestrator.subscribe(setAgents);
+        const unsubscribe = agentOrchestrator.subscribe((next) => {
+            setAgents(next);
+            setLanes(agentOrchestrator.getLanes());
+        });
         return unsubscribe;
     }, []);
 
@@ -19,7 +23,26 @@ export function AgentVisualizer() {
 
     return (
         <div className="space-y-3">
-            <h2 className="text-xl font-semibold text-solita-black mb-3">Agent Activity</h2>
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-semibold text-solita-black">Agent Activity</h2>
+                <button
+                    onClick={() => agentOrchestrator.clearFinished()}
+                    className="text-sm text-solita-mid-grey hover:text-solita-black transition-colors"
+                >
+                    Clear finished
+                </button>
+            </div>
+
+            {/* Queue State */}
+            {lanes.map((lane) => (
+                <div key={lane.key} className="flex items-center justify-between bg-solita-ochre/10 rounded-lg px-4 py-2 text-sm">
+                    <span className="font-mono text-solita-black">{lane.key}</span>
+                    <span className="text-solita-dark-grey">
+                        {lane.running}/{lane.limit} running{lane.queued > 0 && `, ${lane.queued} queued`}
+                    </span>
+                </div>
+            ))}
+
             <AnimatePresence mode="popLayout">
                 {agents.map((agent) => (
                     <motion.div
@@ -43,9 +66,24 @@ export function AgentVisualizer() {
                                 {agent.status === AgentStatus.IDLE && (
                                     <Circle className="w-5 h-5 text-solita-mid-grey" />
                                 )}
+                                {agent.status === AgentStatus.QUEUED && (
+                                    <Clock className="w-5 h-5 text-solita-mid-grey" />
+                                )}
+                                {agent.status === AgentStatus.CANCELLED && (
+                                    <MinusCircle className="w-5 h-5 text-amber-500" />
+                                )}
                                 <span className="font-medium text-solita-black">{agent.name}</span>
+                                {agent.priority && agent.priority !== 'normal' && (
+                                    <span className="px-2 py-0.5 rounded text-xs bg-solita-light-grey text-solita-dark-grey">{agent.priority}</span>
+                                )}
                             </div>
-                            <span className="text-sm text-solita-mid-grey">{agent.progress}%</span>
+                            <span className="text-sm text-solita-mid-grey">
+                                {agent.status === AgentStatus.QUEUED
+                                    ? `#${agent.queuePosition} in queue`
+                                    : agent.status === AgentStatus.CANCELLED
+                                        ? 'Stopped'
+                                        : `${agent.progress}%`}
+                            </span>
                         </div>
 
                         {/* Progress Bar */}
@@ -4,6 +4,7 @@ import toast from 'react-hot-toast';
 import { StandardInput } from './ui/StandardInput';
 import { llmService } from '../services/llm.service';
 import { settingsService } from '../services/settings.service';
+import { mockLLMService } from '../services/mock-llm.service';
 import { LLM_PROVIDER_CONFIGS, LLMProvider } from '../constants/llm-providers';
 
 interface ApiKeyPromptProps {
@@ -16,6 +17,7 @@ export function ApiKeyPrompt({ isOpen, onClose, onKeySet }: ApiKeyPromptProps) {
     const [selectedProvider, setSelectedProvider] = useState<LLMProvider>(settingsService.getProvider());
     const [apiKey, setApiKey] = useState('');
     const [isValidating, setIsValidating] = useState(false);
+    const requiresApiKey = LLM_PROVIDER_CONFIGS[selectedProvider].requiresApiKey;
 
     // Load saved provider and API key when modal opens
     useEffect(() => {
@@ -32,11 +34,52 @@ export function ApiKeyPrompt({ isOpen, onClose, onKeySet }: ApiKeyPromptProps) {
         setApiKey(settingsService.getApiKey(provider) || '');
     };
 
+    // Keyless providers: check the server answers and pick up its installed models
+    const connectKeylessProvider = async () => {
+        const isReachable = await llmService.validateApiKey(selectedProvider, '');
+        if (!isReachable) {
+            toast.error(`Could not reach ${LLM_PROVIDER_CONFIGS[selectedProvider].label}. Is it running?`);
+            return;
+        }
+
+        if (selectedProvider === 'ollama') {
+            const endpoint = settingsService.getEndpoint('ollama');
+            const models = await llmService.listModels('ollama', endpoint).catch(() => []);
+            if (models.length > 0) {
+                settingsService.saveEndpoint({ ...endpoint, models }, 'ollama');
+            } else {
+                toast('No installed models found, using the built-in list', { icon: 'ℹ️' });
+            }
+        }
+
+        if (selectedProvider === 'mock' && mockLLMService.getFixtures().length === 0) {
+            toast('No recorded responses yet. Import a fixture file in Settings.', { icon: 'ℹ️' });
+        }
+
+        settingsService.setProvider(selectedProvider);
+        toast.success('Provider configured successfully!');
+        onKeySet();
+        onClose();
+    };
+
     // Validate API key with selected provider before saving
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
-        if (!apiKey.trim()) {
+        if (!requiresApiKey) {
+            setIsValidating(true);
+            try {
+                await connectKeylessProvider();
+            } catch (error) {
+                toast.error('Failed to connect to provider');
+            } finally {
+                setIsValidating(false);
+            }
+            return;
+        }
+
+        const { apiKeyOptional } = LLM_PROVIDER_CONFIGS[selectedProvider];
+        if (!apiKey.trim() && !apiKeyOptional) {
             toast.error('Please enter an API key');
             return;
         }
@@ -44,17 +87,18 @@ export function ApiKeyPrompt({ isOpen, onClose, onKeySet }: ApiKeyPromptProps) {
         setIsValidating(true);
 
         try {
-            const isValid = await llmService.validateApiKey(selectedProvider, apiKey);
+            const key = apiKey.trim();
+            const isValid = await llmService.validateApiKey(selectedProvider, key);
 
             if (isValid) {
-                settingsService.saveApiKey(selectedProvider, apiKey);
+                settingsService.saveApiKey(selectedProvider, key);
                 settingsService.setProvider(selectedProvider);
-                llmService.initialize(apiKey, selectedProvider);
+                llmService.initialize(key, selectedProvider);
                 toast.success('Provider configured successfully!');
                 onKeySet();
                 onClose();
             } else {
-                toast.error('Invalid API key. Please check and try again.');
+                toast.error(key ? 'Invalid API key. Please check and try again.' : 'The endpoint did not answer without a key. Check the URL in Settings or enter a key.');
             }
         } catch (error) {
             toast.error('Failed to validate API key');
@@ -107,18 +151,33 @@ export function ApiKeyPrompt({ isOpen, onClose, onKeySet }: ApiKeyPromptProps) {
                     </div>
                 </div>
 
-                <p className="text-sm text-solita-dark-grey mb-4">
-                    {LLM_PROVIDER_CONFIGS[selectedProvider].apiKeyLabel}
-                </p>
                 <form onSubmit={handleSubmit}>
-                    <StandardInput
-                        type="password"
-                        value={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
-                        placeholder={LLM_PROVIDER_CONFIGS[selectedProvider].apiKeyPlaceholder}
-                        className="mb-4"
-                        disabled={isValidating}
-                    />
+                    {requiresApiKey ? (
+                        <>
+                            <p className="text-sm text-solita-dark-grey mb-4">
+                                {LLM_PROVIDER_CONFIGS[selectedProvider].apiKeyLabel}
+                            </p>
+                            <StandardInput
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => setApiKey(e.target.value)}
+                                placeholder={LLM_PROVIDER_CONFIGS[selectedProvider].apiKeyPlaceholder}
+                                className="mb-4"
+                                disabled={isValidating}
+                            />
+                        </>
+                    ) : selectedProvider === 'mock' ? (
+                        <p className="text-sm text-solita-dark-grey mb-4">
+                            No API key needed. Responses are replayed from{' '}
+                            {mockLLMService.getFixtures().length} recorded fixtures. Record or import more in Settings.
+                        </p>
+                    ) : (
+                        <p className="text-sm text-solita-dark-grey mb-4">
+                            No API key needed. The app will connect to{' '}
+                            <span className="font-mono">{settingsService.getEndpoint('ollama').baseUrl}</span>
+                            {' '}and load your installed models. Change the address in Settings.
+                        </p>
+                    )}
 
                     <div className="flex gap-3">
                         <button
@@ -141,24 +200,29 @@ export function ApiKeyPrompt({ isOpen, onClose, onKeySet }: ApiKeyPromptProps) {
                                     Validating...
                                 </>
                             ) : (
-                                'Save Key'
+                                requiresApiKey ? 'Save Key' : 'Connect'
                             )}
                         </button>
                     </div>
                 </form>
 
-                <p className="text-xs text-solita-mid-grey mt-4">
-                    Your API key is stored locally and never sent to our servers. Need help?{' '}
-                    <a
-                        href={LLM_PROVIDER_CONFIGS[selectedProvider].docsUrl}
-                        className="text-solita-ochre hover:underline"
-                        target="_blank"
-                        rel="noreferrer"
-                    >
-                        Provider docs
-                    </a>
-                    .
-                </p>
+                {selectedProvider !== 'mock' && (
+                    <p className="text-xs text-solita-mid-grey mt-4">
+                        {requiresApiKey
+                            ? 'Your API key is stored locally and never sent to our servers.'
+                            : 'Requests go straight from your browser to the local server.'}
+                        {' '}Need help?{' '}
+                        <a
+                            href={LLM_PROVIDER_CONFIGS[selectedProvider].docsUrl}
+                            className="text-solita-ochre hover:underline"
+                            target="_blank"
+                            rel="noreferrer"
+                        >
+                            Provider docs
+                        </a>
+                        .
+                    </p>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { Code, CodingStatus } from '../types/phases';
+import { StandardInput } from './ui/StandardInput';
+
+interface CodebookEditorProps {
+    codebook: Code[];
+    counts: Map<string, Record<CodingStatus, number>>; // Code id to its codings across the project
+    onChange: (code: Code) => void;
+    onRemove: (codeId: string) => void;
+}
+
+const SOURCE_LABELS: Record<Code['source'], string> = {
+    proposed: 'Proposed',
+    imported: 'Imported',
+    manual: 'Added',
+};
+
+// List fields are edited one entry per line
+const toLines = (items: string[]): string => items.join('\n');
+const fromLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// The project's codes with their definitions, rules and examples, each expandable for editing
+export function CodebookEditor({ codebook, counts, onChange, onRemove }: CodebookEditorProps) {
+    const [openIds, setOpenIds] = useState<Set<string>>(new Set());
+
+    const toggle = (codeId: string) => {
+        setOpenIds(prev => {
+            const next = new Set(prev);
+            if (next.has(codeId)) {
+                next.delete(codeId);
+            } else {
+                next.add(codeId);
+            }
+            return next;
+        });
+    };
+
+    const listField = (code: Code, field: 'includeRules' | 'excludeRules' | 'examples' | 'counterExamples', label: string) => (
+        <div>
+            <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">{label}</label>
+            <textarea
+                value={toLines(code[field])}
+                onChange={(e) => onChange({ ...code, [field]: fromLines(e.target.value) })}
+                className="w-full px-3 py-2 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent text-sm text-solita-black resize-vertical"
+                rows={3}
+                placeholder="One per line"
+            />
+        </div>
+    );
+
+    return (
+        <ul className="divide-y divide-solita-light-grey border border-solita-light-grey rounded-lg">
+            {codebook.map(code => {
+                const isOpen = openIds.has(code.id);
+                const count = counts.get(code.id);
+                return (
+                    <li key={code.id}>
+                        <div className="flex items-center gap-2 p-3">
+                            <button onClick={() => toggle(code.id)} className="flex-1 min-w-0 flex items-center gap-2 text-left">
+                                {isOpen ? <ChevronDown className="w-4 h-4 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 flex-shrink-0" />}
+                                <span className="font-medium text-solita-black">{code.name || 'Unnamed code'}</span>
+                                <span className="text-xs text-solita-mid-grey">{SOURCE_LABELS[code.source]}</span>
+                                {!isOpen && <span className="text-sm text-solita-dark-grey truncate">{code.definition}</span>}
+                            </button>
+                            {count && (
+                                <span className="text-xs text-solita-mid-grey whitespace-nowrap">
+                                    <span className="text-solita-green">{count.accepted} accepted</span> · {count.suggested} to review · <span className="text-solita-red">{count.rejected} rejected</span>
+                                </span>
+                            )}
+                            <button
+                                onClick={() => onRemove(code.id)}
+                                className="p-1.5 text-solita-mid-grey hover:text-red-500 transition-colors"
+                                title="Remove code"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        {isOpen && (
+                            <div className="px-9 pb-4 space-y-3">
+                                <StandardInput
+                                    label="Name"
+                                    value={code.name}
+                                    onChange={(e) => onChange({ ...code, name: e.target.value })}
+                                    className="py-1.5"
+                                />
+                                <div>
+                                    <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">Definition</label>
+                                    <textarea
+                                        value={code.definition}
+                                        onChange={(e) => onChange({ ...code, definition: e.target.value })}
+                                        className="w-full px-3 py-2 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent text-sm text-solita-black resize-vertical"
+                                        rows={2}
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    {listField(code, 'includeRules', 'Apply when')}
+                                    {listField(code, 'excludeRules', 'Do not apply when')}
+                                    {listField(code, 'examples', 'Examples')}
+                                    {listField(code, 'counterExamples', 'Rejected excerpts')}
+                                </div>
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
@@ -0,0 +1,87 @@
+import { Check, X, Undo2 } from 'lucide-react';
+import { Code, CodedExcerpt, CodingStatus } from '../types/phases';
+import { Transcript } from '../types';
+import { transcriptParserService } from '../services/transcript-parser.service';
+
+interface CodedExcerptListProps {
+    excerpts: CodedExcerpt[]; // Of one interview
+    transcript: Transcript;
+    codebook: Code[];
+    onReview: (excerpt: CodedExcerpt, status: CodingStatus) => void;
+}
+
+const STATUS_STYLES: Record<CodingStatus, string> = {
+    suggested: 'border-solita-light-grey',
+    accepted: 'border-solita-green/50 bg-solita-green/5',
+    rejected: 'border-solita-red/40 bg-solita-red/5 opacity-70',
+};
+
+// Coded turns of an interview in transcript order, each code with its justification and review buttons
+export function CodedExcerptList({ excerpts, transcript, codebook, onReview }: CodedExcerptListProps) {
+    const codes = new Map(codebook.map(code => [code.id, code]));
+    const byTurn = new Map<number, CodedExcerpt[]>();
+    excerpts.forEach(excerpt => byTurn.set(excerpt.turnIndex, [...(byTurn.get(excerpt.turnIndex) ?? []), excerpt]));
+    const turnIndexes = Array.from(byTurn.keys()).sort((a, b) => a - b);
+
+    if (turnIndexes.length === 0) {
+        return <p className="text-sm text-solita-mid-grey">No coded excerpts match the filters.</p>;
+    }
+
+    return (
+        <ul className="space-y-4">
+            {turnIndexes.map(turnIndex => {
+                const turn = transcript.turns[turnIndex];
+                if (!turn) return null;
+                const address = [
+                    transcriptParserService.getTurnLabel(turn),
+                    turn.startTime !== undefined ? transcriptParserService.formatTimestamp(turn.startTime) : '',
+                    turn.speaker,
+                ].filter(Boolean).join(' · ');
+
+                return (
+                    <li key={turnIndex} className="p-4 border border-solita-light-grey rounded-lg">
+                        <p className="text-xs text-solita-mid-grey mb-1">{address}</p>
+                        <p className="text-sm text-solita-black whitespace-pre-wrap mb-3">{turn.text}</p>
+
+                        <ul className="space-y-2">
+                            {byTurn.get(turnIndex)!.map(excerpt => (
+                                <li key={excerpt.id} className={`p-2 border rounded-lg flex items-start gap-3 ${STATUS_STYLES[excerpt.status]}`}>
+                                    <div className="flex-1 min-w-0">
+                                        <span className="inline-block mr-2 px-1.5 py-0.5 rounded bg-solita-ochre/15 text-solita-ochre text-xs font-medium">
+                                            {codes.get(excerpt.codeId)?.name ?? 'Removed code'}
+                                        </span>
+                                        <span className="text-sm text-solita-dark-grey">{excerpt.justification}</span>
+                                    </div>
+                                    {excerpt.status === 'suggested' ? (
+                                        <div className="flex gap-1 flex-shrink-0">
+                                            <button
+                                                onClick={() => onReview(excerpt, 'accepted')}
+                                                className="px-2 py-1 border border-solita-light-grey hover:border-solita-green hover:text-solita-green rounded text-xs text-solita-dark-grey flex items-center gap-1 transition-colors"
+                                            >
+                                                <Check className="w-3 h-3" /> Accept
+                                            </button>
+                                            <button
+                                                onClick={() => onReview(excerpt, 'rejected')}
+                                                className="px-2 py-1 border border-solita-light-grey hover:border-solita-red hover:text-solita-red rounded text-xs text-solita-dark-grey flex items-center gap-1 transition-colors"
+                                            >
+                                                <X className="w-3 h-3" /> Reject
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <button
+                                            onClick={() => onReview(excerpt, 'suggested')}
+                                            className="px-2 py-1 text-xs text-solita-mid-grey hover:text-solita-dark-grey flex items-center gap-1 flex-shrink-0 transition-colors"
+                                            title="Undo the review"
+                                        >
+                                            <Undo2 className="w-3 h-3" /> {excerpt.status === 'accepted' ? 'Accepted' : 'Rejected'}
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
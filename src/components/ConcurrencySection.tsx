@@ -0,0 +1,76 @@
+import { LLM_PROVIDER_CONFIGS, LLMProvider, LLMProviderModelOption } from '../constants/llm-providers';
+import { ConcurrencySettings } from '../services/settings.service';
+import { StandardInput } from './ui/StandardInput';
+
+interface ConcurrencySectionProps {
+    provider: LLMProvider;
+    concurrency: ConcurrencySettings;
+    models: LLMProviderModelOption[];
+    onChange: (concurrency: ConcurrencySettings) => void;
+    onReset: () => void;
+}
+
+const toLimit = (value: string): number => Math.max(1, Math.floor(Number(value) || 1));
+
+// How many agent requests may run at once against the selected provider, overall and per model
+export function ConcurrencySection({ provider, concurrency, models, onChange, onReset }: ConcurrencySectionProps) {
+    // An empty model field falls back to the provider limit
+    const setModelLimit = (modelId: string, value: string) => {
+        const { [modelId]: _previous, ...rest } = concurrency.models;
+        onChange({ ...concurrency, models: value.trim() ? { ...rest, [modelId]: toLimit(value) } : rest });
+    };
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-solita-black">Parallel Requests</h3>
+                    <p className="text-sm text-solita-dark-grey mt-1">
+                        Agents beyond these limits wait in a queue. Lower them if {LLM_PROVIDER_CONFIGS[provider].label} rejects bursts of requests.
+                    </p>
+                </div>
+                <button
+                    onClick={onReset}
+                    className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors text-sm whitespace-nowrap"
+                >
+                    Use Defaults
+                </button>
+            </div>
+
+            <div className="space-y-4">
+                <StandardInput
+                    label="Max Requests per Model"
+                    type="number"
+                    min={1}
+                    value={concurrency.maxInFlight}
+                    onChange={(e) => onChange({ ...concurrency, maxInFlight: toLimit(e.target.value) })}
+                />
+
+                {models.length > 0 && (
+                    <div>
+                        <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">
+                            Model Overrides
+                        </label>
+                        <div className="space-y-2">
+                            {models.map(model => (
+                                <div key={model.id} className="flex items-center gap-3">
+                                    <span className="flex-1 text-sm font-mono text-solita-black truncate">{model.id}</span>
+                                    <div className="w-24">
+                                        <StandardInput
+                                            type="number"
+                                            min={1}
+                                            value={concurrency.models[model.id] ?? ''}
+                                            placeholder={String(concurrency.maxInFlight)}
+                                            onChange={(e) => setModelLimit(model.id, e.target.value)}
+                                            className="py-1.5"
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,177 @@
+import { useState, useEffect } from 'react';
+import { Loader2, Plus, RefreshCw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { StandardInput } from './ui/StandardInput';
+import { llmService } from '../services/llm.service';
+import { EndpointProvider, EndpointSettings } from '../services/settings.service';
+
+interface EndpointSettingsSectionProps {
+    provider: EndpointProvider;
+    endpoint: EndpointSettings;
+    onChange: (endpoint: EndpointSettings) => void;
+}
+
+const SECTION_COPY: Record<EndpointProvider, { title: string; description: string; baseUrlPlaceholder: string; fetchLabel: string; modelPlaceholder: string; fetchError: string }> = {
+    litellm: {
+        title: 'OpenAI-Compatible Endpoint',
+        description: 'Point the app at your own LiteLLM proxy, vLLM, LM Studio or llama.cpp server.',
+        baseUrlPlaceholder: 'http://localhost:4000/v1',
+        fetchLabel: 'Fetch from /models',
+        modelPlaceholder: 'Add a model id, e.g. llama-3.1-8b-instruct',
+        fetchError: 'Could not load models. Check the base URL, headers and API key.',
+    },
+    ollama: {
+        title: 'Ollama Server',
+        description: 'Models run locally. Start Ollama with OLLAMA_ORIGINS set to this app\'s origin so the browser may call it.',
+        baseUrlPlaceholder: 'http://localhost:11434',
+        fetchLabel: 'Fetch Installed Models',
+        modelPlaceholder: 'Add a model tag, e.g. llama3.1:8b',
+        fetchError: 'Could not reach Ollama. Check that it is running and the base URL is correct.',
+    },
+};
+
+const formatHeaders = (headers: Record<string, string>): string =>
+    Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+// One "Name: value" header per line; lines without a colon are ignored
+const parseHeaders = (text: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+        const separator = line.indexOf(':');
+        if (separator <= 0) continue;
+        const name = line.slice(0, separator).trim();
+        if (name) headers[name] = line.slice(separator + 1).trim();
+    }
+    return headers;
+};
+
+// Base URL, extra headers and model list for a self-hosted server
+export function EndpointSettingsSection({ provider, endpoint, onChange }: EndpointSettingsSectionProps) {
+    const copy = SECTION_COPY[provider];
+    const [headersText, setHeadersText] = useState(() => formatHeaders(endpoint.headers));
+    const [newModel, setNewModel] = useState('');
+    const [isFetching, setIsFetching] = useState(false);
+
+    // Reset the headers editor when settings are reloaded or imported
+    useEffect(() => {
+        setHeadersText(formatHeaders(endpoint.headers));
+    }, [endpoint.headers]);
+
+    const fetchModels = async () => {
+        setIsFetching(true);
+        try {
+            const models = await llmService.listModels(provider, endpoint);
+            if (models.length === 0) {
+                toast.error('The endpoint returned no models');
+                return;
+            }
+            onChange({ ...endpoint, models });
+            toast.success(`Loaded ${models.length} models from the endpoint`);
+        } catch (error) {
+            console.error('Failed to fetch models:', error);
+            toast.error(copy.fetchError);
+        } finally {
+            setIsFetching(false);
+        }
+    };
+
+    const addModel = () => {
+        const id = newModel.trim();
+        if (!id || endpoint.models.some(m => m.id === id)) return;
+        onChange({ ...endpoint, models: [...endpoint.models, { id, name: id, provider: provider === 'ollama' ? 'Ollama' : 'Endpoint' }] });
+        setNewModel('');
+    };
+
+    const removeModel = (id: string) => {
+        onChange({ ...endpoint, models: endpoint.models.filter(m => m.id !== id) });
+    };
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <h3 className="text-lg font-semibold text-solita-black">{copy.title}</h3>
+            <p className="text-sm text-solita-dark-grey mt-1 mb-4">{copy.description}</p>
+
+            <div className="space-y-4">
+                <StandardInput
+                    label="Base URL"
+                    value={endpoint.baseUrl}
+                    onChange={(e) => onChange({ ...endpoint, baseUrl: e.target.value.trim() })}
+                    placeholder={copy.baseUrlPlaceholder}
+                />
+
+                <div>
+                    <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">
+                        Extra Headers
+                    </label>
+                    <textarea
+                        value={headersText}
+                        onChange={(e) => setHeadersText(e.target.value)}
+                        onBlur={() => onChange({ ...endpoint, headers: parseHeaders(headersText) })}
+                        placeholder={'X-Team-Id: research\nOpenAI-Organization: org-123'}
+                        className="w-full px-3 py-2 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent font-mono text-sm text-solita-black"
+                        rows={3}
+                    />
+                </div>
+
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <label className="block text-xs font-medium text-solita-mid-grey uppercase ml-1">
+                            Models {endpoint.models.length === 0 && '(using built-in list)'}
+                        </label>
+                        <div className="flex gap-2">
+                            {endpoint.models.length > 0 && (
+                                <button
+                                    onClick={() => onChange({ ...endpoint, models: [] })}
+                                    className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors text-sm"
+                                >
+                                    Use Built-in List
+                                </button>
+                            )}
+                            <button
+                                onClick={fetchModels}
+                                disabled={isFetching || !endpoint.baseUrl}
+                                className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm disabled:opacity-60"
+                            >
+                                {isFetching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+                                {copy.fetchLabel}
+                            </button>
+                        </div>
+                    </div>
+
+                    {endpoint.models.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-3">
+                            {endpoint.models.map(model => (
+                                <span
+                                    key={model.id}
+                                    className="inline-flex items-center gap-2 px-3 py-1 bg-solita-ochre/10 text-solita-black rounded-full text-sm font-mono"
+                                >
+                                    {model.id}
+                                    <button onClick={() => removeModel(model.id)} className="text-solita-mid-grey hover:text-solita-red">
+                                        <X className="w-3.5 h-3.5" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-2">
+                        <StandardInput
+                            value={newModel}
+                            onChange={(e) => setNewModel(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && addModel()}
+                            placeholder={copy.modelPlaceholder}
+                            className="flex-1"
+                        />
+                        <button
+                            onClick={addModel}
+                            className="px-4 py-2 bg-solita-green hover:bg-solita-green/90 text-white rounded-lg transition-colors flex items-center gap-1"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Add
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -3,42 +3,59 @@ import { useDropzone } from 'react-dropzone';
 import { Upload, File, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { docxParserService } from '../services/docx-parser.service';
+import { pdfParserService } from '../services/pdf-parser.service';
+import { subtitleParserService } from '../services/subtitle-parser.service';
+import { Transcript } from '../types';
 import toast from 'react-hot-toast';
 
 interface FileUploadZoneProps {
-    onFileSelect: (file: File, content: string) => void;
+    onFileSelect: (file: File, content: string, transcript?: Transcript) => void;
     selectedFile: File | null;
     onRemove: () => void;
+    multiple?: boolean; // Accept several files at once, calling onFileSelect for each
 }
 
-export function FileUploadZone({ onFileSelect, selectedFile, onRemove }: FileUploadZoneProps) {
+export function FileUploadZone({ onFileSelect, selectedFile, onRemove, multiple = false }: FileUploadZoneProps) {
     const onDrop = useCallback(
         async (acceptedFiles: File[]) => {
-            if (acceptedFiles.length > 0) {
-                const file = acceptedFiles[0];
+            const files = multiple ? acceptedFiles : acceptedFiles.slice(0, 1);
+            for (const file of files) {
                 try {
                     let text: string;
+                    let transcript: Transcript | undefined;
 
-                    // Parse DOCX files using mammoth, read text files directly
-                    if (docxParserService.isDocxFile(file)) {
+                    // Parse DOCX files using mammoth, PDFs using pdf.js, subtitles into timed turns, read text files directly
+                    if (subtitleParserService.isSubtitleFile(file)) {
+                        transcript = await subtitleParserService.parseSubtitleFile(file);
+                        text = transcript.content;
+                        toast.success(`Subtitles parsed into ${transcript.turns.length} speaker turns`);
+                    } else if (docxParserService.isDocxFile(file)) {
                         toast.loading('Parsing Word document...');
-                        text = await docxParserService.parseDocx(file);
+                        transcript = await docxParserService.parseDocx(file);
+                        text = transcript.content;
                         toast.dismiss();
-                        toast.success('Word document parsed successfully!');
+                        toast.success(transcript.speakers.length > 0
+                            ? `Word document parsed into ${transcript.turns.length} speaker turns`
+                            : 'Word document parsed successfully!');
+                    } else if (pdfParserService.isPdfFile(file)) {
+                        toast.loading('Extracting text from PDF...');
+                        text = await pdfParserService.parsePdf(file);
+                        toast.dismiss();
+                        toast.success('PDF parsed successfully!');
                     } else {
                         // Plain text file
                         text = await file.text();
                     }
 
-                    onFileSelect(file, text);
+                    onFileSelect(file, text, transcript);
                 } catch (error) {
                     toast.dismiss();
-                    toast.error(error instanceof Error ? error.message : 'Failed to read file');
+                    toast.error(error instanceof Error ? `${file.name}: ${error.message}` : 'Failed to read file');
                     console.error('File reading error:', error);
                 }
             }
         },
-        [onFileSelect]
+        [onFileSelect, multiple]
     );
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -47,12 +64,15 @@ export function FileUploadZone({ onFileSelect, selectedFile, onRemove }: FileUpl
             'text/plain': ['.txt'],
             'text/markdown': ['.md'],
             'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+            'application/pdf': ['.pdf'],
+            'text/vtt': ['.vtt'],
+            'application/x-subrip': ['.srt'],
         },
         maxSize: 10 * 1024 * 1024, // 10MB
-        multiple: false,
+        multiple,
     });
 
-    if (selectedFile) {
+    if (selectedFile && !multiple) {
         return (
             <motion.div
                 initial={{ opacity: 0, y: 10 }}
@@ -94,16 +114,16 @@ export function FileUploadZone({ onFileSelect, selectedFile, onRemove }: FileUpl
                     }`}
             />
             {isDragActive ? (
-                <p className="text-lg font-semibold text-solita-ochre">Drop the file here...</p>
+                <p className="text-lg font-semibold text-solita-ochre">Drop the {multiple ? 'files' : 'file'} here...</p>
             ) : (
                 <>
                     <p className="text-lg font-semibold text-solita-black mb-2">
-                        Drag & drop a transcript file here
+                        {multiple ? 'Drag & drop transcript files here' : 'Drag & drop a transcript file here'}
                     </p>
                     <p className="text-sm text-solita-dark-grey">
-                        or click to browse (.txt, .md, .docx)
+                        or click to browse (.txt, .md, .docx, .pdf, .vtt, .srt)
                     </p>
-                    <p className="text-xs text-solita-mid-grey mt-2">Maximum file size: 10MB</p>
+                    <p className="text-xs text-solita-mid-grey mt-2">Maximum file size: 10MB{multiple ? ' per file' : ''}</p>
                 </>
             )}
         </div>
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { Circle, Download, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { mockLLMService } from '../services/mock-llm.service';
+import { MockSettings } from '../services/settings.service';
+
+interface MockFixturesSectionProps {
+    mock: MockSettings;
+    onChange: (mock: MockSettings) => void;
+}
+
+const TIMING_OPTIONS: { value: number; label: string }[] = [
+    { value: 1, label: 'Recorded speed' },
+    { value: 0.25, label: '4x faster' },
+    { value: 0, label: 'Instant' },
+];
+
+// Record exchanges with real providers and manage the fixtures the mock provider replays
+export function MockFixturesSection({ mock, onChange }: MockFixturesSectionProps) {
+    const [fixtureCount, setFixtureCount] = useState(() => mockLLMService.getFixtures().length);
+
+    // Refresh the count whenever settings are reopened or recording is toggled
+    useEffect(() => {
+        setFixtureCount(mockLLMService.getFixtures().length);
+    }, [mock.recording]);
+
+    const handleExport = () => {
+        const blob = new Blob([mockLLMService.exportFixtures()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `transcript-processor-fixtures-${Date.now()}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        toast.success('Fixtures exported!');
+    };
+
+    const handleImport = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'application/json';
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+            try {
+                const count = mockLLMService.importFixtures(await file.text());
+                setFixtureCount(count);
+                toast.success(`Loaded ${count} fixtures`);
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : 'Failed to import fixtures');
+            }
+        };
+        input.click();
+    };
+
+    const handleClear = () => {
+        if (!confirm('Delete all recorded fixtures?')) return;
+        mockLLMService.clearFixtures();
+        setFixtureCount(0);
+        toast.success('Fixtures cleared');
+    };
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <h3 className="text-lg font-semibold text-solita-black">Recorded Responses</h3>
+            <p className="text-sm text-solita-dark-grey mt-1 mb-4">
+                While recording, every request to a real provider is saved as a fixture. Select the Mock provider to replay them offline.
+            </p>
+
+            <div className="space-y-4">
+                <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={mock.recording}
+                        onChange={(e) => onChange({ ...mock, recording: e.target.checked })}
+                        className="w-4 h-4 accent-solita-ochre"
+                    />
+                    <span className="text-sm text-solita-black flex items-center gap-2">
+                        {mock.recording && <Circle className="w-3 h-3 fill-solita-red text-solita-red" />}
+                        Record requests and responses
+                    </span>
+                </label>
+
+                <div>
+                    <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">
+                        Replay Streaming Speed
+                    </label>
+                    <select
+                        value={mock.timingScale}
+                        onChange={(e) => onChange({ ...mock, timingScale: Number(e.target.value) })}
+                        className="w-full px-3 py-2 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                    >
+                        {TIMING_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <span className="text-sm text-solita-dark-grey">
+                        {fixtureCount} {fixtureCount === 1 ? 'fixture' : 'fixtures'} recorded
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleExport}
+                            disabled={fixtureCount === 0}
+                            className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm disabled:opacity-60"
+                        >
+                            <Download className="w-3.5 h-3.5" />
+                            Export
+                        </button>
+                        <button
+                            onClick={handleImport}
+                            className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                        >
+                            <Upload className="w-3.5 h-3.5" />
+                            Import
+                        </button>
+                        <button
+                            onClick={handleClear}
+                            disabled={fixtureCount === 0}
+                            className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-red-500 hover:text-red-500 text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm disabled:opacity-60"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                            Clear
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,5 +1,8 @@
-import { useState } from 'react';
-import { X, Settings } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { X, Settings, Loader2 } from 'lucide-react';
+import { llmService } from '../services/llm.service';
+import { settingsService } from '../services/settings.service';
+import { LLMProviderModelOption } from '../constants/llm-providers';
 
 interface ModelSelectorProps {
     isOpen: boolean;
@@ -8,15 +11,31 @@ interface ModelSelectorProps {
     onModelChange: (model: string) => void;
 }
 
-const AVAILABLE_MODELS = [
-    { id: 'google/gemini-2.0-flash-001', name: 'Gemini 2.0 Flash', provider: 'Google' },
-    { id: 'azure/gpt-4o-mini', name: 'GPT-4o Mini', provider: 'Azure OpenAI' },
-    { id: 'azure/gpt-4o', name: 'GPT-4o', provider: 'Azure OpenAI' },
-    { id: 'anthropic/claude-3-5-sonnet-20241022', name: 'Claude 3.5 Sonnet', provider: 'Anthropic' },
-];
-
 export function ModelSelector({ isOpen, onClose, currentModel, onModelChange }: ModelSelectorProps) {
     const [selectedModel, setSelectedModel] = useState(currentModel);
+    const [models, setModels] = useState<LLMProviderModelOption[]>(() => settingsService.getAvailableModels());
+    const [isLoadingModels, setIsLoadingModels] = useState(false);
+
+    // Ask the endpoint which models it serves, keeping the configured list if it cannot be reached
+    useEffect(() => {
+        if (!isOpen) return;
+
+        let cancelled = false;
+        setModels(settingsService.getAvailableModels());
+        setIsLoadingModels(true);
+        llmService.listModels()
+            .then(discovered => {
+                if (!cancelled && discovered.length > 0) setModels(discovered);
+            })
+            .catch(error => console.warn('Model discovery failed, using configured models:', error))
+            .finally(() => {
+                if (!cancelled) setIsLoadingModels(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen]);
 
     const handleSave = () => {
         onModelChange(selectedModel);
@@ -41,12 +60,13 @@ export function ModelSelector({ isOpen, onClose, currentModel, onModelChange }:
                     </button>
                 </div>
 
-                <p className="text-sm text-solita-dark-grey mb-4">
+                <p className="text-sm text-solita-dark-grey mb-4 flex items-center gap-2">
                     Choose which AI model to use for transcript analysis.
+                    {isLoadingModels && <Loader2 className="w-4 h-4 animate-spin text-solita-mid-grey" />}
                 </p>
 
-                <div className="space-y-2 mb-6">
-                    {AVAILABLE_MODELS.map((model) => (
+                <div className="space-y-2 mb-6 max-h-80 overflow-y-auto">
+                    {models.map((model) => (
                         <label
                             key={model.id}
                             className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${selectedModel === model.id
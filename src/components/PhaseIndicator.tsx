@@ -2,21 +2,29 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Phase } from '../types/phases';
 import { useAnalysisContext } from '../contexts/AnalysisContext';
-import { Check, Sparkles, FileText, Lightbulb, Download, Settings, RotateCcw, Search } from 'lucide-react';
+import { Check, Sparkles, FileText, Lightbulb, Download, Settings, RotateCcw, Search, Users, Package, Coins, Tags } from 'lucide-react';
+import toast from 'react-hot-toast';
 import { SettingsModal } from './SettingsModal';
+import { UsageDashboard } from './UsageDashboard';
+import { usageService } from '../services/usage.service';
+import { projectBundleService } from '../services/project-bundle.service';
+import { agentLogger } from '../services/agent-logger.service';
 
-const PHASE_INFO = [
+export const PHASE_INFO = [
     { phase: Phase.UPLOAD_ALIGN, label: 'Upload', icon: Sparkles },
     { phase: Phase.PROCESSING_VALIDATION, label: 'Analysis Framework', icon: FileText },
     { phase: Phase.INSIGHT_EXTRACTION, label: 'Processing & Evaluation', icon: Lightbulb },
     { phase: Phase.GAP_ANALYSIS, label: 'Gap Analysis', icon: Search },
+    { phase: Phase.SYNTHESIS, label: 'Synthesis', icon: Users },
+    { phase: Phase.CODING, label: 'Coding', icon: Tags },
     { phase: Phase.CONSOLIDATION, label: 'Consolidate', icon: Download },
 ];
 
 export function PhaseIndicator() {
-    const { currentPhase, resetAnalysis } = useAnalysisContext();
+    const { state, currentPhase, resetAnalysis } = useAnalysisContext();
     const navigate = useNavigate();
     const [showSettings, setShowSettings] = useState(false);
+    const [showUsage, setShowUsage] = useState(false);
     const [showResetConfirm, setShowResetConfirm] = useState(false);
 
     const handleReset = () => {
@@ -25,10 +33,30 @@ export function PhaseIndicator() {
         setShowResetConfirm(false);
     };
 
+    // Download the whole project, including agent logs, as a bundle a colleague can import
+    const handleExportProject = () => {
+        const json = projectBundleService.export(state, agentLogger.getLogs());
+        const blob = new Blob([json], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = projectBundleService.getFileName(state);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        toast.success('Project exported!');
+    };
+
+    // Cross-interview synthesis is only shown for multi-transcript projects
+    const phases = state.transcripts.length > 1
+        ? PHASE_INFO
+        : PHASE_INFO.filter(p => p.phase !== Phase.SYNTHESIS);
+
     // Determine if a phase is completed, active, or upcoming based on current phase
     const getPhaseStatus = (phase: Phase): 'completed' | 'active' | 'upcoming' => {
-        const currentIndex = PHASE_INFO.findIndex(p => p.phase === currentPhase);
-        const phaseIndex = PHASE_INFO.findIndex(p => p.phase === phase);
+        const currentIndex = phases.findIndex(p => p.phase === currentPhase);
+        const phaseIndex = phases.findIndex(p => p.phase === phase);
 
         if (phaseIndex < currentIndex) return 'completed';
         if (phaseIndex === currentIndex) return 'active';
@@ -52,6 +80,26 @@ export function PhaseIndicator() {
                                 <span>Settings</span>
                             </button>
 
+                            {/* Export Project Button */}
+                            <button
+                                onClick={handleExportProject}
+                                className="px-4 py-2 bg-solita-green hover:bg-solita-green/90 text-white rounded-lg transition-all duration-200 flex items-center gap-2 shadow-sm hover:shadow-md font-medium text-sm"
+                                title="Export Project"
+                            >
+                                <Package className="w-4 h-4" />
+                                <span>Export</span>
+                            </button>
+
+                            {/* Usage Button */}
+                            <button
+                                onClick={() => setShowUsage(true)}
+                                className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-all duration-200 flex items-center gap-2 shadow-sm hover:shadow-md font-medium text-sm"
+                                title="Token usage and estimated cost"
+                            >
+                                <Coins className="w-4 h-4" />
+                                <span>{usageService.formatCost(usageService.getTotals(state.usage).cost)}</span>
+                            </button>
+
                             {/* Reset Data Button */}
                             <button
                                 onClick={() => setShowResetConfirm(true)}
@@ -82,13 +130,13 @@ export function PhaseIndicator() {
                                     zIndex: 0,
                                     left: 'calc(20px + 0.5rem)',
                                     // Width is percentage of distance between first and last phase
-                                    width: `calc((${PHASE_INFO.findIndex(p => p.phase === currentPhase)} / ${PHASE_INFO.length - 1}) * (100% - 40px - 1rem))`
+                                    width: `calc((${phases.findIndex(p => p.phase === currentPhase)} / ${phases.length - 1}) * (100% - 40px - 1rem))`
                                 }}
                             ></div>
 
                             {/* Phase Circles - using gap for consistent spacing */}
                             <div className="flex items-center justify-center gap-4 md:gap-8 lg:gap-12 w-full relative" style={{ zIndex: 1 }}>
-                                {PHASE_INFO.map((phaseInfo) => {
+                                {phases.map((phaseInfo) => {
                                     const status = getPhaseStatus(phaseInfo.phase);
                                     const Icon = phaseInfo.icon;
 
@@ -162,6 +210,7 @@ export function PhaseIndicator() {
             )}
 
             <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} />
+            <UsageDashboard isOpen={showUsage} onClose={() => setShowUsage(false)} />
         </>
     );
 }
@@ -0,0 +1,111 @@
+import { Gauge, AlertTriangle, Scissors } from 'lucide-react';
+import { LLMProviderModelOption } from '../constants/llm-providers';
+import { PromptFit } from '../services/token-estimator.service';
+
+export interface PreflightRow {
+    id: string;
+    title: string;
+    fit: PromptFit;
+}
+
+interface PreflightCheckProps {
+    rows: PreflightRow[];
+    model: string;
+    isAssumedWindow: boolean; // The model is missing from the provider's context window table
+    largerModels: LLMProviderModelOption[]; // Models whose window fits every prompt
+    chunked: boolean;
+    onChunkedChange: (chunked: boolean) => void;
+    onModelChange: (model: string) => void;
+}
+
+const BAR_COLORS = {
+    ok: 'bg-solita-green',
+    warn: 'bg-solita-ochre',
+    over: 'bg-solita-red',
+};
+
+// Estimated writer prompt size per segment against the writer model's context window, with ways out when it does not fit
+export function PreflightCheck({ rows, model, isAssumedWindow, largerModels, chunked, onChunkedChange, onModelChange }: PreflightCheckProps) {
+    if (rows.length === 0) return null;
+
+    const contextWindow = rows[0].fit.contextWindow;
+    const over = rows.filter(row => row.fit.status === 'over').length;
+    const warn = rows.filter(row => row.fit.status === 'warn').length;
+
+    return (
+        <div className="text-left border border-solita-light-grey rounded-lg p-5 mb-6">
+            <div className="flex items-center justify-between gap-4 mb-3">
+                <h4 className="text-sm font-medium text-solita-black flex items-center gap-2">
+                    <Gauge className="w-4 h-4 text-solita-ochre" />
+                    Pre-flight Check
+                </h4>
+                <span className="text-xs text-solita-mid-grey">
+                    <span className="font-mono">{model}</span> · {contextWindow.toLocaleString()} token window{isAssumedWindow && ' (assumed)'}
+                </span>
+            </div>
+
+            <table className="w-full text-sm">
+                <tbody className="divide-y divide-solita-light-grey">
+                    {rows.map(row => {
+                        const share = row.fit.tokens / row.fit.contextWindow;
+                        return (
+                            <tr key={row.id} className="text-solita-black">
+                                <td className="py-2 pr-4 truncate max-w-xs">{row.title}</td>
+                                <td className="py-2 pr-4 text-right font-mono whitespace-nowrap">~{row.fit.tokens.toLocaleString()}</td>
+                                <td className="py-2 w-40">
+                                    <div className="h-2 bg-solita-light-grey rounded-full overflow-hidden">
+                                        <div className={`h-full ${BAR_COLORS[row.fit.status]}`} style={{ width: `${Math.min(100, Math.max(1, share * 100))}%` }} />
+                                    </div>
+                                </td>
+                                <td className={`py-2 pl-3 text-right text-xs whitespace-nowrap ${row.fit.status === 'over' ? 'text-solita-red' : 'text-solita-mid-grey'}`}>
+                                    {Math.round(share * 100)}%
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {over > 0 ? (
+                <div className="mt-4 p-3 bg-solita-red/5 border border-solita-red/30 rounded-lg space-y-3">
+                    <p className="text-sm text-solita-red flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        {over} of {rows.length} segment prompts do not fit in the context window with room for the answer.
+                        {chunked ? ' They will be analyzed in chunks.' : ' Switch to a larger model or chunk the transcript to continue.'}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        {largerModels.length > 0 && (
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value && onModelChange(e.target.value)}
+                                className="px-3 py-2 border border-solita-light-grey rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                            >
+                                <option value="">Switch writer model...</option>
+                                {largerModels.map(option => (
+                                    <option key={option.id} value={option.id}>
+                                        {option.name} ({option.provider})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        <label className="flex items-center gap-2 text-sm text-solita-dark-grey cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={chunked}
+                                onChange={(e) => onChunkedChange(e.target.checked)}
+                                className="accent-solita-ochre"
+                            />
+                            <Scissors className="w-4 h-4" />
+                            Chunk the transcript (more requests, each writer reads it in parts)
+                        </label>
+                    </div>
+                </div>
+            ) : warn > 0 && (
+                <p className="mt-4 text-sm text-solita-ochre flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    {warn} of {rows.length} segment prompts are close to the limit. Estimates are approximate and lean high.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+import { FileUploadZone } from './FileUploadZone';
+import { FileText, Users, XCircle } from 'lucide-react';
+import { TranscriptSource } from '../types/phases';
+import { Transcript } from '../types';
+
+interface ProjectTranscriptListProps {
+    sources: TranscriptSource[];
+    onAdd: (source: TranscriptSource) => void;
+    onRemove: (index: number) => void;
+}
+
+// Additional interviews in a multi-transcript project, analysed with the same framework as the primary transcript
+export function ProjectTranscriptList({ sources, onAdd, onRemove }: ProjectTranscriptListProps) {
+    const handleFileSelect = (file: File, content: string, transcript?: Transcript) => {
+        onAdd({ name: file.name, content, transcript });
+    };
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold text-solita-black mb-1 flex items-center gap-2">
+                <Users className="w-5 h-5 text-solita-ochre" />
+                Additional Interviews
+            </h3>
+            <p className="text-sm text-solita-dark-grey mb-4">
+                Optional: add the other interviews in your study. Each one is analyzed with the same framework and compared in a synthesis phase.
+            </p>
+
+            {sources.length > 0 && (
+                <ul className="space-y-2 mb-4">
+                    {sources.map((source, index) => (
+                        <li
+                            key={`${source.name}-${index}`}
+                            className="p-3 bg-solita-light-grey rounded-md flex items-center justify-between text-sm text-solita-dark-grey"
+                        >
+                            <div className="flex items-center gap-2">
+                                <FileText className="w-4 h-4 text-solita-ochre" />
+                                <span>{source.name}</span>
+                                {source.transcript && source.transcript.speakers.length > 0 && (
+                                    <span className="text-xs text-solita-mid-grey">
+                                        ({source.transcript.turns.length} turns, {source.transcript.speakers.length} speakers)
+                                    </span>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => onRemove(index)}
+                                className="text-solita-mid-grey hover:text-solita-dark-grey transition-colors"
+                                title="Remove interview"
+                            >
+                                <XCircle className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <FileUploadZone
+                onFileSelect={handleFileSelect}
+                selectedFile={null}
+                onRemove={() => undefined}
+                multiple
+            />
+        </div>
+    );
+}
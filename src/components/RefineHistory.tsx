@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { History, Check, X } from 'lucide-react';
+import { RefineIteration } from '../types/phases';
+
+interface RefineHistoryProps {
+    iterations: RefineIteration[];
+    currentContent: string; // The analysis as it stands, to mark the draft in use
+    onUseVersion?: (iteration: RefineIteration) => void;
+}
+
+// Drafts and critiques of an auto-refine run, to follow how the text converged and pick a version
+export function RefineHistory({ iterations, currentContent, onUseVersion }: RefineHistoryProps) {
+    const [selected, setSelected] = useState<number | null>(null);
+
+    if (iterations.length === 0) return null;
+
+    const open = selected !== null ? iterations.find(iteration => iteration.iteration === selected) : undefined;
+
+    return (
+        <div className="mb-4 p-4 border border-solita-light-grey rounded-lg">
+            <h4 className="text-sm font-medium text-solita-black mb-3 flex items-center gap-2">
+                <History className="w-4 h-4 text-solita-ochre" />
+                Refinement History
+            </h4>
+
+            {/* One chip per draft with its critic verdict */}
+            <div className="flex flex-wrap gap-2">
+                {iterations.map(iteration => {
+                    const evaluation = iteration.evaluation;
+                    const inUse = iteration.content === currentContent;
+                    return (
+                        <button
+                            key={iteration.iteration}
+                            onClick={() => setSelected(selected === iteration.iteration ? null : iteration.iteration)}
+                            className={`px-3 py-1.5 rounded-lg border text-xs flex items-center gap-1.5 transition-colors ${selected === iteration.iteration
+                                ? 'border-solita-ochre bg-solita-ochre/10'
+                                : 'border-solita-light-grey hover:border-solita-ochre/50'
+                                }`}
+                        >
+                            <span className="font-medium text-solita-black">Draft {iteration.iteration}</span>
+                            {evaluation ? (
+                                <>
+                                    {evaluation.sourceAlignment
+                                        ? <Check className="w-3.5 h-3.5 text-solita-green" />
+                                        : <X className="w-3.5 h-3.5 text-solita-red" />}
+                                    <span className="text-solita-dark-grey">{evaluation.objectiveFulfillmentScore}%</span>
+                                </>
+                            ) : (
+                                <span className="text-solita-mid-grey">not evaluated</span>
+                            )}
+                            {inUse && <span className="ml-1 px-1.5 rounded bg-solita-ochre text-white">in use</span>}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Selected draft with its critique */}
+            {open && (
+                <div className="mt-3 space-y-3">
+                    <div className="max-h-64 overflow-y-auto p-3 bg-solita-light-grey/30 rounded-lg text-sm text-solita-black whitespace-pre-wrap">
+                        {open.content}
+                    </div>
+                    {open.evaluation && (
+                        <div className="text-sm text-solita-dark-grey">
+                            {open.evaluation.sourceAlignmentIssues && (
+                                <p className="text-solita-red mb-1">
+                                    {open.evaluation.sourceAlignmentIssues.length} statements not fully supported by the transcript
+                                </p>
+                            )}
+                            <p className="whitespace-pre-wrap">{open.evaluation.improvementGuidance}</p>
+                        </div>
+                    )}
+                    {onUseVersion && (
+                        <button
+                            onClick={() => onUseVersion(open)}
+                            disabled={open.content === currentContent}
+                            className="px-3 py-1.5 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors text-sm"
+                        >
+                            Use Draft {open.iteration}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect } from 'react';
+import { LLM_PROVIDER_CONFIGS, LLMProvider, RetryPolicy } from '../constants/llm-providers';
+import { StandardInput } from './ui/StandardInput';
+
+interface RetryPolicySectionProps {
+    provider: LLMProvider;
+    policy: RetryPolicy;
+    onChange: (policy: RetryPolicy) => void;
+    onReset: () => void;
+}
+
+const formatStatuses = (statuses: number[]): string => statuses.join(', ');
+
+// Comma or space separated HTTP status codes; anything else is dropped
+const parseStatuses = (text: string): number[] =>
+    [...new Set(text.split(/[\s,]+/).map(Number).filter(code => Number.isInteger(code) && code >= 100 && code <= 599))];
+
+const toCount = (value: string): number => Math.max(0, Math.floor(Number(value) || 0));
+
+// How failed requests to the selected provider are retried
+export function RetryPolicySection({ provider, policy, onChange, onReset }: RetryPolicySectionProps) {
+    const [statusText, setStatusText] = useState(() => formatStatuses(policy.retryOnStatus));
+
+    // Reset the status editor when the provider or saved policy changes
+    useEffect(() => {
+        setStatusText(formatStatuses(policy.retryOnStatus));
+    }, [policy.retryOnStatus]);
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-solita-black">Retries</h3>
+                    <p className="text-sm text-solita-dark-grey mt-1">
+                        Failed requests to {LLM_PROVIDER_CONFIGS[provider].label} are retried with exponential backoff. A Retry-After from the server takes precedence and is waited in full; one longer than the max delay ends the request. A stream that drops mid-reply starts over, discarding its partial text.
+                    </p>
+                </div>
+                <button
+                    onClick={onReset}
+                    className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors text-sm whitespace-nowrap"
+                >
+                    Use Defaults
+                </button>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4">
+                <StandardInput
+                    label="Max Retries"
+                    type="number"
+                    min={0}
+                    value={policy.maxRetries}
+                    onChange={(e) => onChange({ ...policy, maxRetries: toCount(e.target.value) })}
+                />
+                <StandardInput
+                    label="First Delay (ms)"
+                    type="number"
+                    min={0}
+                    step={100}
+                    value={policy.baseDelayMs}
+                    onChange={(e) => onChange({ ...policy, baseDelayMs: toCount(e.target.value) })}
+                />
+                <StandardInput
+                    label="Max Delay (ms)"
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={policy.maxDelayMs}
+                    onChange={(e) => onChange({ ...policy, maxDelayMs: toCount(e.target.value) })}
+                />
+            </div>
+
+            <StandardInput
+                label="Retry on HTTP Status"
+                value={statusText}
+                onChange={(e) => setStatusText(e.target.value)}
+                onBlur={() => onChange({ ...policy, retryOnStatus: parseStatuses(statusText) })}
+                placeholder="429, 503"
+                className="font-mono text-sm"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { LLMProviderModelOption } from '../constants/llm-providers';
+import { CriticRubric } from '../services/settings.service';
+import { StandardInput } from './ui/StandardInput';
+
+interface RubricsSectionProps {
+    rubrics: CriticRubric[];
+    models: LLMProviderModelOption[];
+    onChange: (rubrics: CriticRubric[]) => void;
+    onReset: () => void;
+}
+
+const toScore = (value: string): number => Math.min(100, Math.max(0, Math.round(Number(value) || 0)));
+
+const createRubric = (): CriticRubric => ({
+    id: crypto.randomUUID(),
+    name: 'New Rubric',
+    description: '',
+    instructions: `You are a Critic Agent reviewing a research analysis.
+
+Judge the analysis on:
+1. ...
+
+A high score means ...`,
+    model: '',
+    weight: 1,
+    passScore: 70,
+});
+
+// Quality criteria of the critic panel, each run as its own critic with its own model and prompt
+export function RubricsSection({ rubrics, models, onChange, onReset }: RubricsSectionProps) {
+    const updateRubric = (id: string, updates: Partial<CriticRubric>) => {
+        onChange(rubrics.map(rubric => rubric.id === id ? { ...rubric, ...updates } : rubric));
+    };
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <div className="flex items-start justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-solita-black">Critic Panel Rubrics</h3>
+                    <p className="text-sm text-solita-dark-grey mt-1">
+                        Each rubric scores a segment from 0 to 100. Analyses pick which rubrics to run, and the results are combined into a scorecard weighted as set here.
+                    </p>
+                </div>
+                <button
+                    onClick={onReset}
+                    className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors text-sm whitespace-nowrap"
+                >
+                    Use Defaults
+                </button>
+            </div>
+
+            <div className="space-y-4">
+                {rubrics.map(rubric => (
+                    <div key={rubric.id} className="p-4 bg-solita-light-grey/20 rounded-lg space-y-3">
+                        <div className="flex items-end gap-3">
+                            <div className="flex-1">
+                                <StandardInput
+                                    label="Name"
+                                    value={rubric.name}
+                                    onChange={(e) => updateRubric(rubric.id, { name: e.target.value })}
+                                    className="py-1.5"
+                                />
+                            </div>
+                            <button
+                                onClick={() => onChange(rubrics.filter(other => other.id !== rubric.id))}
+                                className="p-2 text-solita-mid-grey hover:text-red-500 transition-colors"
+                                title="Remove rubric"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <StandardInput
+                            label="Description"
+                            value={rubric.description ?? ''}
+                            onChange={(e) => updateRubric(rubric.id, { description: e.target.value })}
+                            className="py-1.5"
+                        />
+
+                        <div className="grid grid-cols-[1fr_6rem_6rem] gap-3">
+                            <div>
+                                <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">
+                                    Model
+                                </label>
+                                <select
+                                    value={rubric.model}
+                                    onChange={(e) => updateRubric(rubric.id, { model: e.target.value })}
+                                    className="w-full px-3 py-2 border border-solita-light-grey rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                                >
+                                    <option value="">Same as Critic Agent</option>
+                                    {models.map(model => (
+                                        <option key={model.id} value={model.id}>
+                                            {model.name} ({model.provider})
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <StandardInput
+                                label="Weight"
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={rubric.weight}
+                                onChange={(e) => updateRubric(rubric.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                                className="py-1.5"
+                            />
+                            <StandardInput
+                                label="Pass Score"
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={rubric.passScore}
+                                onChange={(e) => updateRubric(rubric.id, { passScore: toScore(e.target.value) })}
+                                className="py-1.5"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-medium text-solita-mid-grey uppercase mb-1 ml-1">
+                                Critic Instructions
+                            </label>
+                            <textarea
+                                value={rubric.instructions}
+                                onChange={(e) => updateRubric(rubric.id, { instructions: e.target.value })}
+                                className="w-full px-3 py-2 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent font-mono text-sm text-solita-black leading-relaxed resize-vertical"
+                                rows={6}
+                            />
+                        </div>
+                    </div>
+                ))}
+
+                <button
+                    onClick={() => onChange([...rubrics, createRubric()])}
+                    className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2 text-sm"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Rubric
+                </button>
+            </div>
+        </div>
+    );
+}
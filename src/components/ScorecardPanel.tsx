@@ -0,0 +1,97 @@
+import { ClipboardCheck, Check, X } from 'lucide-react';
+import { Scorecard } from '../types/phases';
+
+interface ScorecardPanelProps {
+    scorecard: Scorecard;
+    currentContent: string; // The analysis as it stands, to flag a scorecard of an older text
+}
+
+// The critic panel's verdicts on a segment: one score bar per rubric against its pass mark, and the weighted overall score
+export function ScorecardPanel({ scorecard, currentContent }: ScorecardPanelProps) {
+    const isStale = scorecard.content !== currentContent;
+
+    return (
+        <div className="mt-4 p-4 border border-solita-light-grey rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="font-semibold text-solita-black flex items-center gap-2">
+                    <ClipboardCheck className="w-5 h-5 text-solita-ochre" />
+                    Scorecard
+                </h4>
+                <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${scorecard.passed ? 'bg-solita-green/15 text-solita-green' : 'bg-solita-red/10 text-solita-red'}`}>
+                        {scorecard.passed ? 'All rubrics passed' : 'Below the bar'}
+                    </span>
+                    <span className="text-lg font-semibold text-solita-ochre">{scorecard.overallScore}%</span>
+                </div>
+            </div>
+
+            {isStale && (
+                <p className="mb-3 text-xs text-solita-mid-grey">
+                    The analysis has changed since it was scored. Run the panel again for an up-to-date scorecard.
+                </p>
+            )}
+
+            <ul className="space-y-3">
+                {scorecard.evaluations.map(evaluation => {
+                    const passed = evaluation.score >= evaluation.passScore;
+                    return (
+                        <li key={evaluation.rubricId}>
+                            <div className="flex items-center gap-2 text-sm mb-1">
+                                {passed
+                                    ? <Check className="w-4 h-4 text-solita-green" />
+                                    : <X className="w-4 h-4 text-solita-red" />}
+                                <span className="font-medium text-solita-black">{evaluation.rubricName}</span>
+                                <span className="text-xs text-solita-mid-grey">{evaluation.model} · weight {evaluation.weight}</span>
+                                {evaluation.withoutTranscript && (
+                                    <span
+                                        className="px-1.5 py-0.5 rounded text-xs bg-solita-ochre/15 text-solita-dark-grey"
+                                        title="The transcript did not fit this rubric's model, so the analysis was judged on its own text"
+                                    >
+                                        Judged without transcript
+                                    </span>
+                                )}
+                                <span className="ml-auto font-medium text-solita-dark-grey">{evaluation.score}%</span>
+                            </div>
+
+                            {/* Score against the pass mark */}
+                            <div className="relative w-full bg-solita-light-grey rounded-full h-2">
+                                <div
+                                    className={`h-2 rounded-full transition-all duration-500 ${passed ? 'bg-solita-green' : 'bg-solita-ochre'}`}
+                                    style={{ width: `${evaluation.score}%` }}
+                                />
+                                <div
+                                    className="absolute -top-0.5 w-0.5 h-3 bg-solita-black"
+                                    style={{ left: `${evaluation.passScore}%` }}
+                                    title={`Pass score ${evaluation.passScore}%`}
+                                />
+                            </div>
+
+                            {(evaluation.findings.length > 0 || evaluation.guidance) && (
+                                <details className="mt-1 text-sm text-solita-dark-grey">
+                                    <summary className="cursor-pointer text-xs text-solita-mid-grey">
+                                        {evaluation.findings.length} findings
+                                    </summary>
+                                    <ul className="mt-1 ml-4 list-disc space-y-1">
+                                        {evaluation.findings.map((finding, idx) => (
+                                            <li key={idx}>{finding}</li>
+                                        ))}
+                                    </ul>
+                                    <p className="mt-2 whitespace-pre-wrap">
+                                        <span className="font-medium">How to improve: </span>
+                                        {evaluation.guidance}
+                                    </p>
+                                </details>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+
+            {scorecard.failedRubrics.length > 0 && (
+                <p className="mt-3 text-xs text-solita-red">
+                    No result from: {scorecard.failedRubrics.join(', ')}
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,16 @@
-import React from 'react';
-import { GapSuggestion, SegmentAnalysis, CriticEvaluation } from '../types/phases';
-import { AlertCircle, Plus, RefreshCw } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { GapSuggestion, SegmentAnalysis, CriticEvaluation, ClaimCheck, ClaimVerdict, RefineIteration } from '../types/phases';
+import { EvidenceLocation, Transcript } from '../types';
+import { AlertCircle, AlertTriangle, CheckCircle, ClipboardCheck, Play, Plus, Quote as QuoteIcon, RefreshCw, Repeat, Square } from 'lucide-react';
+import { quoteVerifierService } from '../services/quote-verifier.service';
+import { citationService } from '../services/citation.service';
+import { transcriptParserService } from '../services/transcript-parser.service';
 import { ElegantLoader } from '../components/ElegantLoader';
 import { StreamingOutput } from './ui/StreamingOutput';
 import { StandardTextArea } from './ui/StandardTextArea';
+import { RefineHistory } from './RefineHistory';
+import { VersionHistory } from './VersionHistory';
+import { ScorecardPanel } from './ScorecardPanel';
 
 interface SegmentCardProps {
     suggestion: GapSuggestion;
@@ -18,8 +25,36 @@ interface SegmentCardProps {
     showAddButton?: boolean;
     onRewrite?: () => void;
     isRewriting?: boolean;
+    onStop?: () => void; // Cancels this card's running writer, critic or rewrite requests
+    onReanalyze?: () => void; // Offered when an earlier analysis was stopped
+    transcript?: Transcript; // Source for checking the analysis's quotes
+    onShowEvidence?: (location: EvidenceLocation) => void; // Shows a cited turn or quote in the transcript viewer
+    onAutoRefine?: () => void;
+    isRefining?: boolean; // The critique and rewrite loop is running
+    onUseVersion?: (iteration: RefineIteration) => void; // Restores a draft from the refinement history
+    onRevertVersion?: (versionId: string) => void;
+    onRunPanel?: () => void; // Scores the analysis with the rubrics picked for the critic panel
+    isScoring?: boolean;
 }
 
+const VERDICT_STYLES: Record<ClaimVerdict, { label: string; badge: string; mark: string }> = {
+    supported: { label: 'Supported', badge: 'bg-solita-green/15 text-solita-green', mark: 'bg-solita-green/15' },
+    partially_supported: { label: 'Partly supported', badge: 'bg-solita-ochre/15 text-solita-ochre', mark: 'bg-solita-ochre/25' },
+    unsupported: { label: 'Unsupported', badge: 'bg-solita-red/10 text-solita-red', mark: 'bg-solita-red/15' },
+};
+
+// Find each judged claim in the analysis text; claims the critic reworded are left unmarked
+const locateClaims = (content: string, claims: ClaimCheck[]): Array<{ start: number; end: number; claim: ClaimCheck }> => {
+    const lower = content.toLowerCase();
+    const found = claims.flatMap(claim => {
+        const text = claim.claim.replace(/^["“]|["”]$/g, '');
+        const start = content.indexOf(text) >= 0 ? content.indexOf(text) : lower.indexOf(text.toLowerCase());
+        return start >= 0 ? [{ start, end: start + text.length, claim }] : [];
+    });
+    found.sort((a, b) => a.start - b.start);
+    return found.filter((entry, i) => i === 0 || entry.start >= found[i - 1].end);
+};
+
 // Displays a segment with its analysis, critic evaluation, and action buttons
 // Used for both main framework segments and gap analysis suggestions
 export const SegmentCard: React.FC<SegmentCardProps> = ({
@@ -35,7 +70,48 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
     showAddButton = false,
     onRewrite,
     isRewriting = false,
+    onStop,
+    onReanalyze,
+    transcript,
+    onShowEvidence,
+    onAutoRefine,
+    isRefining = false,
+    onUseVersion,
+    onRevertVersion,
+    onRunPanel,
+    isScoring = false,
 }) => {
+    const isRunning = isAnalyzing || isEvaluating || isRewriting || isRefining;
+
+    // Re-checked as the analysis is edited; matching is local and needs no model call
+    const quotes = useMemo(
+        () => analysis && transcript ? quoteVerifierService.verifyContent(analysis.content, transcript) : [],
+        [analysis?.content, transcript]
+    );
+    const unverified = quotes.filter(quote => !quote.verified).length;
+    const citedTurns = useMemo(
+        () => analysis && transcript
+            ? citationService.getTurnCitations(analysis.content).map(index => transcript.turns[index]).filter(Boolean)
+            : [],
+        [analysis?.content, transcript]
+    );
+
+    // Critic verdicts marked on the analysis text; editing switches back to the plain text area
+    const [showAnnotations, setShowAnnotations] = useState(false);
+    const claims = evaluation?.claims ?? [];
+    const annotations = useMemo(
+        () => analysis && claims.length > 0 ? locateClaims(analysis.content, claims) : [],
+        [analysis?.content, evaluation?.claims]
+    );
+
+    // Jump to the first turn a claim's evidence cites
+    const showClaimEvidence = (claim: ClaimCheck) => {
+        const turnIndex = claim.location ? citationService.getTurnCitations(claim.location)[0] : undefined;
+        if (onShowEvidence && turnIndex !== undefined && (!transcript || transcript.turns[turnIndex])) {
+            onShowEvidence({ turnIndex });
+        }
+    };
+
     return (
         <div className="bg-white border border-solita-light-grey rounded-lg p-6 shadow-sm">
             {/* Header */}
@@ -51,8 +127,33 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
                         {suggestion.rationale}
                     </p>
                 </div>
+                {isRunning && onStop && (
+                    <button
+                        onClick={onStop}
+                        className="ml-4 px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-red hover:text-solita-red text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                    >
+                        <Square className="w-3.5 h-3.5" /> Stop
+                    </button>
+                )}
             </div>
 
+            {/* Stopped analysis notice */}
+            {!isAnalyzing && analysis?.status === 'cancelled' && (
+                <div className="mb-4 p-3 bg-solita-ochre/10 border border-solita-ochre/30 rounded-lg flex items-center justify-between gap-4">
+                    <p className="text-sm text-solita-dark-grey">
+                        The writer was stopped before finishing. The partial output below is not used in consolidation.
+                    </p>
+                    {onReanalyze && (
+                        <button
+                            onClick={onReanalyze}
+                            className="px-3 py-1.5 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-colors flex items-center gap-1.5 text-sm flex-shrink-0"
+                        >
+                            <Play className="w-3.5 h-3.5" /> Run Again
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* Analysis Content */}
             {isAnalyzing ? (
                 <div className="mb-4">
@@ -64,15 +165,126 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
                 </div>
             ) : analysis ? (
                 <div className="mb-4">
-                    <StandardTextArea
-                        value={analysis.content}
-                        onChange={(e) => onAnalysisChange(e.target.value)}
-                        variant="filled"
-                        className="min-h-[400px]"
-                    />
+                    {annotations.length > 0 && (
+                        <div className="flex justify-end gap-1 mb-2 text-xs">
+                            {[false, true].map(annotated => (
+                                <button
+                                    key={String(annotated)}
+                                    onClick={() => setShowAnnotations(annotated)}
+                                    className={`px-2.5 py-1 rounded transition-colors ${showAnnotations === annotated ? 'bg-solita-ochre text-white' : 'bg-solita-light-grey/60 text-solita-dark-grey hover:bg-solita-ochre/10'}`}
+                                >
+                                    {annotated ? 'Critic Annotations' : 'Edit'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {showAnnotations && annotations.length > 0 ? (
+                        <div className="min-h-[400px] p-4 bg-solita-light-grey/30 rounded-lg text-sm text-solita-black whitespace-pre-wrap leading-relaxed">
+                            {annotations.map((entry, idx) => (
+                                <React.Fragment key={idx}>
+                                    {analysis.content.slice(idx === 0 ? 0 : annotations[idx - 1].end, entry.start)}
+                                    <span
+                                        onClick={() => showClaimEvidence(entry.claim)}
+                                        className={`rounded px-0.5 cursor-pointer ${VERDICT_STYLES[entry.claim.verdict].mark}`}
+                                        title={[VERDICT_STYLES[entry.claim.verdict].label, entry.claim.explanation, entry.claim.location].filter(Boolean).join(' · ')}
+                                    >
+                                        {analysis.content.slice(entry.start, entry.end)}
+                                    </span>
+                                </React.Fragment>
+                            ))}
+                            {analysis.content.slice(annotations[annotations.length - 1].end)}
+                        </div>
+                    ) : (
+                        <StandardTextArea
+                            value={analysis.content}
+                            onChange={(e) => onAnalysisChange(e.target.value)}
+                            variant="filled"
+                            className="min-h-[400px]"
+                        />
+                    )}
                 </div>
             ) : null}
 
+            {/* Evidence: cited turns and quote check */}
+            {!isAnalyzing && (quotes.length > 0 || citedTurns.length > 0) && (
+                <div className="mb-4 p-4 border border-solita-light-grey rounded-lg">
+                    <h4 className="text-sm font-medium text-solita-black mb-2 flex items-center gap-2">
+                        <QuoteIcon className="w-4 h-4 text-solita-ochre" />
+                        Evidence
+                        {quotes.length > 0 && (
+                            <span className={`text-xs font-normal ${unverified > 0 ? 'text-solita-red' : 'text-solita-mid-grey'}`}>
+                                {quotes.length - unverified} of {quotes.length} quotes found in the transcript
+                            </span>
+                        )}
+                    </h4>
+                    {citedTurns.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5 mb-3">
+                            <span className="text-xs text-solita-mid-grey mr-1">Cited turns:</span>
+                            {citedTurns.map(turn => (
+                                <button
+                                    key={turn.index}
+                                    onClick={() => onShowEvidence?.({ turnIndex: turn.index })}
+                                    disabled={!onShowEvidence}
+                                    className="px-2 py-0.5 bg-solita-light-grey/60 hover:bg-solita-ochre/20 disabled:hover:bg-solita-light-grey/60 text-xs font-mono text-solita-dark-grey rounded transition-colors"
+                                    title={turn.speaker || undefined}
+                                >
+                                    {transcriptParserService.getTurnLabel(turn)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    <ul className="space-y-2 text-sm">
+                        {quotes.map((quote, idx) => (
+                            <li
+                                key={idx}
+                                onClick={() => quote.match && onShowEvidence?.({
+                                    turnIndex: quote.match.turnIndex,
+                                    startOffset: quote.match.startOffset,
+                                    endOffset: quote.match.endOffset,
+                                })}
+                                className={`flex items-start gap-2 rounded ${quote.match && onShowEvidence ? 'cursor-pointer hover:bg-solita-light-grey/40' : ''}`}
+                            >
+                                {quote.verified ? (
+                                    <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-solita-green" />
+                                ) : (
+                                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-solita-red" />
+                                )}
+                                <div className="min-w-0">
+                                    <p className={quote.verified ? 'text-solita-dark-grey' : 'text-solita-red'}>“{quote.text}”</p>
+                                    {quote.verified && quote.context && (
+                                        <p className="text-xs text-solita-mid-grey">{quote.context}</p>
+                                    )}
+                                    {!quote.verified && (
+                                        <p className="text-xs text-solita-mid-grey">
+                                            {quote.match && transcript
+                                                ? <>Not verbatim. Closest passage ({Math.round(quote.match.similarity * 100)}% match, {quote.context}): “{transcript.content.slice(quote.match.startOffset, quote.match.endOffset)}”</>
+                                                : 'Not found in the transcript'}
+                                        </p>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Versions */}
+            {!isAnalyzing && analysis?.versions && (
+                <VersionHistory
+                    versions={analysis.versions}
+                    onRevert={isRunning ? undefined : onRevertVersion}
+                />
+            )}
+
+            {/* Auto-refine drafts */}
+            {analysis?.refineHistory && (
+                <RefineHistory
+                    iterations={analysis.refineHistory}
+                    currentContent={analysis.content}
+                    onUseVersion={isRefining ? undefined : onUseVersion}
+                />
+            )}
+
             {/* Critic Evaluation */}
             {evaluation && (
                 <div className="mt-4 p-4 bg-solita-light-grey/30 border border-solita-light-grey rounded-lg">
@@ -104,7 +316,29 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
                                 </>
                             )}
                         </div>
-                        {!evaluation.sourceAlignment && evaluation.sourceAlignmentIssues && (
+                        {claims.length > 0 ? (
+                            <ul className="ml-7 mt-2 space-y-2 text-sm">
+                                {claims.map((claim, idx) => (
+                                    <li key={idx} className="text-solita-dark-grey">
+                                        <span className={`inline-block mr-2 px-1.5 py-0.5 rounded text-xs font-medium ${VERDICT_STYLES[claim.verdict].badge}`}>
+                                            {VERDICT_STYLES[claim.verdict].label}
+                                        </span>
+                                        {claim.claim}
+                                        {claim.evidence && (
+                                            <p
+                                                onClick={() => showClaimEvidence(claim)}
+                                                className={`mt-0.5 text-xs text-solita-mid-grey italic ${onShowEvidence && claim.location ? 'cursor-pointer hover:text-solita-dark-grey' : ''}`}
+                                            >
+                                                “{claim.evidence}”{claim.location && <span className="not-italic font-mono"> [{claim.location}]</span>}
+                                            </p>
+                                        )}
+                                        {claim.explanation && claim.verdict !== 'supported' && (
+                                            <p className="mt-0.5 text-xs text-solita-mid-grey">{claim.explanation}</p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : !evaluation.sourceAlignment && evaluation.sourceAlignmentIssues && (
                             <div className="ml-7 mt-2 text-sm text-solita-dark-grey">
                                 <p className="font-medium mb-1">Unsupported statements:</p>
                                 <ul className="list-disc list-inside space-y-1">
@@ -155,6 +389,11 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
                 </div>
             )}
 
+            {/* Critic Panel */}
+            {analysis?.scorecard && (
+                <ScorecardPanel scorecard={analysis.scorecard} currentContent={analysis.content} />
+            )}
+
             {/* Action Buttons */}
             {analysis && (
                 <div className="flex gap-3 mt-4">
@@ -173,6 +412,40 @@ export const SegmentCard: React.FC<SegmentCardProps> = ({
                             </>
                         )}
                     </button>
+                    {onAutoRefine && (
+                        <button
+                            onClick={onAutoRefine}
+                            disabled={isRunning}
+                            className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre disabled:opacity-60 text-solita-dark-grey rounded-lg transition-smooth flex items-center gap-2"
+                        >
+                            {isRefining ? (
+                                <>
+                                    <ElegantLoader size="sm" /> Refining...
+                                </>
+                            ) : (
+                                <>
+                                    <Repeat className="w-4 h-4" /> Auto-Refine
+                                </>
+                            )}
+                        </button>
+                    )}
+                    {onRunPanel && (
+                        <button
+                            onClick={onRunPanel}
+                            disabled={isScoring || isAnalyzing}
+                            className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre disabled:opacity-60 text-solita-dark-grey rounded-lg transition-smooth flex items-center gap-2"
+                        >
+                            {isScoring ? (
+                                <>
+                                    <ElegantLoader size="sm" /> Scoring...
+                                </>
+                            ) : (
+                                <>
+                                    <ClipboardCheck className="w-4 h-4" /> Critic Panel
+                                </>
+                            )}
+                        </button>
+                    )}
                     {showAddButton && onAddToMain && (
                         <button
                             onClick={onAddToMain}
@@ -0,0 +1,117 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock, Copy, Play, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAnalysisContext } from '../contexts/AnalysisContext';
+import { PHASE_ROUTES } from '../hooks/usePhaseNavigation';
+import { sessionStoreService } from '../services/session-store.service';
+import { usageService } from '../services/usage.service';
+import { SessionSummary } from '../types/session';
+import { PHASE_INFO } from './PhaseIndicator';
+
+// Saved analyses that can be resumed, duplicated or deleted
+export function SessionList() {
+    const navigate = useNavigate();
+    const { resumeSession, deleteSession } = useAnalysisContext();
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+    const refresh = () => {
+        sessionStoreService.list()
+            .then(setSessions)
+            .catch(error => console.error('Failed to list sessions:', error));
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleResume = async (id: string) => {
+        try {
+            const restored = await resumeSession(id);
+            if (!restored) {
+                toast.error('Session could not be found');
+                refresh();
+                return;
+            }
+            navigate(PHASE_ROUTES[restored.currentPhase]);
+        } catch (error) {
+            console.error('Failed to resume session:', error);
+            toast.error('Failed to resume session');
+        }
+    };
+
+    const handleDuplicate = async (id: string) => {
+        try {
+            await sessionStoreService.duplicate(id);
+            toast.success('Session duplicated');
+            refresh();
+        } catch (error) {
+            console.error('Failed to duplicate session:', error);
+            toast.error('Failed to duplicate session');
+        }
+    };
+
+    const handleDelete = async (session: SessionSummary) => {
+        if (!confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+
+        try {
+            await deleteSession(session.id);
+            toast.success('Session deleted');
+            refresh();
+        } catch (error) {
+            console.error('Failed to delete session:', error);
+            toast.error('Failed to delete session');
+        }
+    };
+
+    if (sessions.length === 0) return null;
+
+    return (
+        <div className="bg-white border border-solita-light-grey rounded-lg p-6 shadow-sm text-left">
+            <h2 className="text-lg font-semibold text-solita-black mb-4 flex items-center gap-2">
+                <Clock className="w-5 h-5 text-solita-ochre" />
+                Recent Analyses
+            </h2>
+            <ul className="divide-y divide-solita-light-grey">
+                {sessions.map(session => (
+                    <li key={session.id} className="py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <p className="font-medium text-solita-black truncate">{session.title}</p>
+                            <p className="text-xs text-solita-mid-grey">
+                                {PHASE_INFO.find(p => p.phase === session.currentPhase)?.label ?? session.currentPhase}
+                                {' · '}
+                                {session.transcriptCount} {session.transcriptCount === 1 ? 'transcript' : 'transcripts'}
+                                {session.usage && session.usage.tokens > 0 && ` · ${session.usage.tokens.toLocaleString()} tokens (${usageService.formatCost(session.usage.cost)})`}
+                                {' · '}
+                                Updated {session.updatedAt.toLocaleString()}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                            <button
+                                onClick={() => handleResume(session.id)}
+                                className="px-3 py-1.5 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-colors flex items-center gap-1 text-sm"
+                            >
+                                <Play className="w-4 h-4" />
+                                Resume
+                            </button>
+                            <button
+                                onClick={() => handleDuplicate(session.id)}
+                                className="p-2 text-solita-mid-grey hover:text-solita-dark-grey transition-colors"
+                                title="Duplicate"
+                            >
+                                <Copy className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(session)}
+                                className="p-2 text-solita-mid-grey hover:text-solita-red transition-colors"
+                                title="Delete"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
 import { X, Save, RotateCcw, Download, Upload } from 'lucide-react';
-import { settingsService, AgentType } from '../services/settings.service';
+import { settingsService, AgentType, PlanningMode } from '../services/settings.service';
 import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
+import { DEFAULT_RUBRICS } from '../constants/default-rubrics';
 import toast from 'react-hot-toast';
 import { DEFAULT_LLM_PROVIDER, LLM_PROVIDER_CONFIGS } from '../constants/llm-providers';
+import { EndpointSettingsSection } from './EndpointSettingsSection';
+import { MockFixturesSection } from './MockFixturesSection';
+import { RetryPolicySection } from './RetryPolicySection';
+import { ConcurrencySection } from './ConcurrencySection';
+import { RubricsSection } from './RubricsSection';
 
 interface SettingsModalProps {
     isOpen: boolean;
@@ -15,13 +21,20 @@ const AGENT_INFO: { key: AgentType; label: string; description: string }[] = [
     { key: 'writer', label: 'Writer Agent', description: 'Analyzes transcript segments and generates insights' },
     { key: 'critic', label: 'Critic Agent', description: 'Evaluates analysis quality and provides feedback' },
     { key: 'gapAnalysis', label: 'Gap Analysis Agent', description: 'Identifies unexplored themes and perspectives' },
+    { key: 'synthesis', label: 'Synthesis Agent', description: 'Compares analyses across interviews for shared and divergent themes' },
+    { key: 'coding', label: 'Coding Agent', description: 'Proposes a codebook and applies its codes to speaker turns' },
+];
+
+const PLANNING_MODES: { mode: PlanningMode; label: string; description: string }[] = [
+    { mode: 'quick', label: 'Quick', description: 'Plan from the opening of the transcript. One request per step.' },
+    { mode: 'full', label: 'Full Transcript', description: 'Summarise the whole transcript first, in chunks if needed, and plan from the summary.' },
 ];
 
 export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     const [settings, setSettings] = useState(() => settingsService.load());
     const provider = settings.provider ?? DEFAULT_LLM_PROVIDER;
     const providerConfig = LLM_PROVIDER_CONFIGS[provider];
-    const availableModels = providerConfig.models;
+    const availableModels = settingsService.getAvailableModels(provider, settings);
 
     useEffect(() => {
         if (isOpen) {
@@ -99,6 +112,59 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-6">
                     <div className="space-y-8">
+                        {/* Endpoint Configuration */}
+                        {provider === 'litellm' && (
+                            <EndpointSettingsSection
+                                provider="litellm"
+                                endpoint={settings.endpoint}
+                                onChange={(endpoint) => setSettings({ ...settings, endpoint })}
+                            />
+                        )}
+                        {provider === 'ollama' && (
+                            <EndpointSettingsSection
+                                provider="ollama"
+                                endpoint={settings.ollama}
+                                onChange={(ollama) => setSettings({ ...settings, ollama })}
+                            />
+                        )}
+
+                        {/* Retry Policy */}
+                        {provider !== 'mock' && (
+                            <RetryPolicySection
+                                provider={provider}
+                                policy={settingsService.getRetryPolicy(provider, settings)}
+                                onChange={(policy) => setSettings({
+                                    ...settings,
+                                    retryPolicies: { ...settings.retryPolicies, [provider]: policy }
+                                })}
+                                onReset={() => {
+                                    const { [provider]: _removed, ...retryPolicies } = settings.retryPolicies;
+                                    setSettings({ ...settings, retryPolicies });
+                                }}
+                            />
+                        )}
+
+                        {/* Parallel Requests */}
+                        <ConcurrencySection
+                            provider={provider}
+                            concurrency={settingsService.getConcurrency(provider, settings)}
+                            models={settingsService.getAvailableModels(provider, settings)}
+                            onChange={(concurrency) => setSettings({
+                                ...settings,
+                                concurrency: { ...settings.concurrency, [provider]: concurrency }
+                            })}
+                            onReset={() => {
+                                const { [provider]: _removed, ...concurrency } = settings.concurrency;
+                                setSettings({ ...settings, concurrency });
+                            }}
+                        />
+
+                        {/* Record / Replay */}
+                        <MockFixturesSection
+                            mock={settings.mock}
+                            onChange={(mock) => setSettings({ ...settings, mock })}
+                        />
+
                         {/* Agent Configuration Sections */}
                         {AGENT_INFO.map((agentInfo) => (
                             <div key={agentInfo.key} className="border border-solita-light-grey rounded-lg p-5">
@@ -143,6 +209,38 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                     </select>
                                 </div>
 
+                                {/* Planning Mode */}
+                                {agentInfo.key === 'planner' && (
+                                    <div className="mb-4">
+                                        <label className="block text-sm font-medium text-solita-black mb-2">
+                                            Planning Mode
+                                        </label>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            {PLANNING_MODES.map(option => (
+                                                <label
+                                                    key={option.mode}
+                                                    className={`p-3 border rounded-lg cursor-pointer transition-colors ${settings.planningMode === option.mode
+                                                        ? 'border-solita-ochre bg-solita-ochre/5'
+                                                        : 'border-solita-light-grey hover:bg-solita-light-grey/30'
+                                                        }`}
+                                                >
+                                                    <div className="flex items-center gap-2">
+                                                        <input
+                                                            type="radio"
+                                                            name="planningMode"
+                                                            checked={settings.planningMode === option.mode}
+                                                            onChange={() => setSettings({ ...settings, planningMode: option.mode })}
+                                                            className="accent-solita-ochre"
+                                                        />
+                                                        <span className="text-sm font-medium text-solita-black">{option.label}</span>
+                                                    </div>
+                                                    <p className="text-xs text-solita-dark-grey mt-1 ml-5">{option.description}</p>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Prompts */}
                                 <div className="space-y-4">
                                     <h4 className="text-sm font-medium text-solita-black">Custom Instructions</h4>
@@ -175,6 +273,14 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                             </div>
                         ))}
 
+                        {/* Critic Panel */}
+                        <RubricsSection
+                            rubrics={settings.rubrics}
+                            models={availableModels}
+                            onChange={(rubrics) => setSettings({ ...settings, rubrics })}
+                            onReset={() => setSettings({ ...settings, rubrics: DEFAULT_RUBRICS })}
+                        />
+
                         {/* Import/Export Section */}
                         <div className="border-t border-solita-light-grey pt-6">
                             <h3 className="text-lg font-semibold text-solita-black mb-4">Import / Export Settings</h3>
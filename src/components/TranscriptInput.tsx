@@ -2,9 +2,10 @@ import { useState } from 'react';
 import { FileUploadZone } from './FileUploadZone';
 import { Type } from 'lucide-react';
 import { StandardTextArea } from './ui/StandardTextArea';
+import { Transcript } from '../types';
 
 interface TranscriptInputProps {
-    onFileSelect: (file: File | null, content: string) => void;
+    onFileSelect: (file: File | null, content: string, transcript?: Transcript) => void;
     selectedFile: File | null;
     onRemoveFile: () => void;
 }
@@ -14,8 +15,8 @@ export function TranscriptInput({ onFileSelect, selectedFile, onRemoveFile }: Tr
     const [inputMode, setInputMode] = useState<'file' | 'text'>('file');
     const [textInput, setTextInput] = useState('');
 
-    const handleFileSelect = (file: File, content: string) => {
-        onFileSelect(file, content);
+    const handleFileSelect = (file: File, content: string, transcript?: Transcript) => {
+        onFileSelect(file, content, transcript);
     };
 
     const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { ScrollText, PanelRightClose, PanelRightOpen } from 'lucide-react';
+import { EvidenceLocation, Transcript, Turn } from '../types';
+import { transcriptParserService } from '../services/transcript-parser.service';
+
+interface TranscriptViewerProps {
+    transcript: Transcript;
+    coverage: Map<number, string[]>; // Turn index to the titles of the segments citing it
+    focus?: EvidenceLocation; // A new object scrolls to and highlights the location, even if it repeats
+}
+
+// Heat map shades by the number of segments citing a turn; uncited turns stay grey
+const heatColor = (count: number): string => {
+    if (count === 0) return 'bg-solita-light-grey';
+    if (count === 1) return 'bg-solita-ochre/40';
+    if (count === 2) return 'bg-solita-ochre/70';
+    return 'bg-solita-ochre';
+};
+
+// Split a turn's text around the focused passage, clipped to the turn
+const splitHighlight = (turn: Turn, focus: EvidenceLocation): [string, string, string] | null => {
+    if (focus.startOffset === undefined || focus.endOffset === undefined) return null;
+    const start = Math.max(focus.startOffset, turn.startOffset) - turn.startOffset;
+    const end = Math.min(focus.endOffset, turn.endOffset) - turn.startOffset;
+    if (end <= start) return null;
+    return [turn.text.slice(0, start), turn.text.slice(start, end), turn.text.slice(end)];
+};
+
+// Side panel with the source transcript, a coverage heat map of segment citations and the evidence last clicked in an analysis
+export function TranscriptViewer({ transcript, coverage, focus }: TranscriptViewerProps) {
+    const [isOpen, setIsOpen] = useState(true);
+    const listRef = useRef<HTMLDivElement>(null);
+    const turnRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+    const scrollToTurn = (index: number) => {
+        const list = listRef.current;
+        const element = turnRefs.current.get(index);
+        if (list && element) {
+            list.scrollTo({ top: element.offsetTop - list.clientHeight / 3, behavior: 'smooth' });
+        }
+    };
+
+    useEffect(() => {
+        if (focus) setIsOpen(true);
+    }, [focus]);
+
+    // Wait for the panel to render when the focus has just opened it
+    useEffect(() => {
+        if (focus && isOpen) scrollToTurn(focus.turnIndex);
+    }, [focus, isOpen]);
+
+    if (!isOpen) {
+        return (
+            <button
+                onClick={() => setIsOpen(true)}
+                className="sticky top-4 self-start p-3 bg-white border border-solita-light-grey hover:border-solita-ochre rounded-lg shadow-sm text-solita-dark-grey transition-colors"
+                title="Show transcript"
+            >
+                <PanelRightOpen className="w-5 h-5" />
+            </button>
+        );
+    }
+
+    const covered = transcript.turns.filter(turn => coverage.has(turn.index)).length;
+
+    return (
+        <div className="sticky top-4 self-start w-96 flex-shrink-0 bg-white border border-solita-light-grey rounded-lg shadow-sm flex flex-col max-h-[calc(100vh-2rem)]">
+            {/* Header */}
+            <div className="p-4 border-b border-solita-light-grey">
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-medium text-solita-black flex items-center gap-2">
+                        <ScrollText className="w-4 h-4 text-solita-ochre" />
+                        Transcript
+                    </h3>
+                    <button
+                        onClick={() => setIsOpen(false)}
+                        className="p-1 hover:bg-solita-light-grey rounded transition-colors text-solita-dark-grey"
+                        title="Hide transcript"
+                    >
+                        <PanelRightClose className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Coverage overview, each turn as wide as its text */}
+                <div className="flex h-3 rounded overflow-hidden gap-px bg-white">
+                    {transcript.turns.map(turn => (
+                        <div
+                            key={turn.index}
+                            onClick={() => scrollToTurn(turn.index)}
+                            className={`cursor-pointer ${heatColor(coverage.get(turn.index)?.length ?? 0)}`}
+                            style={{ flexGrow: Math.max(1, turn.text.length), flexBasis: 0 }}
+                            title={transcriptParserService.getTurnLabel(turn)}
+                        />
+                    ))}
+                </div>
+                <p className="text-xs text-solita-mid-grey mt-2">
+                    {covered} of {transcript.turns.length} turns cited by a segment. Grey stretches are not covered by any analysis.
+                </p>
+            </div>
+
+            {/* Turns */}
+            <div ref={listRef} className="relative flex-1 overflow-y-auto p-2">
+                {transcript.turns.map(turn => {
+                    const citedBy = coverage.get(turn.index) ?? [];
+                    const isFocused = focus?.turnIndex === turn.index;
+                    const highlight = focus && isFocused ? splitHighlight(turn, focus) : null;
+                    const address = [
+                        transcriptParserService.getTurnLabel(turn),
+                        turn.startTime !== undefined ? transcriptParserService.formatTimestamp(turn.startTime) : '',
+                        turn.speaker,
+                    ].filter(Boolean).join(' · ');
+
+                    return (
+                        <div
+                            key={turn.index}
+                            ref={element => {
+                                if (element) {
+                                    turnRefs.current.set(turn.index, element);
+                                } else {
+                                    turnRefs.current.delete(turn.index);
+                                }
+                            }}
+                            className={`flex gap-2 p-2 rounded-lg transition-colors ${isFocused ? 'bg-solita-ochre/10 ring-1 ring-solita-ochre' : ''}`}
+                        >
+                            <div
+                                className={`w-1.5 flex-shrink-0 rounded-full ${heatColor(citedBy.length)}`}
+                                title={citedBy.length > 0 ? `Cited by: ${citedBy.join(', ')}` : 'Not cited by any segment'}
+                            />
+                            <div className="min-w-0">
+                                <p className="text-xs text-solita-mid-grey mb-0.5">
+                                    {address}
+                                    {citedBy.length > 0 && <span className="ml-1">({citedBy.length})</span>}
+                                </p>
+                                <p className="text-sm text-solita-dark-grey whitespace-pre-wrap break-words">
+                                    {highlight ? (
+                                        <>
+                                            {highlight[0]}
+                                            <mark className="bg-solita-ochre/30 text-solita-black rounded px-0.5">{highlight[1]}</mark>
+                                            {highlight[2]}
+                                        </>
+                                    ) : turn.text}
+                                </p>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { X, Download, Coins } from 'lucide-react';
+import { useAnalysisContext } from '../contexts/AnalysisContext';
+import { usageService } from '../services/usage.service';
+import { sessionStoreService } from '../services/session-store.service';
+import { UsageTotals } from '../types/usage';
+import { SessionSummary } from '../types/session';
+import { PHASE_INFO } from './PhaseIndicator';
+
+interface UsageDashboardProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+interface UsageTableProps {
+    title: string;
+    rows: Array<{ key: string; label: string; totals: UsageTotals }>;
+}
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+// Cost cell that flags totals missing responses from unpriced models
+const CostCell = ({ totals }: { totals: UsageTotals }) => (
+    <td className="py-2 text-right font-mono">
+        {usageService.formatCost(totals.cost)}
+        {totals.unpriced > 0 && (
+            <span className="text-solita-mid-grey" title={`${totals.unpriced} responses from models without a known price`}> +?</span>
+        )}
+    </td>
+);
+
+function UsageTable({ title, rows }: UsageTableProps) {
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="border border-solita-light-grey rounded-lg p-5">
+            <h3 className="text-lg font-semibold text-solita-black mb-3">{title}</h3>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-xs text-solita-mid-grey uppercase text-left">
+                        <th className="pb-2 font-medium"></th>
+                        <th className="pb-2 font-medium text-right">Requests</th>
+                        <th className="pb-2 font-medium text-right">Prompt</th>
+                        <th className="pb-2 font-medium text-right">Completion</th>
+                        <th className="pb-2 font-medium text-right">Est. Cost</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-solita-light-grey">
+                    {rows.map(row => (
+                        <tr key={row.key} className="text-solita-black">
+                            <td className="py-2 pr-4 truncate max-w-xs">{row.label}</td>
+                            <td className="py-2 text-right">{row.totals.requests}</td>
+                            <td className="py-2 text-right font-mono">{formatTokens(row.totals.prompt)}</td>
+                            <td className="py-2 text-right font-mono">{formatTokens(row.totals.completion)}</td>
+                            <CostCell totals={row.totals} />
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
+// Tokens and estimated spend of the open session by phase, agent, segment and model, plus totals of every saved session
+export function UsageDashboard({ isOpen, onClose }: UsageDashboardProps) {
+    const { state, sessionId } = useAnalysisContext();
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        sessionStoreService.list()
+            .then(setSessions)
+            .catch(error => console.error('Failed to load sessions:', error));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const records = state.usage;
+    const totals = usageService.getTotals(records);
+
+    // Framework segments and gap suggestions share the segment id space
+    const segmentTitles = new Map<string, string>([
+        ...(state.gapAnalysis?.suggestions ?? []).map(gap => [gap.id, `Gap: ${gap.title}`] as [string, string]),
+        ...(state.framework?.segments ?? []).map(segment => [segment.id, segment.title] as [string, string]),
+    ]);
+    const segmentLabel = (id: string) => segmentTitles.get(id) ?? id;
+    const phaseLabel = (phase: string) => PHASE_INFO.find(p => p.phase === phase)?.label ?? phase;
+
+    const byPhase = usageService.groupBy(records, record => record.phase)
+        .map(group => ({ ...group, label: phaseLabel(group.key) }));
+    const byAgent = usageService.groupBy(records, record => record.agentName)
+        .map(group => ({ ...group, label: group.key }));
+    const bySegment = usageService.groupBy(records.filter(record => record.segmentId), record => record.segmentId!)
+        .map(group => ({ ...group, label: segmentLabel(group.key) }));
+    const byModel = usageService.groupBy(records, record => `${record.provider ?? 'unknown'}/${record.model ?? 'default'}`)
+        .map(group => ({ ...group, label: group.key }));
+
+    const handleExportCsv = () => {
+        const blob = new Blob([usageService.toCsv(records, segmentLabel)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `usage-${sessionId}.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-solita-light-grey">
+                    <h2 className="text-2xl font-semibold text-solita-black flex items-center gap-3">
+                        <Coins className="w-6 h-6 text-solita-ochre" />
+                        Usage & Cost
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-solita-light-grey rounded-lg transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                    {/* Session Totals */}
+                    <div className="grid grid-cols-4 gap-4">
+                        {[
+                            { label: 'Requests', value: totals.requests.toLocaleString() },
+                            { label: 'Prompt Tokens', value: formatTokens(totals.prompt) },
+                            { label: 'Completion Tokens', value: formatTokens(totals.completion) },
+                            { label: 'Estimated Cost', value: usageService.formatCost(totals.cost) },
+                        ].map(card => (
+                            <div key={card.label} className="bg-solita-light-grey/40 rounded-lg p-4">
+                                <p className="text-xs text-solita-mid-grey uppercase">{card.label}</p>
+                                <p className="text-2xl font-semibold text-solita-black mt-1">{card.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-solita-mid-grey">
+                        Estimates use list prices per million tokens from the provider configuration. Requests that reported no token counts are not included.
+                        {totals.unpriced > 0 && ` ${totals.unpriced} responses came from models without a known price and are left out of the cost.`}
+                    </p>
+
+                    {records.length === 0 ? (
+                        <p className="text-center text-solita-mid-grey py-8">No token usage has been recorded in this session yet.</p>
+                    ) : (
+                        <>
+                            <UsageTable title="By Phase" rows={byPhase} />
+                            <UsageTable title="By Agent" rows={byAgent} />
+                            <UsageTable title="By Segment" rows={bySegment} />
+                            <UsageTable title="By Model" rows={byModel} />
+                        </>
+                    )}
+
+                    {/* All Sessions */}
+                    {sessions.length > 0 && (
+                        <div className="border border-solita-light-grey rounded-lg p-5">
+                            <h3 className="text-lg font-semibold text-solita-black mb-3">All Sessions</h3>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-solita-mid-grey uppercase text-left">
+                                        <th className="pb-2 font-medium"></th>
+                                        <th className="pb-2 font-medium text-right">Tokens</th>
+                                        <th className="pb-2 font-medium text-right">Est. Cost</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-solita-light-grey">
+                                    {sessions.map(session => (
+                                        <tr key={session.id} className={session.id === sessionId ? 'font-medium text-solita-black' : 'text-solita-dark-grey'}>
+                                            <td className="py-2 pr-4 truncate max-w-md">{session.title}</td>
+                                            <td className="py-2 text-right font-mono">{session.usage ? formatTokens(session.usage.tokens) : '—'}</td>
+                                            <td className="py-2 text-right font-mono">{session.usage ? usageService.formatCost(session.usage.cost) : '—'}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex justify-end gap-3 p-6 border-t border-solita-light-grey">
+                    <button
+                        onClick={handleExportCsv}
+                        disabled={records.length === 0}
+                        className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2 disabled:opacity-60"
+                    >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
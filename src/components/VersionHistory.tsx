@@ -0,0 +1,130 @@
+import { useMemo, useState } from 'react';
+import { GitCompare, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { SegmentVersion } from '../types/phases';
+import { segmentVersionService } from '../services/segment-version.service';
+
+interface VersionHistoryProps {
+    versions: SegmentVersion[]; // Oldest first; the last one is the current text
+    onRevert?: (versionId: string) => void;
+}
+
+const formatTime = (date: Date): string => new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Versions of a segment with a side-by-side word diff between any two of them and one-click revert
+export function VersionHistory({ versions, onRevert }: VersionHistoryProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [fromIndex, setFromIndex] = useState<number | null>(null);
+    const [toIndex, setToIndex] = useState<number | null>(null);
+
+    // Default to what the latest change did
+    const latest = versions.length - 1;
+    const from = Math.min(fromIndex ?? latest - 1, latest);
+    const to = Math.min(toIndex ?? latest, latest);
+
+    const diff = useMemo(
+        () => versions.length > 1 ? segmentVersionService.diffWords(versions[from].content, versions[to].content) : [],
+        [versions, from, to]
+    );
+
+    if (versions.length < 2) return null;
+
+    const added = diff.filter(part => part.type === 'added').reduce((sum, part) => sum + part.text.split(/\s+/).filter(Boolean).length, 0);
+    const removed = diff.filter(part => part.type === 'removed').reduce((sum, part) => sum + part.text.split(/\s+/).filter(Boolean).length, 0);
+
+    const versionSelect = (value: number, onChange: (index: number) => void) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="px-2 py-1 border border-solita-light-grey rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+        >
+            {versions.map((version, index) => (
+                <option key={version.id} value={index}>
+                    v{index + 1} · {segmentVersionService.describe(version)}
+                </option>
+            ))}
+        </select>
+    );
+
+    return (
+        <div className="mb-4 border border-solita-light-grey rounded-lg">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full p-4 flex items-center gap-2 text-sm font-medium text-solita-black"
+            >
+                {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                <GitCompare className="w-4 h-4 text-solita-ochre" />
+                Version History
+                <span className="text-xs font-normal text-solita-mid-grey">{versions.length} versions</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-4">
+                    {/* Versions, newest first */}
+                    <ul className="divide-y divide-solita-light-grey text-sm">
+                        {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+                            <li key={version.id} className="py-2 flex items-center gap-3">
+                                <span className="font-mono text-xs text-solita-mid-grey w-8">v{index + 1}</span>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-solita-black">
+                                        {segmentVersionService.describe(version)}
+                                        {version.note && <span className="text-solita-mid-grey"> · {version.note}</span>}
+                                    </p>
+                                    <p className="text-xs text-solita-mid-grey">{formatTime(version.createdAt)}</p>
+                                </div>
+                                <button
+                                    onClick={() => {
+                                        setFromIndex(index);
+                                        setToIndex(latest);
+                                    }}
+                                    disabled={index === latest}
+                                    className="px-2 py-1 text-xs text-solita-dark-grey hover:text-solita-ochre disabled:opacity-40 transition-colors"
+                                >
+                                    Compare with current
+                                </button>
+                                {onRevert && (
+                                    <button
+                                        onClick={() => onRevert(version.id)}
+                                        disabled={index === latest || version.content === versions[latest].content}
+                                        className="px-2 py-1 border border-solita-light-grey hover:border-solita-ochre disabled:opacity-40 rounded text-xs text-solita-dark-grey flex items-center gap-1 transition-colors"
+                                    >
+                                        <RotateCcw className="w-3 h-3" /> Revert
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {/* Side-by-side diff */}
+                    <div>
+                        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-solita-dark-grey">
+                            {versionSelect(from, setFromIndex)}
+                            <span>→</span>
+                            {versionSelect(to, setToIndex)}
+                            <span className="ml-auto">
+                                <span className="text-solita-green">+{added}</span> / <span className="text-solita-red">−{removed}</span> words
+                            </span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="p-3 bg-solita-light-grey/30 rounded-lg text-sm text-solita-black whitespace-pre-wrap max-h-96 overflow-y-auto">
+                                {diff.filter(part => part.type !== 'added').map((part, idx) => (
+                                    <span key={idx} className={part.type === 'removed' ? 'bg-solita-red/15 line-through decoration-solita-red' : ''}>{part.text}</span>
+                                ))}
+                            </div>
+                            <div className="p-3 bg-solita-light-grey/30 rounded-lg text-sm text-solita-black whitespace-pre-wrap max-h-96 overflow-y-auto">
+                                {diff.filter(part => part.type !== 'removed').map((part, idx) => (
+                                    <span key={idx} className={part.type === 'added' ? 'bg-solita-green/20' : ''}>{part.text}</span>
+                                ))}
+                            </div>
+                        </div>
+                        {versions[to].critique && (
+                            <details className="mt-2 text-sm text-solita-dark-grey">
+                                <summary className="cursor-pointer text-xs text-solita-mid-grey">Critique that prompted v{to + 1}</summary>
+                                <p className="mt-1 whitespace-pre-wrap">{versions[to].critique}</p>
+                            </details>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -37,6 +37,26 @@ Output ONLY valid JSON in this exact format:
 }
 
 CRITICAL: Output must be valid JSON only, no additional text.`,
+
+    summarizeTranscript: `You are a Planner Agent preparing to plan the analysis of a transcript.
+
+Your task is to summarise the transcript, or the part of it you are given, so that the analysis can be planned without reading the full text.
+
+CRITICAL RULES:
+1. Cover every topic discussed, in the order it comes up, not only the opening
+2. Note who raises each topic and any strong opinions, disagreements or concrete examples
+3. Use ONLY the provided transcript
+4. Write 200-400 words of plain prose`,
+
+    mergeSummaries: `You are a Planner Agent combining summaries of consecutive parts of one transcript.
+
+Your task is to merge them into a single summary of the whole transcript.
+
+CRITICAL RULES:
+1. Keep every distinct topic, in the order it comes up
+2. Merge topics that continue across parts instead of repeating them
+3. Use ONLY the provided summaries
+4. Write 300-500 words of plain prose`,
   },
 
   writer: {
@@ -64,6 +84,17 @@ CRITICAL RULES:
 5. Keep the same approximate length (200-400 words)
 
 Produce a revised analysis that resolves the critic's concerns while maintaining analytical quality.`,
+
+    extractEvidence: `You are a Writer Agent gathering evidence from one part of a long transcript.
+
+Your task is to collect everything in this part that is relevant to the segment objective, so that a final analysis can be written from the evidence of all parts.
+
+CRITICAL RULES:
+1. Use ONLY the provided part of the transcript
+2. List each piece of evidence as a bullet with a short quote or close paraphrase
+3. Cite the supporting turn label for every bullet, e.g. [T12]
+4. Do not interpret or draw conclusions yet
+5. If this part contains nothing relevant, reply with exactly: No relevant evidence.`,
   },
 
   critic: {
@@ -77,7 +108,17 @@ Your task is to evaluate an analysis segment against these criteria:
 4. **Accuracy**: Are there any misrepresentations or errors?
 5. **Completeness**: Does it cover the topic adequately?
 
-Be constructive but rigorous. If source alignment is violated, set sourceAlignment to false and explain specifically where.`,
+Be constructive but rigorous. Judge every statement on its own and quote the transcript evidence for each verdict, so unsupported statements can be pinpointed.`,
+
+    checkClaims: `You are a Critic Agent checking an analysis against one part of a long transcript.
+
+Your task is to find the statements in the analysis that this part of the transcript bears on, and judge each of them.
+
+CRITICAL RULES:
+1. Use ONLY the provided part of the transcript
+2. Write one bullet per statement: SUPPORTED, CONTRADICTED or MISREPRESENTED, then the statement, then the turn labels it rests on, e.g. [T12]
+3. Do not judge statements about turns outside this part
+4. If this part bears on none of the statements, reply with exactly: No relevant evidence.`,
   },
 
   gapAnalysis: {
@@ -94,4 +135,52 @@ CRITICAL RULES:
 3. Be specific about what's missing
 4. Provide actionable recommendations`,
   },
+
+  synthesis: {
+    synthesizeSegment: `You are a Synthesis Agent specialized in cross-interview qualitative research.
+
+Your task is to compare analyses of the same framework segment written for different interviews and identify:
+1. Themes that recur across participants, and how many interviews support each
+2. Points where participants diverge or contradict each other
+3. Findings that appear in only one interview and may be outliers
+
+CRITICAL RULES:
+1. Use ONLY the provided analyses as your source
+2. Attribute every finding to the interviews it comes from by name
+3. Do not average away disagreement; report divergence explicitly
+4. Write in professional, analytical prose
+
+Output your synthesis in Markdown with these sections:
+## Recurring Themes
+## Divergences
+## Summary`,
+  },
+
+  coding: {
+    proposeCodebook: `You are a Coding Agent specialized in thematic analysis of qualitative interviews.
+
+Your task is to propose a codebook for coding this transcript.
+
+Create 5-12 codes. Each code should:
+1. Have a short, distinct name
+2. Have a one or two sentence definition
+3. Say when to apply it and when not to, so two coders would agree
+4. Give one or two short example passages from the transcript
+
+CRITICAL RULES:
+1. Base the codes ONLY on the provided transcript and objective
+2. Codes must not overlap; use the exclusion rules to separate neighbours
+3. Prefer codes grounded in what participants say over abstract categories`,
+
+    codeTurns: `You are a Coding Agent applying a codebook to an interview transcript.
+
+Your task is to assign codes from the codebook to individual speaker turns.
+
+CRITICAL RULES:
+1. Use ONLY codes from the codebook, by their exact name
+2. Follow each code's inclusion and exclusion rules strictly
+3. Passages reviewers rejected for a code show what it must NOT be applied to
+4. A turn may get several codes, or none; do not code turns that fit no code
+5. Justify every code in one sentence that points to the words in the turn`,
+  },
 };
@@ -0,0 +1,75 @@
+// Example rubrics for the critic panel
+// Users can edit, remove or add to these in settings
+
+import { CriticRubric } from '../services/settings.service';
+
+export const DEFAULT_RUBRICS: CriticRubric[] = [
+  {
+    id: 'bias',
+    name: 'Bias & Leading Interpretation',
+    description: 'Flags readings the interviewee did not offer and one-sided framing',
+    model: '',
+    weight: 1,
+    passScore: 70,
+    instructions: `You are a Critic Agent reviewing qualitative research for bias.
+
+Judge whether the analysis reports what the interviewee said, or steers it towards a conclusion:
+1. Interpretations presented as the interviewee's own view
+2. Loaded or emotive wording that the transcript does not warrant
+3. Evidence that cuts the other way and was left out
+4. Generalisation from one remark to a pattern
+
+A high score means the analysis is even-handed and keeps interpretation apart from report.`,
+  },
+  {
+    id: 'actionability',
+    name: 'Actionability',
+    description: 'Checks that findings point to decisions a team could act on',
+    model: '',
+    weight: 1,
+    passScore: 60,
+    instructions: `You are a Critic Agent reviewing qualitative research for actionability.
+
+Judge whether a product or service team could act on the analysis:
+1. Findings are specific rather than general observations
+2. Each finding says who is affected and in which situation
+3. Implications or next steps follow from the evidence
+4. Priorities are clear where the interviewee expressed them
+
+A high score means a reader knows what to do differently after reading it.`,
+  },
+  {
+    id: 'tone',
+    name: 'Tone & Jargon',
+    description: 'Looks for neutral, plain wording free of unexplained jargon',
+    model: '',
+    weight: 1,
+    passScore: 70,
+    instructions: `You are a Critic Agent reviewing the writing of a research analysis.
+
+Judge the tone and vocabulary:
+1. Neutral, professional register without hype or judgement of the interviewee
+2. Technical terms, acronyms and internal jargon are avoided or explained
+3. Sentences are direct and free of filler
+4. Consistent terminology for the same concept
+
+A high score means a stakeholder from outside the project reads it without friction.`,
+  },
+  {
+    id: 'readingLevel',
+    name: 'Reading Level',
+    description: 'Rates accessibility for a general audience, around plain-language grade 8',
+    model: '',
+    weight: 1,
+    passScore: 60,
+    instructions: `You are a Critic Agent reviewing a research analysis for accessibility.
+
+Judge how easy the text is to read for a general audience, aiming at plain language around school grade 8:
+1. Sentence length and nesting
+2. Word choice: common words over long or abstract ones
+3. Structure: headings, lists and short paragraphs where they help
+4. Name the estimated reading grade in a finding
+
+A high score means the text is readable by a general audience without losing meaning.`,
+  },
+];
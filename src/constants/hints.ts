@@ -12,7 +12,7 @@ export const PHASE_HINTS = {
         upload: {
             id: 'phase1-upload',
             title: 'Upload Your Transcript',
-            description: 'Upload a transcript file (.txt, .md, .docx) or paste text directly into the text area. The AI will analyze your content to understand its context.',
+            description: 'Upload a transcript file (.txt, .md, .docx, .pdf, .vtt, .srt) or paste text directly into the text area. Studies with several interviews can add the other transcripts below. The AI will analyze your content to understand its context.',
         },
         analyze: {
             id: 'phase1-analyze',
@@ -56,6 +56,20 @@ export const PHASE_HINTS = {
             description: 'Gap analysis identifies themes or perspectives not covered in your initial analysis. Select any gaps you want to explore, and the AI will generate additional insights.',
         },
     },
+    phase3_6: {
+        synthesis: {
+            id: 'phase36-synthesis',
+            title: 'Compare Across Interviews',
+            description: 'Synthesis compares each segment\'s analyses across all interviews in the project. It highlights themes that recur across participants and where their accounts diverge. Segments need analyses from at least two interviews.',
+        },
+    },
+    phase3_7: {
+        coding: {
+            id: 'phase37-coding',
+            title: 'Code Speaker Turns',
+            description: 'Build a codebook by proposing one from the transcript, importing one (JSON, CSV or a REFI-QDA .qdc codebook) or adding codes by hand. The coding agent then applies the codes to individual speaker turns with a justification. Accepting or rejecting a coding adds the turn to the code\'s examples or rejected excerpts, which guide the next coding run. Export REFI-QDA hands the result to NVivo, ATLAS.ti or MAXQDA.',
+        },
+    },
     phase4: {
         consolidation: {
             id: 'phase4-consolidation',
@@ -1,4 +1,4 @@
-export type LLMProvider = 'litellm' | 'google';
+export type LLMProvider = 'litellm' | 'google' | 'ollama' | 'mock';
 
 export interface LLMProviderModelOption {
     id: string;
@@ -7,25 +7,71 @@ export interface LLMProviderModelOption {
     description?: string;
 }
 
+// List price in USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// How LLMService retries failed requests for a provider
+export interface RetryPolicy {
+    maxRetries: number; // Extra attempts after the first; 0 disables retrying
+    baseDelayMs: number; // Delay before the first retry, doubled on each further one
+    maxDelayMs: number; // Upper bound for the backoff delay; a longer Retry-After from the server ends the request
+    retryOnStatus: number[]; // HTTP statuses worth retrying; network failures always are
+}
+
+const HOSTED_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    retryOnStatus: [408, 429, 500, 502, 503, 504],
+};
+
 export interface LLMProviderConfig {
     id: LLMProvider;
     label: string;
     description: string;
     docsUrl: string;
+    requiresApiKey: boolean;
+    apiKeyOptional?: boolean; // The key may stay empty once an endpoint is configured, for servers without auth
     apiKeyLabel: string;
     apiKeyPlaceholder: string;
     models: LLMProviderModelOption[];
     defaultModel: string;
+    defaultBaseUrl?: string; // Set for providers whose endpoint the user can configure
+    retryPolicy: RetryPolicy; // Default, overridable in settings
+    maxInFlight: number; // Default concurrent requests per model, overridable in settings
+    prices: Record<string, ModelPrice>; // Keyed by model id, for cost estimates
+    defaultPrice?: ModelPrice; // For models missing from the table, e.g. free local models
+    contextWindows: Record<string, number>; // Input plus output tokens per request, keyed by model id
+    defaultContextWindow: number; // Assumed for models missing from the table
 }
 
+const GEMINI_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.0-flash-001': { input: 0.10, output: 0.40 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-1.5-pro-002': { input: 1.25, output: 5.00 },
+};
+
+const GEMINI_CONTEXT_WINDOWS: Record<string, number> = {
+    'gemini-2.0-flash-001': 1_048_576,
+    'gemini-2.5-flash': 1_048_576,
+    'gemini-2.5-flash-lite': 1_048_576,
+    'gemini-1.5-pro-002': 2_097_152,
+};
+
 export const LLM_PROVIDER_CONFIGS: Record<LLMProvider, LLMProviderConfig> = {
     litellm: {
         id: 'litellm',
-        label: 'LiteLLM Gateway',
-        description: 'Use a LiteLLM proxy to reach multiple commercial models with a single API surface.',
+        label: 'OpenAI-Compatible Endpoint',
+        description: 'Use a LiteLLM proxy or any OpenAI-compatible server (vLLM, LM Studio, llama.cpp) configured in Settings.',
         docsUrl: 'https://docs.litellm.ai',
-        apiKeyLabel: 'LiteLLM API Key',
-        apiKeyPlaceholder: 'Enter your LiteLLM API key',
+        requiresApiKey: true,
+        apiKeyOptional: true,
+        apiKeyLabel: 'Endpoint API Key (leave empty for LM Studio, llama.cpp or vLLM without auth)',
+        apiKeyPlaceholder: 'Enter your endpoint API key',
         models: [
             { id: 'google/gemini-2.0-flash-001', name: 'Gemini 2.0 Flash', provider: 'Google via LiteLLM' },
             { id: 'google/gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'Google via LiteLLM' },
@@ -35,12 +81,29 @@ export const LLM_PROVIDER_CONFIGS: Record<LLMProvider, LLMProviderConfig> = {
             { id: 'azure/o1-mini', name: 'O1 Mini', provider: 'Azure OpenAI' },
         ],
         defaultModel: 'google/gemini-2.0-flash-001',
+        defaultBaseUrl: 'http://localhost:4000',
+        retryPolicy: HOSTED_RETRY_POLICY,
+        maxInFlight: 4,
+        prices: {
+            ...Object.fromEntries(Object.entries(GEMINI_PRICES).map(([model, price]) => [`google/${model}`, price])),
+            'azure/gpt-4o-mini': { input: 0.15, output: 0.60 },
+            'azure/gpt-4o': { input: 2.50, output: 10.00 },
+            'azure/o1-mini': { input: 1.10, output: 4.40 },
+        },
+        contextWindows: {
+            ...Object.fromEntries(Object.entries(GEMINI_CONTEXT_WINDOWS).map(([model, window]) => [`google/${model}`, window])),
+            'azure/gpt-4o-mini': 128_000,
+            'azure/gpt-4o': 128_000,
+            'azure/o1-mini': 128_000,
+        },
+        defaultContextWindow: 32_768, // Conservative for self-hosted models behind the endpoint
     },
     google: {
         id: 'google',
         label: 'Google Gemini',
         description: 'Connect directly to the Google Gemini API without an intermediary.',
         docsUrl: 'https://ai.google.dev/gemini-api/docs',
+        requiresApiKey: true,
         apiKeyLabel: 'Google API Key',
         apiKeyPlaceholder: 'Enter your Google AI Studio API key',
         models: [
@@ -49,6 +112,67 @@ export const LLM_PROVIDER_CONFIGS: Record<LLMProvider, LLMProviderConfig> = {
             { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', provider: 'Google' },
         ],
         defaultModel: 'gemini-2.5-flash-lite',
+        retryPolicy: HOSTED_RETRY_POLICY,
+        maxInFlight: 4,
+        prices: GEMINI_PRICES,
+        contextWindows: GEMINI_CONTEXT_WINDOWS,
+        defaultContextWindow: 1_048_576,
+    },
+    ollama: {
+        id: 'ollama',
+        label: 'Ollama (Local)',
+        description: 'Run models on this machine with Ollama. Transcripts never leave your laptop and no API key is needed.',
+        docsUrl: 'https://github.com/ollama/ollama/blob/main/docs/api.md',
+        requiresApiKey: false,
+        apiKeyLabel: '',
+        apiKeyPlaceholder: '',
+        models: [
+            { id: 'llama3.1:8b', name: 'Llama 3.1 8B', provider: 'Ollama' },
+            { id: 'qwen2.5:7b', name: 'Qwen 2.5 7B', provider: 'Ollama' },
+            { id: 'mistral:7b', name: 'Mistral 7B', provider: 'Ollama' },
+        ],
+        defaultModel: 'llama3.1:8b',
+        defaultBaseUrl: 'http://localhost:11434',
+        retryPolicy: {
+            maxRetries: 2,
+            baseDelayMs: 500,
+            maxDelayMs: 5000,
+            retryOnStatus: [500, 502, 503],
+        },
+        maxInFlight: 1, // A local server works through one request at a time
+        prices: {},
+        defaultPrice: { input: 0, output: 0 },
+        // Requested as num_ctx; Ollama otherwise loads models with a much smaller default context
+        contextWindows: {
+            'llama3.1:8b': 8192,
+            'qwen2.5:7b': 8192,
+            'mistral:7b': 8192,
+        },
+        defaultContextWindow: 8192,
+    },
+    mock: {
+        id: 'mock',
+        label: 'Mock (Recorded Responses)',
+        description: 'Replay responses recorded from a real provider. Works offline, for demos and tests.',
+        docsUrl: '',
+        requiresApiKey: false,
+        apiKeyLabel: '',
+        apiKeyPlaceholder: '',
+        models: [
+            { id: 'replay', name: 'Recorded responses', provider: 'Mock' },
+        ],
+        defaultModel: 'replay',
+        retryPolicy: {
+            maxRetries: 0,
+            baseDelayMs: 0,
+            maxDelayMs: 0,
+            retryOnStatus: [],
+        },
+        maxInFlight: 8,
+        prices: {},
+        defaultPrice: { input: 0, output: 0 },
+        contextWindows: {},
+        defaultContextWindow: 1_048_576,
     },
 };
 
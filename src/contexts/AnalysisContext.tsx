@@ -1,11 +1,26 @@
-import { createContext, useContext, useState, ReactNode } from 'react';
-import { Phase, AnalysisState, PlannerOutput, AnalysisFramework, SegmentAnalysis, GapAnalysis, FrameworkSegment, GapSuggestion } from '../types/phases';
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { transcriptParserService } from '../services/transcript-parser.service';
+import { sessionStoreService } from '../services/session-store.service';
+import { agentLogger } from '../services/agent-logger.service';
+import { usageService } from '../services/usage.service';
+import { Phase, AnalysisState, PlannerOutput, AnalysisFramework, SegmentAnalysis, CriticEvaluation, GapAnalysis, FrameworkSegment, GapSuggestion, TranscriptSource, ProjectTranscript, SegmentSynthesis, Code, CodedExcerpt } from '../types/phases';
 
 interface AnalysisContextType {
     state: AnalysisState;
-    setPhase1Data: (plannerOutput: PlannerOutput, transcript: string) => void;
+    sessionId: string;
+    resumeSession: (id: string) => Promise<AnalysisState | undefined>;
+    deleteSession: (id: string) => Promise<void>;
+    importProject: (state: AnalysisState) => void;
+    setPhase1Data: (plannerOutput: PlannerOutput, sources: TranscriptSource[]) => void;
     setPhase2Data: (framework: AnalysisFramework) => void;
     setPhase3Data: (analyses: SegmentAnalysis[]) => void;
+    setCriticEvaluation: (segmentId: string, evaluation?: CriticEvaluation) => void;
+    setRubricSelection: (rubricIds: string[]) => void;
+    setCodebook: (codebook: Code[]) => void;
+    setCodedExcerpts: (excerpts: CodedExcerpt[]) => void;
+    setActiveTranscript: (transcriptId: string) => void;
+    setTranscriptAnalyses: (transcriptId: string, analyses: SegmentAnalysis[]) => void;
+    setSynthesis: (syntheses: SegmentSynthesis[]) => void;
     setGapAnalysis: (analysis: GapAnalysis) => void;
     addGapToMainAnalysis: (gapId: string, analysis: SegmentAnalysis, suggestion?: GapSuggestion) => void;
     setPhase4Data: () => void;
@@ -17,25 +32,146 @@ interface AnalysisContextType {
 
 const AnalysisContext = createContext<AnalysisContextType | undefined>(undefined);
 
+const createInitialState = (): AnalysisState => ({
+    currentPhase: Phase.UPLOAD_ALIGN,
+    transcript: '',
+    structuredTranscript: undefined,
+    plannerOutput: undefined,
+    framework: undefined,
+    segmentAnalyses: new Map(),
+    criticEvaluations: new Map(),
+    gapAnalysis: undefined,
+    transcripts: [],
+    activeTranscriptId: undefined,
+    synthesis: new Map(),
+    usage: [],
+    rubricIds: null,
+    codebook: [],
+    codedExcerpts: [],
+});
+
+// Write the active transcript's analyses back into its project entry
+const syncActiveTranscript = (state: AnalysisState): AnalysisState => ({
+    ...state,
+    transcripts: state.transcripts.map(entry => entry.id === state.activeTranscriptId
+        ? { ...entry, segmentAnalyses: state.segmentAnalyses, criticEvaluations: state.criticEvaluations }
+        : entry
+    ),
+});
+
+const toAnalysisMap = (analyses: SegmentAnalysis[]): Map<string, SegmentAnalysis> =>
+    new Map(analyses.map(analysis => [analysis.segmentId, analysis]));
+
+// Sessions are only stored once a transcript has been handed over from the upload phase
+const hasSessionContent = (state: AnalysisState): boolean =>
+    state.transcripts.length > 0 || state.transcript !== '';
+
 // Central state management for the multi-phase analysis workflow
-// Manages transcript, planner output, framework, analyses, and gap analysis
+// Manages the project's transcripts, planner output, framework, analyses, gap analysis and synthesis
 export function AnalysisProvider({ children }: { children: ReactNode }) {
-    const [state, setState] = useState<AnalysisState>({
-        currentPhase: Phase.UPLOAD_ALIGN,
-        transcript: '',
-        plannerOutput: undefined,
-        framework: undefined,
-        segmentAnalyses: new Map(),
-        criticEvaluations: new Map(),
-        gapAnalysis: undefined,
-    });
-
-    // Update planner output and transcript for Phase 1
-    const setPhase1Data = (plannerOutput: PlannerOutput, transcript: string) => {
+    const [state, setState] = useState<AnalysisState>(createInitialState);
+    const [sessionId, setSessionId] = useState<string>(() => sessionStoreService.getActiveSessionId() ?? crypto.randomUUID());
+    const [isRestoring, setIsRestoring] = useState(true);
+
+    // Stamp new agent requests with the current phase. Set while rendering rather than in an effect,
+    // because a page navigated to alongside a phase change launches its agents from its own mount effect, which runs first
+    agentLogger.setPhase(state.currentPhase);
+
+    // Restore the session that was open before a page reload
+    useEffect(() => {
+        const activeId = sessionStoreService.getActiveSessionId();
+        if (!activeId) {
+            setIsRestoring(false);
+            return;
+        }
+
+        sessionStoreService.load(activeId)
+            .then(restored => {
+                if (restored) setState(restored);
+            })
+            .catch(error => console.error('Failed to restore session:', error))
+            .finally(() => setIsRestoring(false));
+    }, []);
+
+    // Add the token usage of each new agent response to the open session
+    useEffect(() => {
+        const seen = new Set(agentLogger.getLogs().map(log => log.id));
+        return agentLogger.subscribe(logs => {
+            const fresh = logs.filter(log => !seen.has(log.id));
+            fresh.forEach(log => seen.add(log.id));
+            if (!fresh.some(log => log.action === 'response' && log.tokens)) return;
+
+            setState(prev => {
+                const recorded = new Set(prev.usage.map(record => record.logId));
+                const added = fresh.flatMap(log => {
+                    const record = usageService.toRecord(log, prev.currentPhase);
+                    return record && !recorded.has(record.logId) ? [record] : [];
+                });
+                return added.length > 0 ? { ...prev, usage: [...prev.usage, ...added] } : prev;
+            });
+        });
+    }, []);
+
+    // Persist every state change to IndexedDB
+    useEffect(() => {
+        if (isRestoring || !hasSessionContent(state)) return;
+
+        sessionStoreService.save(sessionId, state)
+            .then(() => sessionStoreService.setActiveSessionId(sessionId))
+            .catch(error => console.error('Failed to save session:', error));
+    }, [state, sessionId, isRestoring]);
+
+    // Load a saved session and make it the active one
+    const resumeSession = async (id: string): Promise<AnalysisState | undefined> => {
+        const restored = await sessionStoreService.load(id);
+        if (!restored) return undefined;
+
+        setState(restored);
+        setSessionId(id);
+        sessionStoreService.setActiveSessionId(id);
+        return restored;
+    };
+
+    // Load an imported project bundle as a new session
+    const importProject = (imported: AnalysisState) => {
+        const id = crypto.randomUUID();
+        setState(imported);
+        setSessionId(id);
+        sessionStoreService.setActiveSessionId(id);
+    };
+
+    const deleteSession = async (id: string) => {
+        await sessionStoreService.delete(id);
+        if (id === sessionId) {
+            resetAnalysis();
+        }
+    };
+
+    // Update planner output and project transcripts for Phase 1
+    // The first source is the primary interview; file parsers that already produce turns pass them in, raw text is parsed here
+    const setPhase1Data = (plannerOutput: PlannerOutput, sources: TranscriptSource[]) => {
+        const transcripts: ProjectTranscript[] = sources.map(source => {
+            const transcript = source.transcript ?? transcriptParserService.parse(source.content);
+            return {
+                id: transcript.id,
+                name: source.name,
+                transcript,
+                segmentAnalyses: new Map(),
+                criticEvaluations: new Map(),
+            };
+        });
+        const primary = transcripts[0];
+
         setState(prev => ({
             ...prev,
             plannerOutput,
-            transcript,
+            transcript: primary?.transcript.content ?? '',
+            structuredTranscript: primary?.transcript,
+            segmentAnalyses: new Map(),
+            criticEvaluations: new Map(),
+            transcripts,
+            activeTranscriptId: primary?.id,
+            synthesis: new Map(),
             currentPhase: Phase.UPLOAD_ALIGN,
         }));
     };
@@ -49,15 +185,74 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
     };
 
     const setPhase3Data = (analyses: SegmentAnalysis[]) => {
-        const analysesMap = new Map<string, SegmentAnalysis>();
-        analyses.forEach(analysis => {
-            analysesMap.set(analysis.segmentId, analysis);
+        setState(prev => syncActiveTranscript({
+            ...prev,
+            segmentAnalyses: toAnalysisMap(analyses),
+            currentPhase: Phase.INSIGHT_EXTRACTION,
+        }));
+    };
+
+    // Store or clear the critic evaluation of one segment of the active transcript
+    const setCriticEvaluation = (segmentId: string, evaluation?: CriticEvaluation) => {
+        setState(prev => {
+            const criticEvaluations = new Map(prev.criticEvaluations);
+            if (evaluation) {
+                criticEvaluations.set(segmentId, evaluation);
+            } else {
+                criticEvaluations.delete(segmentId);
+            }
+            return syncActiveTranscript({ ...prev, criticEvaluations });
         });
+    };
+
+    // Pick the rubrics the critic panel runs for this analysis
+    const setRubricSelection = (rubricIds: string[]) => {
+        setState(prev => ({ ...prev, rubricIds }));
+    };
+
+    const setCodebook = (codebook: Code[]) => {
+        setState(prev => ({ ...prev, codebook }));
+    };
 
+    const setCodedExcerpts = (codedExcerpts: CodedExcerpt[]) => {
+        setState(prev => ({ ...prev, codedExcerpts }));
+    };
+
+    // Switch which interview the analysis phases work on
+    const setActiveTranscript = (transcriptId: string) => {
+        setState(prev => {
+            const synced = syncActiveTranscript(prev);
+            const target = synced.transcripts.find(entry => entry.id === transcriptId);
+            if (!target) return prev;
+
+            return {
+                ...synced,
+                activeTranscriptId: target.id,
+                transcript: target.transcript.content,
+                structuredTranscript: target.transcript,
+                segmentAnalyses: target.segmentAnalyses,
+                criticEvaluations: target.criticEvaluations,
+            };
+        });
+    };
+
+    // Store analyses for any interview in the project, including ones that are not active
+    const setTranscriptAnalyses = (transcriptId: string, analyses: SegmentAnalysis[]) => {
+        setState(prev => {
+            const segmentAnalyses = toAnalysisMap(analyses);
+            return {
+                ...prev,
+                segmentAnalyses: transcriptId === prev.activeTranscriptId ? segmentAnalyses : prev.segmentAnalyses,
+                transcripts: prev.transcripts.map(entry => entry.id === transcriptId ? { ...entry, segmentAnalyses } : entry),
+            };
+        });
+    };
+
+    const setSynthesis = (syntheses: SegmentSynthesis[]) => {
         setState(prev => ({
             ...prev,
-            segmentAnalyses: analysesMap,
-            currentPhase: Phase.INSIGHT_EXTRACTION,
+            synthesis: new Map(syntheses.map(synthesis => [synthesis.segmentId, synthesis])),
+            currentPhase: Phase.SYNTHESIS,
         }));
     };
 
@@ -101,7 +296,7 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
             const newGapAnalyses = new Map(prev.gapAnalysis?.analyzedGaps || new Map());
             newGapAnalyses.delete(gapId);
 
-            return {
+            return syncActiveTranscript({
                 ...prev,
                 segmentAnalyses: newAnalyses,
                 framework: newFramework,
@@ -109,7 +304,7 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
                     ...prev.gapAnalysis,
                     analyzedGaps: newGapAnalyses
                 } : undefined
-            };
+            });
         });
     };
 
@@ -120,16 +315,11 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
         }));
     };
 
+    // Start a fresh session; the previous one stays in the session list
     const resetAnalysis = () => {
-        setState({
-            currentPhase: Phase.UPLOAD_ALIGN,
-            transcript: '',
-            plannerOutput: undefined,
-            framework: undefined,
-            segmentAnalyses: new Map(),
-            criticEvaluations: new Map(),
-            gapAnalysis: undefined,
-        });
+        setState(createInitialState());
+        setSessionId(crypto.randomUUID());
+        sessionStoreService.setActiveSessionId(null);
     };
 
     const canProceedToPhase = (phase: Phase): boolean => {
@@ -142,8 +332,13 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
                 return state.framework !== undefined;
             case Phase.GAP_ANALYSIS:
                 return state.segmentAnalyses.size > 0;
+            case Phase.SYNTHESIS:
+                // Needs at least two interviews with analyses to compare
+                return state.transcripts.filter(entry => entry.segmentAnalyses.size > 0).length > 1;
+            case Phase.CODING:
+                return state.transcripts.length > 0 || state.structuredTranscript !== undefined;
             case Phase.CONSOLIDATION:
-                return state.segmentAnalyses.size > 0; // Can skip gap analysis
+                return state.segmentAnalyses.size > 0 || state.codedExcerpts.length > 0; // Can skip gap analysis
             default:
                 return false;
         }
@@ -157,9 +352,20 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
         <AnalysisContext.Provider
             value={{
                 state,
+                sessionId,
+                resumeSession,
+                deleteSession,
+                importProject,
                 setPhase1Data,
                 setPhase2Data,
                 setPhase3Data,
+                setCriticEvaluation,
+                setRubricSelection,
+                setCodebook,
+                setCodedExcerpts,
+                setActiveTranscript,
+                setTranscriptAnalyses,
+                setSynthesis,
                 setGapAnalysis,
                 addGapToMainAnalysis,
                 setPhase4Data,
@@ -169,7 +375,8 @@ export function AnalysisProvider({ children }: { children: ReactNode }) {
                 setCurrentPhase,
             }}
         >
-            {children}
+            {/* Hold rendering until a reloaded session is back so pages initialise from it */}
+            {isRestoring ? null : children}
         </AnalysisContext.Provider>
     );
 }
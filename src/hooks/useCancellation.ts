@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+// Hook for tracking one AbortController per running operation
+// Keys identify the operation (e.g. a segment id) so it can be stopped on its own or with everything else
+export function useCancellation() {
+    const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+    // Abort anything still running when the page unmounts
+    useEffect(() => {
+        const controllers = controllersRef.current;
+        return () => {
+            controllers.forEach(controller => controller.abort());
+            controllers.clear();
+        };
+    }, []);
+
+    // Start an operation, aborting any earlier one under the same key
+    const begin = (key: string): AbortSignal => {
+        controllersRef.current.get(key)?.abort();
+        const controller = new AbortController();
+        controllersRef.current.set(key, controller);
+        return controller.signal;
+    };
+
+    // Forget a finished operation unless a newer one has taken its key
+    const end = (key: string, signal: AbortSignal) => {
+        if (controllersRef.current.get(key)?.signal === signal) {
+            controllersRef.current.delete(key);
+        }
+    };
+
+    const stop = (...keys: string[]) => {
+        keys.forEach(key => controllersRef.current.get(key)?.abort());
+    };
+
+    const stopAll = () => {
+        controllersRef.current.forEach(controller => controller.abort());
+    };
+
+    return { begin, end, stop, stopAll };
+}
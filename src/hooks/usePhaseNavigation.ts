@@ -3,22 +3,27 @@ import { useAnalysisContext } from '../contexts/AnalysisContext';
 import { Phase } from '../types/phases';
 import toast from 'react-hot-toast';
 
-const PHASE_ROUTES: Record<Phase, string> = {
+export const PHASE_ROUTES: Record<Phase, string> = {
     [Phase.UPLOAD_ALIGN]: '/upload',
     [Phase.PROCESSING_VALIDATION]: '/framework',
     [Phase.INSIGHT_EXTRACTION]: '/extraction',
     [Phase.GAP_ANALYSIS]: '/gap-analysis',
+    [Phase.SYNTHESIS]: '/synthesis',
+    [Phase.CODING]: '/coding',
     [Phase.CONSOLIDATION]: '/consolidation',
 };
 
 // Navigation hook enforcing phase-to-phase progression rules
 export function usePhaseNavigation() {
     const navigate = useNavigate();
-    const { currentPhase, canProceedToPhase, setCurrentPhase } = useAnalysisContext();
+    const { state, currentPhase, canProceedToPhase, setCurrentPhase } = useAnalysisContext();
+
+    // The synthesis phase only exists for projects with more than one interview
+    const includeSynthesis = state.transcripts.length > 1;
 
     // Navigate forward with validation
     const proceedToNextPhase = () => {
-        const nextPhase = getNextPhase(currentPhase);
+        const nextPhase = getNextPhase(currentPhase, includeSynthesis);
 
         if (!nextPhase) {
             toast.error('Already at the final phase');
@@ -50,7 +55,7 @@ export function usePhaseNavigation() {
     };
 
     const goToPreviousPhase = () => {
-        const previousPhase = getPreviousPhase(currentPhase);
+        const previousPhase = getPreviousPhase(currentPhase, includeSynthesis);
 
         if (!previousPhase) {
             toast.error('Already at the first phase');
@@ -62,12 +67,12 @@ export function usePhaseNavigation() {
     };
 
     const canProceed = (): boolean => {
-        const nextPhase = getNextPhase(currentPhase);
+        const nextPhase = getNextPhase(currentPhase, includeSynthesis);
         return nextPhase !== null && canProceedToPhase(nextPhase);
     };
 
     const canGoBack = (): boolean => {
-        return getPreviousPhase(currentPhase) !== null;
+        return getPreviousPhase(currentPhase, includeSynthesis) !== null;
     };
 
     return {
@@ -81,7 +86,7 @@ export function usePhaseNavigation() {
     };
 }
 
-function getNextPhase(current: Phase): Phase | null {
+function getNextPhase(current: Phase, includeSynthesis: boolean): Phase | null {
     switch (current) {
         case Phase.UPLOAD_ALIGN:
             return Phase.PROCESSING_VALIDATION;
@@ -90,6 +95,10 @@ function getNextPhase(current: Phase): Phase | null {
         case Phase.INSIGHT_EXTRACTION:
             return Phase.GAP_ANALYSIS;
         case Phase.GAP_ANALYSIS:
+            return includeSynthesis ? Phase.SYNTHESIS : Phase.CODING;
+        case Phase.SYNTHESIS:
+            return Phase.CODING;
+        case Phase.CODING:
             return Phase.CONSOLIDATION;
         case Phase.CONSOLIDATION:
             return null;
@@ -98,7 +107,7 @@ function getNextPhase(current: Phase): Phase | null {
     }
 }
 
-function getPreviousPhase(current: Phase): Phase | null {
+function getPreviousPhase(current: Phase, includeSynthesis: boolean): Phase | null {
     switch (current) {
         case Phase.UPLOAD_ALIGN:
             return null;
@@ -108,8 +117,12 @@ function getPreviousPhase(current: Phase): Phase | null {
             return Phase.PROCESSING_VALIDATION;
         case Phase.GAP_ANALYSIS:
             return Phase.INSIGHT_EXTRACTION;
-        case Phase.CONSOLIDATION:
+        case Phase.SYNTHESIS:
             return Phase.GAP_ANALYSIS;
+        case Phase.CODING:
+            return includeSynthesis ? Phase.SYNTHESIS : Phase.GAP_ANALYSIS;
+        case Phase.CONSOLIDATION:
+            return Phase.CODING;
         default:
             return null;
     }
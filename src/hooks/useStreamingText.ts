@@ -26,27 +26,33 @@ export function useStreamingText(options: UseStreamingTextOptions = {}) {
         typingSpeed = 50, // 50 chars/sec default
     } = options;
 
-    const startStreaming = async (generator: AsyncGenerator<string>) => {
+    // Pass a factory to let stop() cancel the underlying request, not just stop reading it
+    const startStreaming = async (source: AsyncGenerator<string> | ((signal: AbortSignal) => AsyncGenerator<string>)) => {
         setState('streaming');
         setError(null);
         setText('');
         bufferRef.current = '';
 
-        abortControllerRef.current = new AbortController();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        const generator = typeof source === 'function' ? source(controller.signal) : source;
 
         try {
             for await (const chunk of generator) {
-                if (abortControllerRef.current?.signal.aborted) {
+                if (controller.signal.aborted) {
                     break;
                 }
                 bufferRef.current += chunk;
             }
 
-            if (!abortControllerRef.current?.signal.aborted) {
+            if (!controller.signal.aborted) {
                 setState('complete');
                 onComplete?.(bufferRef.current);
             }
         } catch (err) {
+            if (controller.signal.aborted) {
+                return;
+            }
             const error = err instanceof Error ? err : new Error('Streaming failed');
             setError(error);
             setState('error');
@@ -20,8 +20,7 @@ export function Dashboard() {
 
     useEffect(() => {
         llmService.hydrateFromSettings();
-        const provider = settingsService.getProvider();
-        if (settingsService.getApiKey(provider)) {
+        if (settingsService.isProviderConfigured()) {
             setHasApiKey(true);
         }
     }, []);
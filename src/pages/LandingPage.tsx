@@ -1,9 +1,45 @@
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowRight, Sparkles } from 'lucide-react';
+import { ArrowRight, Sparkles, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAnalysisContext } from '../contexts/AnalysisContext';
+import { SessionList } from '../components/SessionList';
+import { PHASE_ROUTES } from '../hooks/usePhaseNavigation';
+import { projectBundleService } from '../services/project-bundle.service';
+import { agentLogger } from '../services/agent-logger.service';
 
 export function LandingPage() {
     const navigate = useNavigate();
+    const { resetAnalysis, importProject } = useAnalysisContext();
+
+    // Start a new session; earlier analyses stay available under Recent Analyses
+    const handleGetStarted = () => {
+        resetAnalysis();
+        navigate('/upload');
+    };
+
+    // Restore a project bundle exported by a colleague and continue in the phase it was left at
+    const handleImportProject = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'application/json,.json';
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+
+            try {
+                const project = projectBundleService.import(await file.text());
+                importProject(project.state);
+                agentLogger.restoreLogs(project.agentLogs);
+                toast.success('Project imported!');
+                navigate(PHASE_ROUTES[project.state.currentPhase]);
+            } catch (error) {
+                console.error('Project import failed:', error);
+                toast.error(error instanceof Error ? error.message : 'Failed to import project');
+            }
+        };
+        input.click();
+    };
 
     return (
         <div className="min-h-screen bg-solita-light-grey flex flex-col items-center justify-center px-6 py-12">
@@ -52,17 +88,38 @@ export function LandingPage() {
                     identify gaps, and consolidate into a comprehensive report.
                 </motion.p>
 
-                {/* CTA Button */}
-                <motion.button
+                {/* CTA Buttons */}
+                <motion.div
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ duration: 0.4, delay: 0.4 }}
-                    onClick={() => navigate('/upload')}
-                    className="px-8 py-4 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-all duration-200 flex items-center gap-3 mx-auto text-lg font-medium shadow-md hover:shadow-lg"
+                    className="flex flex-wrap items-center justify-center gap-4"
                 >
-                    Get Started
-                    <ArrowRight className="w-5 h-5" />
-                </motion.button>
+                    <button
+                        onClick={handleGetStarted}
+                        className="px-8 py-4 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-all duration-200 flex items-center gap-3 text-lg font-medium shadow-md hover:shadow-lg"
+                    >
+                        Get Started
+                        <ArrowRight className="w-5 h-5" />
+                    </button>
+                    <button
+                        onClick={handleImportProject}
+                        className="px-8 py-4 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-all duration-200 flex items-center gap-3 text-lg font-medium"
+                    >
+                        <Upload className="w-5 h-5" />
+                        Import Project
+                    </button>
+                </motion.div>
+
+                {/* Saved Sessions */}
+                <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ duration: 0.4, delay: 0.5 }}
+                    className="mt-12"
+                >
+                    <SessionList />
+                </motion.div>
             </motion.div>
         </div>
     );
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { TranscriptInput } from '../components/TranscriptInput';
+import { ProjectTranscriptList } from '../components/ProjectTranscriptList';
 import { AgentLogPanel } from '../components/AgentLogPanel';
 import { ApiKeyPrompt } from '../components/ApiKeyPrompt';
 import { plannerAgent } from '../services/planner.agent';
@@ -8,9 +9,10 @@ import { agentLogger } from '../services/agent-logger.service';
 import { llmService } from '../services/llm.service';
 import { settingsService } from '../services/settings.service';
 import { useAnalysisContext } from '../contexts/AnalysisContext';
-import { PlannerOutput } from '../types/phases';
+import { PlannerOutput, TranscriptSource } from '../types/phases';
 import { AgentLog } from '../types/logging';
-import { Sparkles, Tag, Target, ArrowRight, Loader2, Key, FileText, XCircle, AlertTriangle } from 'lucide-react';
+import { Transcript } from '../types';
+import { Sparkles, Tag, Target, ArrowRight, Loader2, Key, FileText, XCircle, AlertTriangle, BookOpen } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { StandardTextArea } from '../components/ui/StandardTextArea';
 import { StandardInput } from '../components/ui/StandardInput';
@@ -23,6 +25,8 @@ export function Phase1_UploadAlign() {
 
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [transcript, setTranscript] = useState<string>('');
+    const [structuredTranscript, setStructuredTranscript] = useState<Transcript | undefined>(undefined);
+    const [additionalSources, setAdditionalSources] = useState<TranscriptSource[]>([]);
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [logs, setLogs] = useState<AgentLog[]>([]);
 
@@ -34,13 +38,13 @@ export function Phase1_UploadAlign() {
     const [contextUnderstanding, setContextUnderstanding] = useState('');
     const [metadataTags, setMetadataTags] = useState<string[]>([]);
     const [analysisObjective, setAnalysisObjective] = useState('');
+    const [transcriptSummary, setTranscriptSummary] = useState<string | undefined>(undefined);
     const [newTag, setNewTag] = useState('');
 
-    // Initialize API key state and load from localStorage
+    // Initialize API key state and load from localStorage; keyless providers count as set
     useEffect(() => {
         llmService.hydrateFromSettings();
-        const provider = settingsService.getProvider();
-        if (settingsService.getApiKey(provider)) {
+        if (settingsService.isProviderConfigured()) {
             setHasApiKey(true);
         }
     }, []);
@@ -53,20 +57,24 @@ export function Phase1_UploadAlign() {
         return unsubscribe;
     }, []);
 
-    const handleFileSelect = (file: File | null, content: string) => {
+    const handleFileSelect = (file: File | null, content: string, parsed?: Transcript) => {
         setSelectedFile(file);
         setTranscript(content);
+        setStructuredTranscript(parsed);
         setContextUnderstanding('');
         setMetadataTags([]);
         setAnalysisObjective('');
+        setTranscriptSummary(undefined);
     };
 
     const handleRemoveFile = () => {
         setSelectedFile(null);
         setTranscript('');
+        setStructuredTranscript(undefined);
         setContextUnderstanding('');
         setMetadataTags([]);
         setAnalysisObjective('');
+        setTranscriptSummary(undefined);
     };
 
     const analyzeTranscript = async () => {
@@ -89,12 +97,15 @@ export function Phase1_UploadAlign() {
                 transcript,
                 (context) => setContextUnderstanding(context),
                 (tags) => setMetadataTags(tags),
-                (objective) => setAnalysisObjective(objective)
+                (objective) => setAnalysisObjective(objective),
+                undefined,
+                structuredTranscript
             );
 
             setContextUnderstanding(output.contextUnderstanding);
             setMetadataTags(output.metadataTags);
             setAnalysisObjective(output.analysisObjective);
+            setTranscriptSummary(output.transcriptSummary);
 
             toast.success('Analysis complete!');
         } catch (error) {
@@ -136,10 +147,18 @@ export function Phase1_UploadAlign() {
             contextUnderstanding,
             metadataTags,
             analysisObjective,
+            transcriptSummary,
+        };
+
+        // The uploaded or pasted transcript is the primary interview; any others share its framework
+        const primarySource: TranscriptSource = {
+            name: selectedFile?.name ?? 'Pasted transcript',
+            content: transcript,
+            transcript: structuredTranscript,
         };
 
         // Set the data in context
-        setPhase1Data(finalOutput, transcript);
+        setPhase1Data(finalOutput, [primarySource, ...additionalSources]);
 
         // Navigate directly - we've already validated the data locally
         // No need to wait for context state update or check canProceedToPhase
@@ -177,7 +196,7 @@ export function Phase1_UploadAlign() {
                             </div>
                         </div>
                         <p className="text-base text-solita-dark-grey">
-                            Upload your transcript (.txt, .md, .docx) and let AI understand the context
+                            Upload your transcript (.txt, .md, .docx, .pdf, .vtt, .srt) and let AI understand the context
                         </p>
                     </div>
 
@@ -255,9 +274,31 @@ export function Phase1_UploadAlign() {
                         </div>
                     </div>
 
+                    {/* Additional Interviews */}
+                    {transcript && (
+                        <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
+                            <ProjectTranscriptList
+                                sources={additionalSources}
+                                onAdd={(source) => setAdditionalSources(prev => [...prev, source])}
+                                onRemove={(index) => setAdditionalSources(prev => prev.filter((_, i) => i !== index))}
+                            />
+                        </div>
+                    )}
+
                     {/* Analysis Results */}
                     {(contextUnderstanding || metadataTags.length > 0 || analysisObjective) && (
                         <>
+                            {/* Summary the plan was made from, in full planning mode */}
+                            {transcriptSummary && (
+                                <details className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
+                                    <summary className="text-lg font-semibold text-solita-black cursor-pointer flex items-center gap-2">
+                                        <BookOpen className="w-5 h-5 text-solita-ochre" />
+                                        Transcript Summary
+                                    </summary>
+                                    <p className="text-sm text-solita-dark-grey mt-3 whitespace-pre-wrap">{transcriptSummary}</p>
+                                </details>
+                            )}
+
                             {/* Context Understanding */}
                             <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
                                 <h3 className="text-lg font-semibold text-solita-black mb-3 flex items-center gap-2">
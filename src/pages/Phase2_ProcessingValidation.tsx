@@ -35,7 +35,10 @@ export function Phase2_ProcessingValidation() {
                 state.transcript,
                 state.plannerOutput.contextUnderstanding,
                 state.plannerOutput.analysisObjective,
-                state.plannerOutput.metadataTags
+                state.plannerOutput.metadataTags,
+                undefined,
+                state.plannerOutput.transcriptSummary,
+                () => { fullText = ''; }
             )) {
                 fullText += chunk;
                 setStreamingText(fullText);
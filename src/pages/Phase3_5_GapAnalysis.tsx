@@ -1,12 +1,21 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useAnalysisContext } from '../contexts/AnalysisContext';
 import { usePhaseNavigation } from '../hooks/usePhaseNavigation';
+import { useCancellation } from '../hooks/useCancellation';
+import { agentOrchestrator, JobPriority } from '../services/agent.orchestrator';
+import { settingsService } from '../services/settings.service';
+import { AgentVisualizer } from '../components/AgentVisualizer';
 import { gapAnalysisAgent } from '../services/gap-analysis.agent';
+import { plannerAgent } from '../services/planner.agent';
 import { writerAgent } from '../services/writer.agent';
 import { criticAgent } from '../services/critic.agent';
 import { GapSuggestion, SegmentAnalysis, CriticEvaluation } from '../types/phases';
 import { SegmentCard } from '../components/SegmentCard';
-import { Search, CheckCircle, ArrowRight, ArrowLeft, Sparkles, RefreshCw, Plus, X } from 'lucide-react';
+import { TranscriptViewer } from '../components/TranscriptViewer';
+import { citationService } from '../services/citation.service';
+import { segmentVersionService } from '../services/segment-version.service';
+import { EvidenceLocation } from '../types';
+import { Search, CheckCircle, ArrowRight, ArrowLeft, Sparkles, RefreshCw, Plus, X, Square } from 'lucide-react';
 import { StandardInput } from '../components/ui/StandardInput';
 import { StandardTextArea } from '../components/ui/StandardTextArea';
 import { StreamingOutput } from '../components/ui/StreamingOutput';
@@ -16,29 +25,72 @@ import { PHASE_HINTS } from '../constants/hints';
 
 type AnalysisStep = 'identify' | 'analyze';
 
+// Cancellation key for the gap identification stream
+const IDENTIFY_KEY = 'identify';
+
 export function Phase3_5_GapAnalysis() {
-    const { state, addGapToMainAnalysis } = useAnalysisContext();
+    const { state, setGapAnalysis, addGapToMainAnalysis } = useAnalysisContext();
     const { goToPreviousPhase, proceedToNextPhase, canGoBack } = usePhaseNavigation();
+    const { begin, end, stop, stopAll } = useCancellation();
+
+    // Resume from gap results saved in the session
+    const savedGaps = state.gapAnalysis;
+    const [step, setStep] = useState<AnalysisStep>(savedGaps && savedGaps.analyzedGaps.size > 0 ? 'analyze' : 'identify');
 
-    const [step, setStep] = useState<AnalysisStep>('identify');
+    // Multi-interview projects continue to cross-interview synthesis before coding
+    const nextPhaseLabel = state.transcripts.length > 1 ? 'Synthesis' : 'Coding';
 
     // Identification step state
     const [isIdentifying, setIsIdentifying] = useState(false);
-    const [identificationText, setIdentificationText] = useState('');
-    const [suggestions, setSuggestions] = useState<GapSuggestion[]>([]);
-    const [selectedGaps, setSelectedGaps] = useState<Set<string>>(new Set());
+    const [identificationText, setIdentificationText] = useState(savedGaps?.summary ?? '');
+    const [suggestions, setSuggestions] = useState<GapSuggestion[]>(savedGaps?.suggestions ?? []);
+    const [selectedGaps, setSelectedGaps] = useState<Set<string>>(new Set(savedGaps?.analyzedGaps.keys()));
 
     // Analysis step state
-    const [gapAnalyses, setGapAnalyses] = useState<Map<string, SegmentAnalysis>>(new Map());
+    const [gapAnalyses, setGapAnalyses] = useState<Map<string, SegmentAnalysis>>(savedGaps?.analyzedGaps ?? new Map());
     const [streamingContent, setStreamingContent] = useState<Map<string, string>>(new Map());
     const [analyzingGaps, setAnalyzingGaps] = useState<Set<string>>(new Set());
     const [evaluations, setEvaluations] = useState<Map<string, CriticEvaluation>>(new Map());
     const [evaluatingGaps, setEvaluatingGaps] = useState<Set<string>>(new Set());
+    const [evidenceFocus, setEvidenceFocus] = useState<EvidenceLocation>();
 
     // Custom gap state
     const [isAddingCustom, setIsAddingCustom] = useState(false);
     const [customGap, setCustomGap] = useState({ title: '', objective: '', guidance: '', rationale: '' });
 
+    const isRunning = isIdentifying || analyzingGaps.size > 0 || evaluatingGaps.size > 0;
+
+    // Turns cited by the framework analyses and the gap analyses, so the heat map shows what is still uncovered
+    const coverage = useMemo(() => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return new Map<number, string[]>();
+        const segmentSources = (state.framework?.segments ?? []).flatMap(segment => {
+            const analysis = state.segmentAnalyses.get(segment.id);
+            return analysis ? [{ id: segment.id, title: segment.title, content: analysis.content }] : [];
+        });
+        const gapSources = suggestions.flatMap(suggestion => {
+            const analysis = gapAnalyses.get(suggestion.id);
+            return analysis ? [{ id: suggestion.id, title: `Gap: ${suggestion.title}`, content: analysis.content }] : [];
+        });
+        return citationService.getCoverage([...segmentSources, ...gapSources], transcript);
+    }, [state.framework, state.segmentAnalyses, suggestions, gapAnalyses, state.structuredTranscript]);
+
+    // Keep suggestions and completed gap analyses in the session once identification finishes
+    useEffect(() => {
+        if (isIdentifying || (suggestions.length === 0 && gapAnalyses.size === 0)) return;
+
+        setGapAnalysis({
+            uncoveredThemes: [],
+            alternativePerspectives: [],
+            recommendations: [],
+            summary: identificationText,
+            suggestions,
+            analyzedGaps: gapAnalyses,
+            newSegments: [],
+            generatedAt: new Date(),
+        });
+    }, [suggestions, gapAnalyses, isIdentifying]);
+
     const handleAddCustomGap = () => {
         if (!customGap.title || !customGap.objective) {
             toast.error('Title and Objective are required');
@@ -59,19 +111,31 @@ export function Phase3_5_GapAnalysis() {
     };
 
     const identifyGaps = async () => {
-        if (!state.framework || !state.transcript) {
+        if (!state.framework || !state.structuredTranscript) {
             toast.error('Missing framework or transcript');
             return;
         }
         setIsIdentifying(true);
         setIdentificationText('');
         setSuggestions([]);
+        const signal = begin(IDENTIFY_KEY);
         try {
+            const transcript = state.structuredTranscript;
+            const analyses = Array.from(state.segmentAnalyses.values());
+
+            // A transcript too long for the gap model is summarised chunk by chunk, and gaps are found from the summary
+            const summary = gapAnalysisAgent.needsChunking(transcript, state.framework, analyses)
+                ? await plannerAgent.summarizeTranscript(transcript, signal)
+                : undefined;
+
             let fullText = '';
             for await (const chunk of gapAnalysisAgent.identifyGaps(
-                state.transcript,
+                transcript,
                 state.framework,
-                Array.from(state.segmentAnalyses.values())
+                analyses,
+                signal,
+                summary,
+                () => { fullText = ''; }
             )) {
                 fullText += chunk;
                 setIdentificationText(fullText);
@@ -84,9 +148,14 @@ export function Phase3_5_GapAnalysis() {
                 toast.success(`Identified ${parsed.length} potential gaps`);
             }
         } catch (e) {
-            console.error(e);
-            toast.error('Failed to identify gaps');
+            if (signal.aborted) {
+                toast('Gap identification stopped');
+            } else {
+                console.error(e);
+                toast.error('Failed to identify gaps');
+            }
         } finally {
+            end(IDENTIFY_KEY, signal);
             setIsIdentifying(false);
         }
     };
@@ -106,41 +175,74 @@ export function Phase3_5_GapAnalysis() {
         setStep('analyze');
         const toAnalyze = suggestions.filter(s => selectedGaps.has(s.id));
         for (const suggestion of toAnalyze) {
-            analyzeGap(suggestion);
+            analyzeGap(suggestion, 'normal');
         }
     };
 
-    const analyzeGap = async (suggestion: GapSuggestion) => {
-        if (!state.transcript) return;
+    // Queue a writer for one gap; a re-run of a single gap jumps ahead of a batch
+    const analyzeGap = async (suggestion: GapSuggestion, priority: JobPriority = 'high') => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return;
         setAnalyzingGaps(prev => new Set(prev).add(suggestion.id));
+        const signal = begin(suggestion.id);
+        const job = { id: `writer:${suggestion.id}`, name: `Gap Writer: ${suggestion.title}`, priority };
+        let content = '';
         try {
-            let content = '';
-            for await (const chunk of writerAgent.analyzeSegmentStream(
-                suggestion.id,
-                suggestion.title,
-                suggestion.objective,
-                suggestion.guidance,
-                state.transcript
-            )) {
-                content += chunk;
-                setStreamingContent(prev => new Map(prev).set(suggestion.id, content));
-            }
+            // A transcript too long for the writer model is read in chunks first
+            const evidence = writerAgent.needsChunking(suggestion.title, suggestion.objective, suggestion.guidance, transcript)
+                ? await writerAgent.gatherEvidence(suggestion.id, suggestion.title, suggestion.objective, suggestion.guidance, transcript, job, signal)
+                : undefined;
+
+            await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('writer'),
+                signal,
+                task: async () => {
+                    for await (const chunk of writerAgent.analyzeSegmentStream(
+                        suggestion.id,
+                        suggestion.title,
+                        suggestion.objective,
+                        suggestion.guidance,
+                        transcript,
+                        signal,
+                        evidence,
+                        () => { content = ''; }
+                    )) {
+                        content += chunk;
+                        setStreamingContent(prev => new Map(prev).set(suggestion.id, content));
+                    }
+                    return content;
+                },
+            });
             const analysis: SegmentAnalysis = {
                 segmentId: suggestion.id,
                 content,
                 status: 'complete',
                 generatedAt: new Date()
             };
-            setGapAnalyses(prev => new Map(prev).set(suggestion.id, analysis));
+            setGapAnalyses(prev => new Map(prev).set(suggestion.id, segmentVersionService.recordDraft(analysis, prev.get(suggestion.id))));
+        } catch (e) {
+            if (signal.aborted) {
+                // Keep the partial output so the user can edit it or run the writer again
+                if (content) {
+                    setGapAnalyses(prev => new Map(prev).set(suggestion.id, segmentVersionService.recordDraft({
+                        segmentId: suggestion.id,
+                        content,
+                        status: 'cancelled',
+                        generatedAt: new Date()
+                    }, prev.get(suggestion.id))));
+                }
+            } else {
+                console.error(e);
+                toast.error(`Failed to analyze: ${suggestion.title}`);
+            }
+        } finally {
+            end(suggestion.id, signal);
             setStreamingContent(prev => {
                 const m = new Map(prev);
                 m.delete(suggestion.id);
                 return m;
             });
-        } catch (e) {
-            console.error(e);
-            toast.error(`Failed to analyze: ${suggestion.title}`);
-        } finally {
             setAnalyzingGaps(prev => {
                 const s = new Set(prev);
                 s.delete(suggestion.id);
@@ -152,21 +254,40 @@ export function Phase3_5_GapAnalysis() {
     const launchCritic = async (gapId: string) => {
         const analysis = gapAnalyses.get(gapId);
         const suggestion = suggestions.find(s => s.id === gapId);
-        if (!analysis || !suggestion) return;
+        if (!analysis || !suggestion || !state.structuredTranscript) return;
         setEvaluatingGaps(prev => new Set(prev).add(gapId));
+        const signal = begin(`critic:${gapId}`);
         try {
-            const evalResult = await criticAgent.evaluateSegment(
-                gapId,
-                analysis.content,
-                suggestion.objective,
-                state.transcript || ''
-            );
+            const transcript = state.structuredTranscript;
+            const job = { id: `critic:${gapId}`, name: `Critic: ${suggestion.title}`, priority: 'high' as const };
+            const claimChecks = criticAgent.needsChunking(analysis.content, suggestion.objective, transcript)
+                ? await criticAgent.checkClaims(gapId, analysis.content, suggestion.objective, transcript, job, signal)
+                : undefined;
+
+            const evalResult = await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('critic'),
+                signal,
+                task: () => criticAgent.evaluateSegment(
+                    gapId,
+                    analysis.content,
+                    suggestion.objective,
+                    transcript,
+                    signal,
+                    claimChecks
+                ),
+            });
             setEvaluations(prev => new Map(prev).set(gapId, evalResult));
             toast.success('Critic evaluation complete');
         } catch (e) {
-            console.error(e);
-            toast.error('Failed to evaluate segment');
+            if (signal.aborted) {
+                toast('Evaluation stopped');
+            } else {
+                console.error(e);
+                toast.error('Failed to evaluate segment');
+            }
         } finally {
+            end(`critic:${gapId}`, signal);
             setEvaluatingGaps(prev => {
                 const s = new Set(prev);
                 s.delete(gapId);
@@ -209,13 +330,24 @@ export function Phase3_5_GapAnalysis() {
 
     return (
         <div className="min-h-screen bg-solita-light-grey pb-24">
-            <div className="container mx-auto px-6 py-12 max-w-5xl">
+            <div className="container mx-auto px-6 py-12 max-w-7xl">
                 {/* Header */}
                 <div className="mb-8">
-                    <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3 mb-3">
-                        <Search className="w-9 h-9 text-solita-ochre" />
-                        Phase 4: Gap Analysis
-                    </h1>
+                    <div className="flex items-center justify-between mb-3">
+                        <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3">
+                            <Search className="w-9 h-9 text-solita-ochre" />
+                            Phase 4: Gap Analysis
+                        </h1>
+                        {isRunning && (
+                            <button
+                                onClick={stopAll}
+                                className="px-4 py-2 bg-white border border-solita-red/40 hover:bg-solita-red/10 text-solita-red rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Square className="w-4 h-4" />
+                                Stop All Agents
+                            </button>
+                        )}
+                    </div>
                     <p className="text-base text-solita-dark-grey">
                         Identify and analyze unexplored themes from the transcript
                     </p>
@@ -292,7 +424,7 @@ export function Phase3_5_GapAnalysis() {
                                         <Plus className="w-5 h-5" /> Add Custom Gap
                                     </button>
                                     <button onClick={proceedToNextPhase} className="px-6 py-3 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-smooth flex items-center gap-2">
-                                        Skip to Consolidation <ArrowRight className="w-5 h-5" />
+                                        Skip to {nextPhaseLabel} <ArrowRight className="w-5 h-5" />
                                     </button>
                                 </div>
                             </div>
@@ -301,9 +433,17 @@ export function Phase3_5_GapAnalysis() {
                         {/* Loading state */}
                         {isIdentifying && (
                             <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
-                                <h2 className="text-lg font-semibold text-solita-black mb-4 flex items-center gap-2">
-                                    <Sparkles className="w-5 h-5 text-solita-ochre" /> Analyzing Coverage
-                                </h2>
+                                <div className="flex items-center justify-between mb-4">
+                                    <h2 className="text-lg font-semibold text-solita-black flex items-center gap-2">
+                                        <Sparkles className="w-5 h-5 text-solita-ochre" /> Analyzing Coverage
+                                    </h2>
+                                    <button
+                                        onClick={() => stop(IDENTIFY_KEY)}
+                                        className="px-3 py-1.5 bg-white border border-solita-light-grey hover:border-solita-red hover:text-solita-red text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                                    >
+                                        <Square className="w-3.5 h-3.5" /> Stop
+                                    </button>
+                                </div>
                                 <div className="relative">
                                     <StreamingOutput
                                         content={identificationText}
@@ -350,7 +490,7 @@ export function Phase3_5_GapAnalysis() {
                                             <Plus className="w-4 h-4" /> Add Custom Gap
                                         </button>
                                         <button onClick={proceedToNextPhase} className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-smooth flex items-center gap-2">
-                                            Skip to Consolidation <ArrowRight className="w-4 h-4" />
+                                            Skip to {nextPhaseLabel} <ArrowRight className="w-4 h-4" />
                                         </button>
                                     </div>
                                     <button onClick={analyzeSelectedGaps} disabled={selectedGaps.size === 0} className="px-6 py-3 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-smooth hover-lift button-press flex items-center gap-2">
@@ -365,45 +505,69 @@ export function Phase3_5_GapAnalysis() {
                 {/* Analyze Step */}
                 {step === 'analyze' && (
                     <>
-                        <div className="space-y-6 mb-6">
-                            {suggestions.filter(s => selectedGaps.has(s.id)).map(suggestion => {
-                                const analysis = gapAnalyses.get(suggestion.id);
-                                const streaming = streamingContent.get(suggestion.id);
-                                const isAnalyzing = analyzingGaps.has(suggestion.id);
-                                const evaluation = evaluations.get(suggestion.id);
-                                const isEvaluating = evaluatingGaps.has(suggestion.id);
-                                return (
-                                    <SegmentCard
-                                        key={suggestion.id}
-                                        suggestion={suggestion}
-                                        analysis={analysis}
-                                        streaming={streaming}
-                                        isAnalyzing={isAnalyzing}
-                                        evaluation={evaluation}
-                                        isEvaluating={isEvaluating}
-                                        onAnalysisChange={content => {
-                                            const newMap = new Map(gapAnalyses);
-                                            const existing = newMap.get(suggestion.id);
-                                            if (existing) {
-                                                newMap.set(suggestion.id, { ...existing, content });
-                                            } else {
-                                                newMap.set(suggestion.id, { segmentId: suggestion.id, content, status: 'complete', generatedAt: new Date() });
-                                            }
-                                            setGapAnalyses(newMap);
-                                        }}
-                                        onLaunchCritic={() => launchCritic(suggestion.id)}
-                                        onAddToMain={() => addToMain(suggestion.id)}
-                                        showAddButton={true}
-                                    />
-                                );
-                            })}
+                        {isRunning && (
+                            <div className="mb-6">
+                                <AgentVisualizer />
+                            </div>
+                        )}
+                        <div className="flex gap-6 items-start mb-6">
+                            <div className="flex-1 min-w-0 space-y-6">
+                                {suggestions.filter(s => selectedGaps.has(s.id)).map(suggestion => {
+                                    const analysis = gapAnalyses.get(suggestion.id);
+                                    const streaming = streamingContent.get(suggestion.id);
+                                    const isAnalyzing = analyzingGaps.has(suggestion.id);
+                                    const evaluation = evaluations.get(suggestion.id);
+                                    const isEvaluating = evaluatingGaps.has(suggestion.id);
+                                    return (
+                                        <SegmentCard
+                                            key={suggestion.id}
+                                            suggestion={suggestion}
+                                            analysis={analysis}
+                                            streaming={streaming}
+                                            isAnalyzing={isAnalyzing}
+                                            evaluation={evaluation}
+                                            isEvaluating={isEvaluating}
+                                            onAnalysisChange={content => {
+                                                const newMap = new Map(gapAnalyses);
+                                                const existing = newMap.get(suggestion.id);
+                                                if (existing) {
+                                                    newMap.set(suggestion.id, segmentVersionService.recordEdit(existing, content));
+                                                } else {
+                                                    newMap.set(suggestion.id, { segmentId: suggestion.id, content, status: 'complete', generatedAt: new Date() });
+                                                }
+                                                setGapAnalyses(newMap);
+                                            }}
+                                            onLaunchCritic={() => launchCritic(suggestion.id)}
+                                            onAddToMain={() => addToMain(suggestion.id)}
+                                            showAddButton={true}
+                                            onStop={() => stop(suggestion.id, `critic:${suggestion.id}`)}
+                                            onReanalyze={() => analyzeGap(suggestion)}
+                                            transcript={state.structuredTranscript}
+                                            onShowEvidence={setEvidenceFocus}
+                                            onRevertVersion={(versionId) => {
+                                                const existing = gapAnalyses.get(suggestion.id);
+                                                if (existing) {
+                                                    setGapAnalyses(new Map(gapAnalyses).set(suggestion.id, segmentVersionService.revert(existing, versionId)));
+                                                }
+                                            }}
+                                        />
+                                    );
+                                })}
+                            </div>
+                            {state.structuredTranscript && (
+                                <TranscriptViewer
+                                    transcript={state.structuredTranscript}
+                                    coverage={coverage}
+                                    focus={evidenceFocus}
+                                />
+                            )}
                         </div>
                         <div className="flex justify-between">
                             <button onClick={() => setStep('identify')} className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-smooth flex items-center gap-2">
                                 <ArrowLeft className="w-4 h-4" /> Back to Identification
                             </button>
                             <button onClick={proceedToNextPhase} className="px-6 py-3 bg-solita-ochre hover:bg-solita-ochre/90 text-white rounded-lg transition-smooth hover-lift button-press flex items-center gap-2">
-                                Proceed to Consolidation <ArrowRight className="w-5 h-5" />
+                                Proceed to {nextPhaseLabel} <ArrowRight className="w-5 h-5" />
                             </button>
                         </div>
                     </>
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { useAnalysisContext } from '../contexts/AnalysisContext';
+import { usePhaseNavigation } from '../hooks/usePhaseNavigation';
+import { ElegantLoader } from '../components/ElegantLoader';
+import { synthesisAgent } from '../services/synthesis.agent';
+import { SegmentSynthesis } from '../types/phases';
+import { Users, ArrowRight, ArrowLeft, Play, RefreshCw, Check, Minus } from 'lucide-react';
+import { StandardTextArea } from '../components/ui/StandardTextArea';
+import { StreamingOutput } from '../components/ui/StreamingOutput';
+import toast from 'react-hot-toast';
+import { GuidedHint } from '../components/GuidedHint';
+import { PHASE_HINTS } from '../constants/hints';
+
+export function Phase3_6_Synthesis() {
+    const { state, setSynthesis } = useAnalysisContext();
+    const { proceedToNextPhase, goToPreviousPhase, canGoBack } = usePhaseNavigation();
+
+    const [syntheses, setSyntheses] = useState<Map<string, SegmentSynthesis>>(state.synthesis);
+    const [isSynthesizing, setIsSynthesizing] = useState(false);
+    const [synthesizingSegments, setSynthesizingSegments] = useState<Set<string>>(new Set());
+    const [streamingContent, setStreamingContent] = useState<Map<string, string>>(new Map());
+
+    const segments = state.framework?.segments || [];
+    const transcripts = state.transcripts;
+
+    // Completed analyses of a segment, one per interview that has one
+    const getInterviewAnalyses = (segmentId: string) => transcripts.flatMap(entry => {
+        const analysis = entry.segmentAnalyses.get(segmentId);
+        return analysis && analysis.status === 'complete' && analysis.content
+            ? [{ transcriptId: entry.id, name: entry.name, content: analysis.content }]
+            : [];
+    });
+
+    const comparableSegments = segments.filter(segment => getInterviewAnalyses(segment.id).length > 1);
+
+    const launchSynthesis = async () => {
+        if (comparableSegments.length === 0) {
+            toast.error('Analyze at least two interviews before running synthesis');
+            return;
+        }
+
+        setIsSynthesizing(true);
+        setSynthesizingSegments(new Set(comparableSegments.map(s => s.id)));
+        setStreamingContent(new Map());
+
+        try {
+            // Synthesize every comparable segment in parallel with streaming
+            const results = await Promise.all(comparableSegments.map(async (segment) => {
+                const analyses = getInterviewAnalyses(segment.id);
+                let content = '';
+
+                for await (const chunk of synthesisAgent.synthesizeSegmentStream(segment, analyses, undefined, () => { content = ''; })) {
+                    content += chunk;
+                    setStreamingContent(prev => new Map(prev).set(segment.id, content));
+                }
+
+                setSynthesizingSegments(prev => {
+                    const next = new Set(prev);
+                    next.delete(segment.id);
+                    return next;
+                });
+
+                return {
+                    segmentId: segment.id,
+                    content: content.trim(),
+                    transcriptIds: analyses.map(a => a.transcriptId),
+                    generatedAt: new Date(),
+                };
+            }));
+
+            const newSyntheses = new Map(results.map(result => [result.segmentId, result]));
+            setSyntheses(newSyntheses);
+            setSynthesis(Array.from(newSyntheses.values()));
+            toast.success('Cross-interview synthesis complete!');
+        } catch (error) {
+            console.error('Synthesis failed:', error);
+            toast.error('Synthesis failed. Check the log panel.');
+        } finally {
+            setIsSynthesizing(false);
+            setSynthesizingSegments(new Set());
+            setStreamingContent(new Map());
+        }
+    };
+
+    const updateSynthesis = (segmentId: string, content: string) => {
+        const existing = syntheses.get(segmentId);
+        if (!existing) return;
+
+        const next = new Map(syntheses).set(segmentId, { ...existing, content });
+        setSyntheses(next);
+        setSynthesis(Array.from(next.values()));
+    };
+
+    return (
+        <div className="min-h-screen bg-solita-light-grey pb-24">
+            <div className="container mx-auto px-6 py-12 max-w-6xl">
+                {/* Header */}
+                <div className="mb-8">
+                    <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3 mb-3">
+                        <Users className="w-9 h-9 text-solita-ochre" />
+                        Cross-Interview Synthesis
+                    </h1>
+                    <p className="text-base text-solita-dark-grey">
+                        Compare each segment across {transcripts.length} interviews to find recurring and divergent themes
+                    </p>
+                </div>
+
+                {/* Guided Hint */}
+                <GuidedHint
+                    hintId={PHASE_HINTS.phase3_6.synthesis.id}
+                    title={PHASE_HINTS.phase3_6.synthesis.title}
+                    description={PHASE_HINTS.phase3_6.synthesis.description}
+                />
+
+                {/* Coverage Matrix */}
+                <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm overflow-x-auto">
+                    <h2 className="text-lg font-semibold text-solita-black mb-4">Analysis Coverage</h2>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-solita-mid-grey">
+                                <th className="py-2 pr-4 font-medium">Segment</th>
+                                {transcripts.map(entry => (
+                                    <th key={entry.id} className="py-2 px-2 font-medium text-center whitespace-nowrap">{entry.name}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {segments.map(segment => (
+                                <tr key={segment.id} className="border-t border-solita-light-grey">
+                                    <td className="py-2 pr-4 text-solita-black">{segment.title}</td>
+                                    {transcripts.map(entry => (
+                                        <td key={entry.id} className="py-2 px-2 text-center">
+                                            {entry.segmentAnalyses.get(segment.id)?.status === 'complete' ? (
+                                                <Check className="w-4 h-4 text-solita-green mx-auto" />
+                                            ) : (
+                                                <Minus className="w-4 h-4 text-solita-mid-grey mx-auto" />
+                                            )}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="mt-6 flex items-center justify-between gap-4">
+                        <p className="text-sm text-solita-dark-grey">
+                            {comparableSegments.length} of {segments.length} segments have analyses from two or more interviews
+                        </p>
+                        <button
+                            onClick={launchSynthesis}
+                            disabled={isSynthesizing || comparableSegments.length === 0}
+                            className="px-6 py-3 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2"
+                        >
+                            {isSynthesizing ? (
+                                <ElegantLoader message="Synthesizing..." size="sm" />
+                            ) : syntheses.size > 0 ? (
+                                <>
+                                    <RefreshCw className="w-5 h-5" />
+                                    Re-run Synthesis
+                                </>
+                            ) : (
+                                <>
+                                    <Play className="w-5 h-5" />
+                                    Run Synthesis
+                                </>
+                            )}
+                        </button>
+                    </div>
+                </div>
+
+                {/* Segment Syntheses */}
+                <div className="space-y-6 mb-6">
+                    {comparableSegments.map(segment => {
+                        const synthesis = syntheses.get(segment.id);
+                        const streaming = streamingContent.get(segment.id);
+                        const isStreaming = synthesizingSegments.has(segment.id);
+
+                        if (!synthesis && streaming === undefined) return null;
+
+                        return (
+                            <div key={segment.id} className="bg-white border border-solita-light-grey rounded-lg p-6 shadow-sm">
+                                <h3 className="text-lg font-semibold text-solita-black mb-1">{segment.title}</h3>
+                                <p className="text-sm text-solita-dark-grey mb-4">{segment.objective}</p>
+                                {streaming !== undefined ? (
+                                    <StreamingOutput content={streaming} isStreaming={isStreaming} label="Synthesis" />
+                                ) : synthesis && (
+                                    <StandardTextArea
+                                        label={`Compared across ${synthesis.transcriptIds.length} interviews`}
+                                        value={synthesis.content}
+                                        onChange={(e) => updateSynthesis(segment.id, e.target.value)}
+                                        rows={12}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Navigation Buttons */}
+                <div className="flex justify-between gap-4">
+                    {canGoBack && (
+                        <button
+                            onClick={goToPreviousPhase}
+                            className="px-6 py-3 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2"
+                        >
+                            <ArrowLeft className="w-5 h-5" />
+                            Back to Gap Analysis
+                        </button>
+                    )}
+                    <button
+                        onClick={proceedToNextPhase}
+                        disabled={isSynthesizing}
+                        className="ml-auto px-6 py-3 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2"
+                    >
+                        Proceed to Coding
+                        <ArrowRight className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,466 @@
+import { useMemo, useRef, useState } from 'react';
+import { useAnalysisContext } from '../contexts/AnalysisContext';
+import { usePhaseNavigation } from '../hooks/usePhaseNavigation';
+import { useCancellation } from '../hooks/useCancellation';
+import { ElegantLoader } from '../components/ElegantLoader';
+import { AgentVisualizer } from '../components/AgentVisualizer';
+import { CodebookEditor } from '../components/CodebookEditor';
+import { CodedExcerptList } from '../components/CodedExcerptList';
+import { codingAgent } from '../services/coding.agent';
+import { codebookService } from '../services/codebook.service';
+import { refiQdaService } from '../services/refi-qda.service';
+import { agentOrchestrator } from '../services/agent.orchestrator';
+import { settingsService } from '../services/settings.service';
+import { Code, CodedExcerpt, CodingStatus } from '../types/phases';
+import { Transcript } from '../types';
+import { Tags, ArrowRight, ArrowLeft, Play, Sparkles, Plus, Upload, Download, Square, PackageOpen } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GuidedHint } from '../components/GuidedHint';
+import { PHASE_HINTS } from '../constants/hints';
+
+// Cancellation key for proposing a codebook
+const PROPOSE_KEY = 'codebook';
+
+const STATUS_FILTERS: { value: CodingStatus | 'all'; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'suggested', label: 'To review' },
+    { value: 'accepted', label: 'Accepted' },
+    { value: 'rejected', label: 'Rejected' },
+];
+
+interface Interview {
+    id: string;
+    name: string;
+    transcript: Transcript;
+}
+
+export function Phase3_7_Coding() {
+    const { state, setCodebook, setCodedExcerpts } = useAnalysisContext();
+    const { proceedToNextPhase, goToPreviousPhase, canGoBack } = usePhaseNavigation();
+    const { begin, end, stop, stopAll } = useCancellation();
+
+    const [isProposing, setIsProposing] = useState(false);
+    const [codingIds, setCodingIds] = useState<Set<string>>(new Set());
+    const [codeFilter, setCodeFilter] = useState<string>('all');
+    const [statusFilter, setStatusFilter] = useState<CodingStatus | 'all'>('all');
+
+    // Sessions from before projects have a single transcript and no project entries
+    const interviews = useMemo<Interview[]>(() => state.transcripts.length > 0
+        ? state.transcripts.map(entry => ({ id: entry.id, name: entry.name, transcript: entry.transcript }))
+        : state.structuredTranscript ? [{ id: state.structuredTranscript.id, name: 'Transcript', transcript: state.structuredTranscript }] : [],
+    [state.transcripts, state.structuredTranscript]);
+    const [selectedId, setSelectedId] = useState<string | undefined>(() => state.activeTranscriptId ?? interviews[0]?.id);
+    const selected = interviews.find(entry => entry.id === selectedId) ?? interviews[0];
+
+    const codebook = state.codebook;
+    const isRunning = isProposing || codingIds.size > 0;
+
+    // Latest codings for merging results of coding runs that outlive the render they started in
+    const excerptsRef = useRef(state.codedExcerpts);
+    excerptsRef.current = state.codedExcerpts;
+
+    const counts = useMemo(() => {
+        const result = new Map<string, Record<CodingStatus, number>>();
+        codebook.forEach(code => result.set(code.id, { suggested: 0, accepted: 0, rejected: 0 }));
+        state.codedExcerpts.forEach(excerpt => {
+            const count = result.get(excerpt.codeId);
+            if (count) count[excerpt.status]++;
+        });
+        return result;
+    }, [codebook, state.codedExcerpts]);
+
+    const visibleExcerpts = selected
+        ? state.codedExcerpts.filter(excerpt => excerpt.transcriptId === selected.id
+            && (codeFilter === 'all' || excerpt.codeId === codeFilter)
+            && (statusFilter === 'all' || excerpt.status === statusFilter))
+        : [];
+    const toReview = selected
+        ? state.codedExcerpts.filter(excerpt => excerpt.transcriptId === selected.id && excerpt.status === 'suggested').length
+        : 0;
+
+    const proposeCodebook = async () => {
+        if (!selected) return;
+
+        setIsProposing(true);
+        const signal = begin(PROPOSE_KEY);
+        try {
+            const proposed = await agentOrchestrator.runAgent({
+                id: `coding:codebook:${selected.id}`,
+                name: `Codebook: ${selected.name}`,
+                model: settingsService.getAgentModel('coding'),
+                priority: 'high',
+                signal,
+                task: () => codingAgent.proposeCodebook(selected.transcript, state.plannerOutput?.analysisObjective, signal),
+            });
+            const merged = codebookService.merge(codebook, proposed);
+            setCodebook(merged);
+            toast.success(`Added ${merged.length - codebook.length} proposed codes`);
+        } catch (error) {
+            if (signal.aborted) {
+                toast('Codebook proposal stopped');
+            } else {
+                console.error('Codebook proposal failed:', error);
+                toast.error('Codebook proposal failed. Check the log panel.');
+            }
+        } finally {
+            end(PROPOSE_KEY, signal);
+            setIsProposing(false);
+        }
+    };
+
+    const importCodebook = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.json,.csv,.qdc,.qde,application/json,text/csv';
+        input.onchange = async (e) => {
+            const file = (e.target as HTMLInputElement).files?.[0];
+            if (!file) return;
+            try {
+                const imported = codebookService.parseImport(await file.text(), file.name);
+                const merged = codebookService.merge(codebook, imported);
+                setCodebook(merged);
+                const skipped = imported.length - (merged.length - codebook.length);
+                toast.success(`Imported ${merged.length - codebook.length} codes${skipped > 0 ? `, skipped ${skipped} already in the codebook` : ''}`);
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : 'Failed to import codebook');
+            }
+        };
+        input.click();
+    };
+
+    const exportCodebook = () => {
+        const blob = new Blob([codebookService.toJson(codebook)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `codebook-${new Date().toISOString().slice(0, 10)}.json`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    // REFI-QDA project for NVivo, ATLAS.ti, MAXQDA and similar tools
+    const exportRefiQda = () => {
+        const accepted = state.codedExcerpts.filter(excerpt => excerpt.status === 'accepted').length;
+        const blob = refiQdaService.exportProject(state, interviews);
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = refiQdaService.getFileName(state);
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        toast.success(`Exported ${interviews.length} transcripts and ${accepted} accepted codings`);
+    };
+
+    const updateCode = (code: Code) => {
+        setCodebook(codebook.map(existing => existing.id === code.id ? code : existing));
+    };
+
+    // Removing a code also removes its codings
+    const removeCode = (codeId: string) => {
+        const code = codebook.find(existing => existing.id === codeId);
+        const codings = state.codedExcerpts.filter(excerpt => excerpt.codeId === codeId).length;
+        if (codings > 0 && !confirm(`Remove "${code?.name}" and its ${codings} codings?`)) return;
+
+        setCodebook(codebook.filter(existing => existing.id !== codeId));
+        setCodedExcerpts(state.codedExcerpts.filter(excerpt => excerpt.codeId !== codeId));
+        if (codeFilter === codeId) setCodeFilter('all');
+    };
+
+    const codeInterview = async (interview: Interview) => {
+        const usable = codebook.filter(code => code.name.trim() && code.definition.trim());
+        if (usable.length === 0) {
+            toast.error('Add at least one code with a name and definition first');
+            return;
+        }
+
+        const key = `coding:${interview.id}`;
+        setCodingIds(prev => new Set(prev).add(interview.id));
+        const signal = begin(key);
+        try {
+            const fresh = await codingAgent.codeTranscript(
+                interview.id,
+                interview.transcript,
+                usable,
+                { id: key, name: `Coding: ${interview.name}`, group: interview.id },
+                signal
+            );
+            setCodedExcerpts(codebookService.mergeCodings(excerptsRef.current, interview.id, fresh));
+            toast.success(`${fresh.length} codings suggested for ${interview.name}`);
+        } catch (error) {
+            if (signal.aborted) {
+                toast('Coding stopped');
+            } else {
+                console.error('Coding failed:', error);
+                toast.error('Coding failed. Check the log panel.');
+            }
+        } finally {
+            end(key, signal);
+            setCodingIds(prev => {
+                const next = new Set(prev);
+                next.delete(interview.id);
+                return next;
+            });
+        }
+    };
+
+    // A review decision updates the coding and feeds the turn back into the code's examples
+    const reviewExcerpt = (excerpt: CodedExcerpt, status: CodingStatus) => {
+        const interview = interviews.find(entry => entry.id === excerpt.transcriptId);
+        const turn = interview?.transcript.turns[excerpt.turnIndex];
+
+        setCodedExcerpts(state.codedExcerpts.map(existing => existing.id === excerpt.id
+            ? { ...existing, status, reviewedAt: status === 'suggested' ? undefined : new Date() }
+            : existing));
+        if (turn) {
+            setCodebook(codebookService.applyReview(codebook, excerpt, turn.text, status));
+        }
+    };
+
+    const acceptAllShown = () => {
+        const shown = visibleExcerpts.filter(excerpt => excerpt.status === 'suggested');
+        let updated = codebook;
+        shown.forEach(excerpt => {
+            const turn = selected?.transcript.turns[excerpt.turnIndex];
+            if (turn) updated = codebookService.applyReview(updated, excerpt, turn.text, 'accepted');
+        });
+        const ids = new Set(shown.map(excerpt => excerpt.id));
+        setCodedExcerpts(state.codedExcerpts.map(excerpt => ids.has(excerpt.id)
+            ? { ...excerpt, status: 'accepted', reviewedAt: new Date() }
+            : excerpt));
+        setCodebook(updated);
+    };
+
+    return (
+        <div className="min-h-screen bg-solita-light-grey pb-24">
+            <div className="container mx-auto px-6 py-12 max-w-6xl">
+                {/* Header */}
+                <div className="mb-8">
+                    <div className="flex items-center justify-between mb-3">
+                        <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3">
+                            <Tags className="w-9 h-9 text-solita-ochre" />
+                            Qualitative Coding
+                        </h1>
+                        {isRunning && (
+                            <button
+                                onClick={stopAll}
+                                className="px-4 py-2 bg-white border border-solita-red/40 hover:bg-solita-red/10 text-solita-red rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Square className="w-4 h-4" />
+                                Stop All Agents
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-base text-solita-dark-grey">
+                        Build a codebook and apply it to individual speaker turns
+                    </p>
+                </div>
+
+                {/* Guided Hint */}
+                <GuidedHint
+                    hintId={PHASE_HINTS.phase3_7.coding.id}
+                    title={PHASE_HINTS.phase3_7.coding.title}
+                    description={PHASE_HINTS.phase3_7.coding.description}
+                />
+
+                {/* Codebook */}
+                <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <h2 className="text-lg font-semibold text-solita-black">
+                            Codebook <span className="text-sm font-normal text-solita-mid-grey">{codebook.length} codes</span>
+                        </h2>
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={proposeCodebook}
+                                disabled={isRunning || !selected}
+                                className="px-4 py-2 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                {isProposing ? (
+                                    <ElegantLoader message="Proposing..." size="sm" />
+                                ) : (
+                                    <>
+                                        <Sparkles className="w-4 h-4" />
+                                        Propose from {selected?.name ?? 'Transcript'}
+                                    </>
+                                )}
+                            </button>
+                            <button
+                                onClick={importCodebook}
+                                className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                <Upload className="w-4 h-4" />
+                                Import
+                            </button>
+                            <button
+                                onClick={exportCodebook}
+                                disabled={codebook.length === 0}
+                                className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre disabled:opacity-60 text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                <Download className="w-4 h-4" />
+                                Export
+                            </button>
+                            <button
+                                onClick={() => setCodebook([...codebook, codebookService.createCode({ name: 'New code', definition: '' }, 'manual')])}
+                                className="px-4 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add Code
+                            </button>
+                        </div>
+                    </div>
+
+                    {codebook.length > 0 ? (
+                        <CodebookEditor
+                            codebook={codebook}
+                            counts={counts}
+                            onChange={updateCode}
+                            onRemove={removeCode}
+                        />
+                    ) : (
+                        <p className="text-sm text-solita-dark-grey">
+                            No codes yet. Propose a codebook from the transcript, import one as JSON, CSV (columns: name, definition, include, exclude, examples) or a REFI-QDA .qdc codebook, or add codes by hand.
+                        </p>
+                    )}
+                </div>
+
+                {/* Agent Queue */}
+                {isRunning && (
+                    <div className="mb-6">
+                        <AgentVisualizer />
+                    </div>
+                )}
+
+                {/* Coding and Review */}
+                {selected && (
+                    <div className="bg-white border border-solita-light-grey rounded-lg p-6 mb-6 shadow-sm">
+                        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                            <h2 className="text-lg font-semibold text-solita-black">Coded Excerpts</h2>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={exportRefiQda}
+                                    disabled={codebook.length === 0}
+                                    className="px-3 py-2 bg-white border border-solita-light-grey hover:border-solita-ochre disabled:opacity-60 text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                                    title="Transcripts, codebook and accepted codings as a .qdpx project for NVivo, ATLAS.ti or MAXQDA"
+                                >
+                                    <PackageOpen className="w-4 h-4" /> Export REFI-QDA
+                                </button>
+                                {codingIds.has(selected.id) && (
+                                    <button
+                                        onClick={() => stop(`coding:${selected.id}`)}
+                                        className="px-3 py-2 bg-white border border-solita-light-grey hover:border-solita-red hover:text-solita-red text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                                    >
+                                        <Square className="w-3.5 h-3.5" /> Stop
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => codeInterview(selected)}
+                                    disabled={codingIds.has(selected.id) || codebook.length === 0}
+                                    className="px-4 py-2 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 text-sm"
+                                >
+                                    {codingIds.has(selected.id) ? (
+                                        <ElegantLoader message="Coding..." size="sm" />
+                                    ) : (
+                                        <>
+                                            <Play className="w-4 h-4" />
+                                            Code {selected.name}
+                                        </>
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Interviews */}
+                        {interviews.length > 1 && (
+                            <div className="flex flex-wrap gap-2 mb-4">
+                                {interviews.map(entry => {
+                                    const pending = state.codedExcerpts.filter(excerpt => excerpt.transcriptId === entry.id && excerpt.status === 'suggested').length;
+                                    return (
+                                        <button
+                                            key={entry.id}
+                                            onClick={() => setSelectedId(entry.id)}
+                                            className={`px-3 py-1.5 rounded-lg text-sm transition-colors flex items-center gap-2 ${entry.id === selected.id
+                                                ? 'bg-solita-ochre text-white'
+                                                : 'bg-solita-light-grey text-solita-dark-grey hover:bg-solita-ochre/10'
+                                                }`}
+                                        >
+                                            {entry.name}
+                                            {pending > 0 && <span className={`text-xs ${entry.id === selected.id ? 'text-white/80' : 'text-solita-mid-grey'}`}>{pending} to review</span>}
+                                            {codingIds.has(entry.id) && <ElegantLoader size="sm" />}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+
+                        {/* Filters */}
+                        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                            <select
+                                value={codeFilter}
+                                onChange={(e) => setCodeFilter(e.target.value)}
+                                className="px-3 py-1.5 border border-solita-light-grey rounded-lg focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                            >
+                                <option value="all">All codes</option>
+                                {codebook.map(code => (
+                                    <option key={code.id} value={code.id}>{code.name}</option>
+                                ))}
+                            </select>
+                            <div className="flex gap-1">
+                                {STATUS_FILTERS.map(filter => (
+                                    <button
+                                        key={filter.value}
+                                        onClick={() => setStatusFilter(filter.value)}
+                                        className={`px-3 py-1.5 rounded-lg transition-colors ${statusFilter === filter.value
+                                            ? 'bg-solita-ochre/10 text-solita-ochre'
+                                            : 'text-solita-dark-grey hover:bg-solita-light-grey/50'
+                                            }`}
+                                    >
+                                        {filter.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <span className="text-solita-mid-grey">{toReview} to review</span>
+                            <button
+                                onClick={acceptAllShown}
+                                disabled={!visibleExcerpts.some(excerpt => excerpt.status === 'suggested')}
+                                className="ml-auto px-3 py-1.5 border border-solita-light-grey hover:border-solita-green disabled:opacity-60 text-solita-dark-grey rounded-lg transition-colors"
+                            >
+                                Accept All Shown
+                            </button>
+                        </div>
+
+                        <CodedExcerptList
+                            excerpts={visibleExcerpts}
+                            transcript={selected.transcript}
+                            codebook={codebook}
+                            onReview={reviewExcerpt}
+                        />
+                    </div>
+                )}
+
+                {/* Navigation Buttons */}
+                <div className="flex justify-between gap-4">
+                    {canGoBack && (
+                        <button
+                            onClick={goToPreviousPhase}
+                            className="px-6 py-3 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2"
+                        >
+                            <ArrowLeft className="w-5 h-5" />
+                            Back to {state.transcripts.length > 1 ? 'Synthesis' : 'Gap Analysis'}
+                        </button>
+                    )}
+                    <button
+                        onClick={proceedToNextPhase}
+                        disabled={isRunning}
+                        className="ml-auto px-6 py-3 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2"
+                    >
+                        Proceed to Consolidation
+                        <ArrowRight className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,19 +1,47 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo, useReducer, useRef } from 'react';
 import { useAnalysisContext } from '../contexts/AnalysisContext';
 import { usePhaseNavigation } from '../hooks/usePhaseNavigation';
 import { ElegantLoader } from '../components/ElegantLoader';
 import { SegmentCard } from '../components/SegmentCard';
 import { writerAgent } from '../services/writer.agent';
 import { criticAgent } from '../services/critic.agent';
-import { SegmentAnalysis, CriticEvaluation } from '../types/phases';
-import { Lightbulb, ArrowRight, ArrowLeft, Play } from 'lucide-react';
+import { useCancellation } from '../hooks/useCancellation';
+import { agentOrchestrator, JobPriority } from '../services/agent.orchestrator';
+import { settingsService } from '../services/settings.service';
+import { AgentVisualizer } from '../components/AgentVisualizer';
+import { PreflightCheck, PreflightRow } from '../components/PreflightCheck';
+import { tokenEstimatorService } from '../services/token-estimator.service';
+import { citationService } from '../services/citation.service';
+import { autoRefineService, RefineStep } from '../services/auto-refine.service';
+import { segmentVersionService } from '../services/segment-version.service';
+import { criticPanelService } from '../services/critic-panel.service';
+import { AutoRefineSettings } from '../services/settings.service';
+import { TranscriptViewer } from '../components/TranscriptViewer';
+import { SegmentAnalysis, CriticEvaluation, FrameworkSegment, RefineIteration, Scorecard } from '../types/phases';
+import { EvidenceLocation, Transcript } from '../types';
+import { Lightbulb, ArrowRight, ArrowLeft, Play, Users, Square, Repeat, ClipboardCheck } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { GuidedHint } from '../components/GuidedHint';
 import { PHASE_HINTS } from '../constants/hints';
 
+// Cancellation key for analyzing the project's other interviews
+const BATCH_KEY = 'batch';
+
+// Copy of a set with the id added or removed
+const withMember = (set: Set<string>, id: string, present: boolean): Set<string> => {
+    const next = new Set(set);
+    if (present) {
+        next.add(id);
+    } else {
+        next.delete(id);
+    }
+    return next;
+};
+
 export function Phase3_InsightExtraction() {
-    const { state, setPhase3Data } = useAnalysisContext();
+    const { state, setPhase3Data, setCriticEvaluation, setRubricSelection, setActiveTranscript, setTranscriptAnalyses } = useAnalysisContext();
     const { proceedToNextPhase, goToPreviousPhase, canGoBack, skipToConsolidation, canProceed } = usePhaseNavigation();
+    const { begin, end, stop, stopAll } = useCancellation();
 
     const [analyses, setAnalyses] = useState<Map<string, SegmentAnalysis>>(state.segmentAnalyses);
     const [criticEvaluations, setCriticEvaluations] = useState<Map<string, CriticEvaluation>>(state.criticEvaluations);
@@ -22,11 +50,139 @@ export function Phase3_InsightExtraction() {
     const [streamingContent, setStreamingContent] = useState<Map<string, string>>(new Map());
     const [evaluatingSegments, setEvaluatingSegments] = useState<Set<string>>(new Set());
     const [rewritingSegments, setRewritingSegments] = useState<Set<string>>(new Set());
+    const [refiningSegments, setRefiningSegments] = useState<Set<string>>(new Set());
+    const [scoringSegments, setScoringSegments] = useState<Set<string>>(new Set());
+    const [autoRefine, setAutoRefine] = useState<AutoRefineSettings>(() => settingsService.getAutoRefine());
+    const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+    const [chunkTranscript, setChunkTranscript] = useState(false);
+    const [evidenceFocus, setEvidenceFocus] = useState<EvidenceLocation>();
+    const [, refreshSettings] = useReducer((count: number) => count + 1, 0);
 
     const segments = state.framework?.segments || [];
+    const otherTranscripts = state.transcripts.filter(entry => entry.id !== state.activeTranscriptId);
+    const isBusy = isAnalyzing || batchProgress !== null;
+    const isRunning = isBusy || analyzingSegments.size > 0 || evaluatingSegments.size > 0 || rewritingSegments.size > 0 || refiningSegments.size > 0 || scoringSegments.size > 0;
+
+    // Rubrics are edited in Settings; which of them run is chosen per analysis
+    const rubrics = settingsService.getRubrics();
+    const selectedRubrics = criticPanelService.getSelected(rubrics, state.rubricIds);
+
+    // Latest analyses for merging results of work that outlives the render it started in
+    const analysesRef = useRef(analyses);
+    analysesRef.current = analyses;
+
+    // Size each writer prompt against the writer model's context window before anything is sent
+    // Read on every render so a model changed in Settings is picked up
+    const provider = settingsService.getProvider();
+    const writerModel = settingsService.getAgentModel('writer');
+    const preflight = useMemo<PreflightRow[]>(() => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return [];
+        return segments.map(segment => {
+            const { systemPrompt, userPrompt } = writerAgent.buildAnalyzeSegmentPrompt(segment.title, segment.objective, segment.guidance, transcript);
+            return {
+                id: segment.id,
+                title: segment.title,
+                fit: tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, provider, writerModel),
+            };
+        });
+    }, [segments, state.structuredTranscript, provider, writerModel]);
+    const overflowing = new Set(preflight.filter(row => row.fit.status === 'over').map(row => row.id));
+    const largestPrompt = Math.max(0, ...preflight.map(row => row.fit.tokens));
+    const largerModels = overflowing.size > 0
+        ? settingsService.getAvailableModels().filter(model => tokenEstimatorService.checkFit(largestPrompt, provider, model.id).status !== 'over')
+        : [];
+    const isBlocked = overflowing.size > 0 && !chunkTranscript;
+
+    // Turns cited by each segment analysis, for the transcript viewer's heat map
+    const coverage = useMemo(() => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return new Map<number, string[]>();
+        return citationService.getCoverage(
+            segments.flatMap(segment => {
+                const analysis = analyses.get(segment.id);
+                return analysis ? [{ id: segment.id, title: segment.title, content: analysis.content }] : [];
+            }),
+            transcript
+        );
+    }, [segments, analyses, state.structuredTranscript]);
+
+    const switchWriterModel = (model: string) => {
+        settingsService.saveAgentModel('writer', model);
+        refreshSettings();
+        toast.success(`Writer agents will use ${model}`);
+    };
+
+    // Load the selected interview's analyses when switching transcripts
+    useEffect(() => {
+        setAnalyses(state.segmentAnalyses);
+        setCriticEvaluations(state.criticEvaluations);
+    }, [state.activeTranscriptId]);
+
+    // Queue one writer agent and stream it into its card; a stopped writer keeps its partial output
+    const runWriter = async (segment: FrameworkSegment, transcript: Transcript, priority: JobPriority): Promise<SegmentAnalysis> => {
+        // Keyed by interview too, so the same segment can run for several interviews without colliding
+        const key = `writer:${transcript.id}:${segment.id}`;
+        const signal = begin(key);
+        const job = { id: key, name: `Writer: ${segment.title}`, priority, group: transcript.id };
+        const previous = analysesRef.current.get(segment.id);
+        let content = '';
+
+        try {
+            // In chunked mode the evidence is gathered first, with one queued job per chunk
+            const evidence = chunkTranscript && overflowing.has(segment.id)
+                ? await writerAgent.gatherEvidence(segment.id, segment.title, segment.objective, segment.guidance, transcript, job, signal)
+                : undefined;
+
+            await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('writer'),
+                signal,
+                task: async () => {
+                    for await (const chunk of writerAgent.analyzeSegmentStream(
+                        segment.id,
+                        segment.title,
+                        segment.objective,
+                        segment.guidance,
+                        transcript,
+                        signal,
+                        evidence,
+                        () => { content = ''; }
+                    )) {
+                        content += chunk;
+                        setStreamingContent(prev => new Map(prev).set(segment.id, content));
+                    }
+                    return content;
+                },
+            });
+
+            return segmentVersionService.recordDraft({
+                segmentId: segment.id,
+                content: content.trim(),
+                status: 'complete',
+                generatedAt: new Date(),
+            }, previous);
+        } catch (error) {
+            if (!signal.aborted) throw error;
+            return segmentVersionService.recordDraft({
+                segmentId: segment.id,
+                content: content.trim(),
+                status: 'cancelled',
+                generatedAt: new Date(),
+            }, previous);
+        } finally {
+            end(key, signal);
+            setAnalyzingSegments(prev => {
+                const next = new Set(prev);
+                next.delete(segment.id);
+                return next;
+            });
+        }
+    };
 
     const launchAnalysisTeam = async () => {
-        if (!state.framework || !state.transcript) {
+        const transcript = state.structuredTranscript;
+        if (!state.framework || !transcript) {
             toast.error('Missing framework or transcript');
             return;
         }
@@ -50,47 +206,331 @@ export function Phase3_InsightExtraction() {
         });
         setAnalyses(initialAnalyses);
 
-        try {
-            // Launch all writer agents in parallel with streaming
-            const promises = segments.map(async (segment) => {
-                let content = '';
+        // Queue all writer agents; the orchestrator limits how many stream at once
+        const results = await Promise.allSettled(segments.map(segment => runWriter(segment, transcript, 'normal')));
 
-                for await (const chunk of writerAgent.analyzeSegmentStream(
-                    segment.id,
-                    segment.title,
-                    segment.objective,
-                    segment.guidance,
-                    state.transcript
-                )) {
-                    content += chunk;
-                    setStreamingContent(prev => new Map(prev).set(segment.id, content));
+        // Stopped writers that produced nothing are dropped so the team can be launched again
+        const newAnalyses = new Map<string, SegmentAnalysis>();
+        results.forEach(result => {
+            if (result.status === 'fulfilled' && (result.value.status === 'complete' || result.value.content)) {
+                newAnalyses.set(result.value.segmentId, result.value);
+            } else if (result.status === 'rejected') {
+                console.error('Analysis failed:', result.reason);
+            }
+        });
+
+        setAnalyses(newAnalyses);
+        setPhase3Data(Array.from(newAnalyses.values()));
+        setIsAnalyzing(false);
+        setStreamingContent(new Map());
+
+        const failed = results.filter(result => result.status === 'rejected').length;
+        const stopped = results.filter(result => result.status === 'fulfilled' && result.value.status === 'cancelled').length;
+        if (failed > 0) {
+            toast.error('Some analyses failed. Check the log panel.');
+        } else if (stopped > 0) {
+            toast(`Stopped ${stopped} of ${segments.length} writer agents`);
+        } else {
+            toast.success('All segments analyzed!');
+        }
+
+        if (autoRefine.enabled && stopped === 0) {
+            await refineSegments(newAnalyses, segments);
+        }
+    };
+
+    const updateAutoRefine = (updates: Partial<AutoRefineSettings>) => {
+        const next = { ...autoRefine, ...updates };
+        setAutoRefine(next);
+        settingsService.saveAutoRefine(next);
+    };
+
+    // Critique and rewrite each segment until it passes the threshold or its rewrites run out, keeping the best draft
+    const refineSegments = async (base: Map<string, SegmentAnalysis>, targets: FrameworkSegment[]) => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return;
+
+        const toRefine = targets.filter(segment => base.get(segment.id)?.status === 'complete' && !refiningSegments.has(segment.id));
+        if (toRefine.length === 0) {
+            toast.error('No completed analyses to refine');
+            return;
+        }
+
+        const { minScore, maxRewrites } = autoRefine;
+        const markStep = (segmentId: string, step: RefineStep | null) => {
+            setEvaluatingSegments(prev => withMember(prev, segmentId, step === 'evaluating'));
+            setRewritingSegments(prev => withMember(prev, segmentId, step === 'rewriting'));
+        };
+        setRefiningSegments(prev => new Set([...prev, ...toRefine.map(segment => segment.id)]));
+
+        const refined = new Map<string, { analysis: SegmentAnalysis; evaluation?: CriticEvaluation }>();
+        const settled = await Promise.allSettled(toRefine.map(async segment => {
+            const analysis = base.get(segment.id)!;
+            const key = `refine:${segment.id}`;
+            const signal = begin(key);
+            let history: RefineIteration[] = [];
+
+            try {
+                const result = await autoRefineService.refine(segment, analysis.content, transcript, {
+                    minScore,
+                    maxRewrites,
+                    signal,
+                    group: state.activeTranscriptId ?? undefined,
+                    onStep: step => markStep(segment.id, step),
+                    onIteration: iterations => {
+                        history = iterations;
+                        setAnalyses(prev => new Map(prev).set(segment.id, { ...analysis, refineHistory: iterations }));
+                    },
+                });
+                return result.converged;
+            } finally {
+                // Drafts evaluated before a stop or failure are kept too
+                if (history.length > 0) {
+                    const best = autoRefineService.pickBest(history);
+                    refined.set(segment.id, {
+                        analysis: { ...recordRefinement(analysis, history, best), refineHistory: history },
+                        evaluation: best.evaluation,
+                    });
                 }
+                end(key, signal);
+                markStep(segment.id, null);
+            }
+        }));
 
-                return {
-                    segmentId: segment.id,
-                    content: content.trim(),
-                    status: 'complete' as const,
-                    generatedAt: new Date(),
-                };
+        const updated = new Map(analysesRef.current);
+        refined.forEach((entry, segmentId) => {
+            updated.set(segmentId, entry.analysis);
+            setCriticEvaluation(segmentId, entry.evaluation);
+        });
+        setAnalyses(updated);
+        setPhase3Data(Array.from(updated.values()));
+        setCriticEvaluations(prev => {
+            const next = new Map(prev);
+            refined.forEach((entry, segmentId) => {
+                if (entry.evaluation) {
+                    next.set(segmentId, entry.evaluation);
+                } else {
+                    next.delete(segmentId);
+                }
             });
+            return next;
+        });
+        setRefiningSegments(prev => {
+            const next = new Set(prev);
+            toRefine.forEach(segment => next.delete(segment.id));
+            return next;
+        });
 
-            const results = await Promise.all(promises);
+        const failed = settled.filter(result => result.status === 'rejected');
+        failed.forEach(result => console.error('Auto-refine failed:', (result as PromiseRejectedResult).reason));
+        const converged = settled.filter(result => result.status === 'fulfilled' && result.value).length;
+        if (failed.length > 0) {
+            toast.error(`${failed.length} of ${toRefine.length} segments could not be refined. Check the log panel.`);
+        } else {
+            toast.success(`${converged} of ${toRefine.length} segments met the bar; the best draft was kept for the rest`);
+        }
+    };
 
-            const newAnalyses = new Map<string, SegmentAnalysis>();
-            results.forEach((result: SegmentAnalysis) => {
-                newAnalyses.set(result.segmentId, result);
+    // Each rewrite of the loop becomes a version, followed by a revert when an earlier draft scored best
+    const recordRefinement = (analysis: SegmentAnalysis, history: RefineIteration[], best: RefineIteration): SegmentAnalysis => {
+        let recorded = analysis;
+        history.slice(1).forEach((iteration, index) => {
+            recorded = segmentVersionService.record(recorded, iteration.content, 'rewrite', {
+                author: 'Writer Agent',
+                critique: history[index].evaluation?.evaluation,
+                note: `Auto-refine round ${index + 1}`,
             });
+        });
+        if (best.content !== recorded.content) {
+            recorded = segmentVersionService.record(recorded, best.content, 'revert', {
+                author: 'Auto-Refine',
+                note: `Kept draft ${best.iteration}, the best scored`,
+            });
+        }
+        return recorded;
+    };
 
-            setAnalyses(newAnalyses);
-            setPhase3Data(Array.from(newAnalyses.values()));
-            toast.success('All segments analyzed!');
+    // Restore a draft from a segment's refinement history, with the critique it got
+    const restoreVersion = (segmentId: string, iteration: RefineIteration) => {
+        const analysis = analyses.get(segmentId);
+        if (!analysis) return;
+
+        const restored = segmentVersionService.record(analysis, iteration.content, 'revert', {
+            author: 'You',
+            note: `Draft ${iteration.iteration} from the refinement history`,
+        });
+        const updated = new Map(analyses).set(segmentId, restored);
+        setAnalyses(updated);
+        setPhase3Data(Array.from(updated.values()));
+        setCriticEvaluations(prev => {
+            const next = new Map(prev);
+            if (iteration.evaluation) {
+                next.set(segmentId, iteration.evaluation);
+            } else {
+                next.delete(segmentId);
+            }
+            return next;
+        });
+        setCriticEvaluation(segmentId, iteration.evaluation);
+    };
+
+    const toggleRubric = (rubricId: string, selected: boolean) => {
+        const picked = withMember(new Set(selectedRubrics.map(rubric => rubric.id)), rubricId, selected);
+        setRubricSelection(rubrics.filter(rubric => picked.has(rubric.id)).map(rubric => rubric.id));
+    };
+
+    // Score segments with the selected rubrics, one critic per rubric, and keep each scorecard on its analysis
+    const scoreSegments = async (targets: FrameworkSegment[]) => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return;
+        if (selectedRubrics.length === 0) {
+            toast.error('Select at least one rubric for the critic panel');
+            return;
+        }
+
+        const toScore = targets.filter(segment => analyses.get(segment.id)?.status === 'complete' && !scoringSegments.has(segment.id));
+        if (toScore.length === 0) {
+            toast.error('No completed analyses to score');
+            return;
+        }
+        setScoringSegments(prev => new Set([...prev, ...toScore.map(segment => segment.id)]));
+
+        const scorecards = new Map<string, Scorecard>();
+        const settled = await Promise.allSettled(toScore.map(async segment => {
+            const key = `panel:${segment.id}`;
+            const signal = begin(key);
+            try {
+                const scorecard = await criticPanelService.score(segment, analyses.get(segment.id)!.content, transcript, selectedRubrics, {
+                    signal,
+                    group: state.activeTranscriptId ?? undefined,
+                });
+                scorecards.set(segment.id, scorecard);
+                return scorecard;
+            } finally {
+                end(key, signal);
+            }
+        }));
+
+        const updated = new Map(analysesRef.current);
+        scorecards.forEach((scorecard, segmentId) => {
+            const analysis = updated.get(segmentId);
+            if (analysis) updated.set(segmentId, { ...analysis, scorecard });
+        });
+        setAnalyses(updated);
+        setPhase3Data(Array.from(updated.values()));
+        setScoringSegments(prev => {
+            const next = new Set(prev);
+            toScore.forEach(segment => next.delete(segment.id));
+            return next;
+        });
+
+        const failed = settled.filter(result => result.status === 'rejected');
+        failed.forEach(result => console.error('Critic panel failed:', (result as PromiseRejectedResult).reason));
+        const incomplete = Array.from(scorecards.values()).filter(scorecard => scorecard.failedRubrics.length > 0).length;
+        if (failed.length > 0 || incomplete > 0) {
+            toast.error(`${failed.length + incomplete} of ${toScore.length} scorecards are missing rubric results. Check the log panel.`);
+        } else {
+            const passed = Array.from(scorecards.values()).filter(scorecard => scorecard.passed).length;
+            toast.success(`${passed} of ${toScore.length} segments passed every rubric`);
+        }
+    };
+
+    // Re-run a single writer, e.g. after it was stopped
+    const reanalyzeSegment = async (segment: FrameworkSegment) => {
+        const transcript = state.structuredTranscript;
+        if (!transcript) return;
+
+        setAnalyzingSegments(prev => new Set(prev).add(segment.id));
+        try {
+            const result = await runWriter(segment, transcript, 'high');
+            const updated = new Map(analyses).set(segment.id, result);
+            setAnalyses(updated);
+            setPhase3Data(Array.from(updated.values()));
         } catch (error) {
             console.error('Analysis failed:', error);
-            toast.error('Some analyses failed. Check the log panel.');
+            toast.error('Analysis failed. Check the log panel.');
         } finally {
-            setIsAnalyzing(false);
-            setAnalyzingSegments(new Set());
-            setStreamingContent(new Map());
+            setStreamingContent(prev => {
+                const next = new Map(prev);
+                next.delete(segment.id);
+                return next;
+            });
+        }
+    };
+
+    // Run the shared framework against every other interview in the project, one interview at a time
+    const analyzeOtherTranscripts = async () => {
+        if (!state.framework) {
+            toast.error('Missing framework');
+            return;
+        }
+
+        const pending = otherTranscripts.filter(entry => segments.some(s => entry.segmentAnalyses.get(s.id)?.status !== 'complete'));
+        if (pending.length === 0) {
+            toast.success('All interviews are already analyzed');
+            return;
+        }
+
+        setBatchProgress({ done: 0, total: pending.length });
+        const signal = begin(BATCH_KEY);
+        let failures = 0;
+        let analyzed = 0;
+
+        for (const entry of pending) {
+            if (signal.aborted) break;
+
+            const completed = segments.flatMap(segment => {
+                const existing = entry.segmentAnalyses.get(segment.id);
+                return existing?.status === 'complete' ? [existing] : [];
+            });
+
+            // Background work yields to writers the user started on the current interview.
+            // Interviews too long for the writer model are analyzed in chunks without asking.
+            const settled = await Promise.allSettled(segments
+                .filter(segment => entry.segmentAnalyses.get(segment.id)?.status !== 'complete')
+                .map(async segment => {
+                    const job = { id: `writer:${entry.id}:${segment.id}`, name: `Writer: ${segment.title} (${entry.name})`, priority: 'low' as const, group: entry.id };
+                    const evidence = writerAgent.needsChunking(segment.title, segment.objective, segment.guidance, entry.transcript)
+                        ? await writerAgent.gatherEvidence(segment.id, segment.title, segment.objective, segment.guidance, entry.transcript, job, signal)
+                        : undefined;
+
+                    return agentOrchestrator.runAgent({
+                        ...job,
+                        model: settingsService.getAgentModel('writer'),
+                        signal,
+                        task: () => writerAgent.analyzeSegment(
+                            segment.id,
+                            segment.title,
+                            segment.objective,
+                            segment.guidance,
+                            entry.transcript,
+                            signal,
+                            evidence
+                        ),
+                    });
+                }));
+
+            // Writers stopped mid-interview are left out so the interview stays pending
+            const results = [...completed, ...settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : [])];
+            failures += results.filter(result => result.status === 'error').length;
+            if (!signal.aborted) {
+                failures += settled.filter(result => result.status === 'rejected').length;
+            }
+            setTranscriptAnalyses(entry.id, results);
+            if (!signal.aborted) {
+                analyzed++;
+                setBatchProgress(prev => prev ? { ...prev, done: prev.done + 1 } : prev);
+            }
+        }
+
+        end(BATCH_KEY, signal);
+        setBatchProgress(null);
+        if (signal.aborted) {
+            toast(`Stopped after ${analyzed} of ${pending.length} interviews`);
+        } else if (failures > 0) {
+            toast.error(`${failures} segment analyses failed. Check the log panel.`);
+        } else {
+            toast.success(`Analyzed ${pending.length} more interviews!`);
         }
     };
 
@@ -98,27 +538,49 @@ export function Phase3_InsightExtraction() {
         const analysis = analyses.get(segmentId);
         const segment = segments.find(s => s.id === segmentId);
 
-        if (!analysis || !segment || !state.transcript) {
+        if (!analysis || !segment || !state.structuredTranscript) {
             toast.error('Missing data for critic evaluation');
             return;
         }
 
         setEvaluatingSegments(prev => new Set(prev).add(segmentId));
+        const signal = begin(`critic:${segmentId}`);
 
         try {
-            const evaluation = await criticAgent.evaluateSegment(
-                segmentId,
-                analysis.content,
-                segment.objective,
-                state.transcript
-            );
+            const transcript = state.structuredTranscript;
+            const job = { id: `critic:${segmentId}`, name: `Critic: ${segment.title}`, priority: 'high' as const };
+
+            // A transcript too long for the critic model is checked chunk by chunk first
+            const claimChecks = criticAgent.needsChunking(analysis.content, segment.objective, transcript)
+                ? await criticAgent.checkClaims(segmentId, analysis.content, segment.objective, transcript, job, signal)
+                : undefined;
+
+            const evaluation = await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('critic'),
+                signal,
+                task: () => criticAgent.evaluateSegment(
+                    segmentId,
+                    analysis.content,
+                    segment.objective,
+                    transcript,
+                    signal,
+                    claimChecks
+                ),
+            });
 
             setCriticEvaluations(prev => new Map(prev).set(segmentId, evaluation));
+            setCriticEvaluation(segmentId, evaluation);
             toast.success('Evaluation complete!');
         } catch (error) {
-            console.error('Evaluation failed:', error);
-            toast.error('Evaluation failed. Check the log panel.');
+            if (signal.aborted) {
+                toast('Evaluation stopped');
+            } else {
+                console.error('Evaluation failed:', error);
+                toast.error('Evaluation failed. Check the log panel.');
+            }
         } finally {
+            end(`critic:${segmentId}`, signal);
             setEvaluatingSegments(prev => {
                 const next = new Set(prev);
                 next.delete(segmentId);
@@ -132,26 +594,42 @@ export function Phase3_InsightExtraction() {
         const evaluation = criticEvaluations.get(segmentId);
         const segment = segments.find(s => s.id === segmentId);
 
-        if (!analysis || !evaluation || !segment || !state.transcript) {
+        if (!analysis || !evaluation || !segment || !state.structuredTranscript) {
             toast.error('Missing data for rewrite');
             return;
         }
 
         setRewritingSegments(prev => new Set(prev).add(segmentId));
+        const signal = begin(`rewrite:${segmentId}`);
 
         try {
-            const rewritten = await writerAgent.rewriteSegment(
-                analysis.content,
-                evaluation.evaluation,
-                segment.objective,
-                state.transcript
-            );
-
-            const updatedAnalysis: SegmentAnalysis = {
-                ...analysis,
-                content: rewritten,
-                generatedAt: new Date(),
-            };
+            const transcript = state.structuredTranscript;
+            const job = { id: `rewrite:${segmentId}`, name: `Rewrite: ${segment.title}`, priority: 'high' as const };
+
+            // A transcript too long for the writer model is rewritten from evidence gathered chunk by chunk
+            const evidence = writerAgent.needsRewriteChunking(analysis.content, evaluation.evaluation, segment.objective, transcript)
+                ? await writerAgent.gatherEvidence(segmentId, segment.title, segment.objective, segment.guidance, transcript, job, signal)
+                : undefined;
+
+            const rewritten = await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('writer'),
+                signal,
+                task: () => writerAgent.rewriteSegment(
+                    segmentId,
+                    analysis.content,
+                    evaluation.evaluation,
+                    segment.objective,
+                    transcript,
+                    signal,
+                    evidence
+                ),
+            });
+
+            const updatedAnalysis = segmentVersionService.record(analysis, rewritten, 'rewrite', {
+                author: 'Writer Agent',
+                critique: evaluation.evaluation,
+            });
 
             setAnalyses(prev => new Map(prev).set(segmentId, updatedAnalysis));
             setPhase3Data(Array.from(new Map(analyses).set(segmentId, updatedAnalysis).values()));
@@ -162,12 +640,18 @@ export function Phase3_InsightExtraction() {
                 next.delete(segmentId);
                 return next;
             });
+            setCriticEvaluation(segmentId);
 
             toast.success('Segment rewritten!');
         } catch (error) {
-            console.error('Rewrite failed:', error);
-            toast.error('Rewrite failed. Check the log panel.');
+            if (signal.aborted) {
+                toast('Rewrite stopped');
+            } else {
+                console.error('Rewrite failed:', error);
+                toast.error('Rewrite failed. Check the log panel.');
+            }
         } finally {
+            end(`rewrite:${segmentId}`, signal);
             setRewritingSegments(prev => {
                 const next = new Set(prev);
                 next.delete(segmentId);
@@ -176,15 +660,44 @@ export function Phase3_InsightExtraction() {
         }
     };
 
+    // Bring back an earlier version; its critique no longer applies to the current text
+    const revertVersion = (segmentId: string, versionId: string) => {
+        const analysis = analyses.get(segmentId);
+        if (!analysis) return;
+
+        const updated = new Map(analyses).set(segmentId, segmentVersionService.revert(analysis, versionId));
+        setAnalyses(updated);
+        setPhase3Data(Array.from(updated.values()));
+        setCriticEvaluations(prev => {
+            const next = new Map(prev);
+            next.delete(segmentId);
+            return next;
+        });
+        setCriticEvaluation(segmentId);
+    };
+
+    const stopSegment = (segmentId: string) => stop(`writer:${state.structuredTranscript?.id}:${segmentId}`, `critic:${segmentId}`, `rewrite:${segmentId}`, `refine:${segmentId}`, `panel:${segmentId}`);
+
     return (
         <div className="min-h-screen bg-solita-light-grey pb-24">
-            <div className="container mx-auto px-6 py-12 max-w-6xl">
+            <div className="container mx-auto px-6 py-12 max-w-7xl">
                 {/* Header */}
                 <div className="mb-8">
-                    <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3 mb-3">
-                        <Lightbulb className="w-9 h-9 text-solita-ochre" />
-                        Phase 3: Insight Extraction
-                    </h1>
+                    <div className="flex items-center justify-between mb-3">
+                        <h1 className="text-4xl font-semibold text-solita-black flex items-center gap-3">
+                            <Lightbulb className="w-9 h-9 text-solita-ochre" />
+                            Phase 3: Insight Extraction
+                        </h1>
+                        {isRunning && (
+                            <button
+                                onClick={stopAll}
+                                className="px-4 py-2 bg-white border border-solita-red/40 hover:bg-solita-red/10 text-solita-red rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Square className="w-4 h-4" />
+                                Stop All Agents
+                            </button>
+                        )}
+                    </div>
                     <p className="text-base text-solita-dark-grey">
                         Launch writer agents to analyze each segment in parallel
                     </p>
@@ -197,6 +710,65 @@ export function Phase3_InsightExtraction() {
                     description={PHASE_HINTS.phase3.analysis.description}
                 />
 
+                {/* Project Transcripts */}
+                {state.transcripts.length > 1 && (
+                    <div className="bg-white border border-solita-light-grey rounded-lg p-4 mb-6 shadow-sm">
+                        <div className="flex items-center justify-between gap-4 mb-3">
+                            <h3 className="text-sm font-medium text-solita-black flex items-center gap-2">
+                                <Users className="w-4 h-4 text-solita-ochre" />
+                                Interviews in this project
+                            </h3>
+                            <div className="flex items-center gap-2">
+                                {batchProgress && (
+                                    <button
+                                        onClick={() => stop(BATCH_KEY)}
+                                        className="px-3 py-2 bg-white border border-solita-light-grey hover:border-solita-red hover:text-solita-red text-solita-dark-grey rounded-lg transition-colors flex items-center gap-1.5 text-sm"
+                                    >
+                                        <Square className="w-3.5 h-3.5" /> Stop
+                                    </button>
+                                )}
+                                <button
+                                    onClick={analyzeOtherTranscripts}
+                                    disabled={isBusy}
+                                    className="px-4 py-2 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 text-sm"
+                                >
+                                    {batchProgress ? (
+                                        <ElegantLoader message={`Analyzing interviews (${batchProgress.done}/${batchProgress.total})...`} size="sm" />
+                                    ) : (
+                                        <>
+                                            <Play className="w-4 h-4" />
+                                            Analyze Other Interviews ({otherTranscripts.length})
+                                        </>
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {state.transcripts.map(entry => {
+                                const isActive = entry.id === state.activeTranscriptId;
+                                const completed = segments.filter(s => entry.segmentAnalyses.get(s.id)?.status === 'complete').length;
+
+                                return (
+                                    <button
+                                        key={entry.id}
+                                        onClick={() => setActiveTranscript(entry.id)}
+                                        disabled={isBusy || isActive}
+                                        className={`px-3 py-1.5 rounded-lg text-sm transition-colors flex items-center gap-2 ${isActive
+                                            ? 'bg-solita-ochre text-white'
+                                            : 'bg-solita-light-grey text-solita-dark-grey hover:bg-solita-ochre/10 disabled:opacity-60'
+                                            }`}
+                                    >
+                                        {entry.name}
+                                        <span className={`text-xs ${isActive ? 'text-white/80' : 'text-solita-mid-grey'}`}>
+                                            {completed}/{segments.length}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
                 {/* Launch Analysis Team Button */}
                 {analyses.size === 0 && (
                     <div className="bg-white border border-solita-light-grey rounded-lg p-8 mb-6 shadow-sm text-center">
@@ -207,9 +779,18 @@ export function Phase3_InsightExtraction() {
                         <p className="text-solita-dark-grey mb-6">
                             {segments.length} writer agents will analyze the transcript in parallel
                         </p>
+                        <PreflightCheck
+                            rows={preflight}
+                            model={writerModel}
+                            isAssumedWindow={!tokenEstimatorService.isKnownContextWindow(provider, writerModel)}
+                            largerModels={largerModels}
+                            chunked={chunkTranscript}
+                            onChunkedChange={setChunkTranscript}
+                            onModelChange={switchWriterModel}
+                        />
                         <button
                             onClick={launchAnalysisTeam}
-                            disabled={isAnalyzing}
+                            disabled={isBusy || isBlocked}
                             className="px-8 py-3 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 mx-auto"
                         >
                             {isAnalyzing ? (
@@ -224,49 +805,180 @@ export function Phase3_InsightExtraction() {
                     </div>
                 )}
 
+                {/* Agent Queue */}
+                {isRunning && (
+                    <div className="mb-6">
+                        <AgentVisualizer />
+                    </div>
+                )}
+
                 {/* Segment Analyses */}
                 {analyses.size > 0 && (
                     <>
-                        <div className="space-y-6 mb-6">
-                            {segments.map((segment) => {
-                                const analysis = analyses.get(segment.id);
-                                const evaluation = criticEvaluations.get(segment.id);
-                                const isAnalyzingThis = analyzingSegments.has(segment.id);
-                                const isEvaluating = evaluatingSegments.has(segment.id);
-                                const isRewriting = rewritingSegments.has(segment.id);
+                        {/* Auto-Refine */}
+                        <div className="bg-white border border-solita-light-grey rounded-lg p-4 mb-6 shadow-sm flex flex-wrap items-center gap-x-6 gap-y-3">
+                            <h3 className="text-sm font-medium text-solita-black flex items-center gap-2">
+                                <Repeat className="w-4 h-4 text-solita-ochre" />
+                                Auto-Refine
+                            </h3>
+                            <label className="flex items-center gap-2 text-sm text-solita-dark-grey">
+                                Min. score
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={100}
+                                    value={autoRefine.minScore}
+                                    onChange={(e) => updateAutoRefine({ minScore: Math.min(100, Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+                                    className="w-16 px-2 py-1 border border-solita-light-grey rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-solita-dark-grey">
+                                Max. rewrites
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={10}
+                                    value={autoRefine.maxRewrites}
+                                    onChange={(e) => updateAutoRefine({ maxRewrites: Math.min(10, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+                                    className="w-16 px-2 py-1 border border-solita-light-grey rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-solita-ochre focus:border-transparent"
+                                />
+                            </label>
+                            <label className="flex items-center gap-2 text-sm text-solita-dark-grey cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={autoRefine.enabled}
+                                    onChange={(e) => updateAutoRefine({ enabled: e.target.checked })}
+                                    className="accent-solita-ochre"
+                                />
+                                Refine automatically after the writers finish
+                            </label>
+                            <button
+                                onClick={() => refineSegments(analyses, segments)}
+                                disabled={isRunning}
+                                className="ml-auto px-4 py-2 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                {refiningSegments.size > 0 ? (
+                                    <ElegantLoader message={`Refining ${refiningSegments.size} segments...`} size="sm" />
+                                ) : (
+                                    <>
+                                        <Repeat className="w-4 h-4" />
+                                        Refine All
+                                    </>
+                                )}
+                            </button>
+                            <p className="w-full text-xs text-solita-mid-grey">
+                                Each segment is evaluated by the critic and rewritten while it fails source alignment or scores below the minimum, up to the maximum number of rewrites. Every draft and critique is kept on the card.
+                            </p>
+                        </div>
 
-                                return (
-                                    <SegmentCard
-                                        key={segment.id}
-                                        suggestion={{
-                                            id: segment.id,
-                                            title: segment.title,
-                                            objective: segment.objective,
-                                            guidance: segment.guidance,
-                                            rationale: ''
-                                        }}
-                                        analysis={analysis}
-                                        streaming={streamingContent.get(segment.id)}
-                                        isAnalyzing={isAnalyzingThis}
-                                        evaluation={evaluation}
-                                        isEvaluating={isEvaluating}
-                                        onAnalysisChange={(content) => {
-                                            const newAnalyses = new Map(analyses);
-                                            if (analysis) {
-                                                newAnalyses.set(segment.id, {
-                                                    ...analysis,
-                                                    content
-                                                });
-                                                setAnalyses(newAnalyses);
-                                                setPhase3Data(Array.from(newAnalyses.values()));
-                                            }
-                                        }}
-                                        onLaunchCritic={() => launchCritic(segment.id)}
-                                        onRewrite={() => rewriteSegment(segment.id)}
-                                        isRewriting={isRewriting}
-                                    />
-                                );
-                            })}
+                        {/* Critic Panel */}
+                        <div className="bg-white border border-solita-light-grey rounded-lg p-4 mb-6 shadow-sm flex flex-wrap items-center gap-x-6 gap-y-3">
+                            <h3 className="text-sm font-medium text-solita-black flex items-center gap-2">
+                                <ClipboardCheck className="w-4 h-4 text-solita-ochre" />
+                                Critic Panel
+                            </h3>
+                            {rubrics.length > 0 ? (
+                                <div className="flex flex-wrap gap-2">
+                                    {rubrics.map(rubric => {
+                                        const isSelected = selectedRubrics.includes(rubric);
+                                        return (
+                                            <label
+                                                key={rubric.id}
+                                                title={rubric.description}
+                                                className={`px-3 py-1.5 rounded-lg border text-sm flex items-center gap-2 cursor-pointer transition-colors ${isSelected
+                                                    ? 'border-solita-ochre bg-solita-ochre/10 text-solita-black'
+                                                    : 'border-solita-light-grey text-solita-dark-grey hover:border-solita-ochre/50'
+                                                    }`}
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={(e) => toggleRubric(rubric.id, e.target.checked)}
+                                                    className="accent-solita-ochre"
+                                                />
+                                                {rubric.name}
+                                            </label>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <p className="text-sm text-solita-dark-grey">No rubrics defined. Add them under Critic Panel Rubrics in Settings.</p>
+                            )}
+                            <button
+                                onClick={() => scoreSegments(segments)}
+                                disabled={isRunning || selectedRubrics.length === 0}
+                                className="ml-auto px-4 py-2 bg-solita-ochre hover:bg-solita-ochre/90 disabled:bg-solita-mid-grey text-white rounded-lg transition-colors flex items-center gap-2 text-sm"
+                            >
+                                {scoringSegments.size > 0 ? (
+                                    <ElegantLoader message={`Scoring ${scoringSegments.size} segments...`} size="sm" />
+                                ) : (
+                                    <>
+                                        <ClipboardCheck className="w-4 h-4" />
+                                        Score All
+                                    </>
+                                )}
+                            </button>
+                            <p className="w-full text-xs text-solita-mid-grey">
+                                Each selected rubric runs as its own critic, with the model and prompt set in Settings. Their scores are combined into a weighted scorecard per segment.
+                            </p>
+                        </div>
+
+                        <div className="flex gap-6 items-start mb-6">
+                            <div className="flex-1 min-w-0 space-y-6">
+                                {segments.map((segment) => {
+                                    const analysis = analyses.get(segment.id);
+                                    const evaluation = criticEvaluations.get(segment.id);
+                                    const isAnalyzingThis = analyzingSegments.has(segment.id);
+                                    const isEvaluating = evaluatingSegments.has(segment.id);
+                                    const isRewriting = rewritingSegments.has(segment.id);
+
+                                    return (
+                                        <SegmentCard
+                                            key={segment.id}
+                                            suggestion={{
+                                                id: segment.id,
+                                                title: segment.title,
+                                                objective: segment.objective,
+                                                guidance: segment.guidance,
+                                                rationale: ''
+                                            }}
+                                            analysis={analysis}
+                                            streaming={streamingContent.get(segment.id)}
+                                            isAnalyzing={isAnalyzingThis}
+                                            evaluation={evaluation}
+                                            isEvaluating={isEvaluating}
+                                            onAnalysisChange={(content) => {
+                                                const newAnalyses = new Map(analyses);
+                                                if (analysis) {
+                                                    newAnalyses.set(segment.id, segmentVersionService.recordEdit(analysis, content));
+                                                    setAnalyses(newAnalyses);
+                                                    setPhase3Data(Array.from(newAnalyses.values()));
+                                                }
+                                            }}
+                                            onLaunchCritic={() => launchCritic(segment.id)}
+                                            onRewrite={() => rewriteSegment(segment.id)}
+                                            isRewriting={isRewriting}
+                                            onStop={() => stopSegment(segment.id)}
+                                            onReanalyze={isBusy ? undefined : () => reanalyzeSegment(segment)}
+                                            transcript={state.structuredTranscript}
+                                            onShowEvidence={setEvidenceFocus}
+                                            onAutoRefine={() => refineSegments(analyses, [segment])}
+                                            isRefining={refiningSegments.has(segment.id)}
+                                            onUseVersion={(iteration) => restoreVersion(segment.id, iteration)}
+                                            onRevertVersion={(versionId) => revertVersion(segment.id, versionId)}
+                                            onRunPanel={selectedRubrics.length > 0 ? () => scoreSegments([segment]) : undefined}
+                                            isScoring={scoringSegments.has(segment.id)}
+                                        />
+                                    );
+                                })}
+                            </div>
+                            {state.structuredTranscript && (
+                                <TranscriptViewer
+                                    transcript={state.structuredTranscript}
+                                    coverage={coverage}
+                                    focus={evidenceFocus}
+                                />
+                            )}
                         </div>
 
                         {/* Navigation Buttons */}
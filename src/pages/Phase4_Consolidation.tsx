@@ -8,6 +8,7 @@ import remarkGfm from 'remark-gfm';
 import toast from 'react-hot-toast';
 import { StandardTextArea } from '../components/ui/StandardTextArea';
 import { writerAgent } from '../services/writer.agent';
+import { transcriptParserService } from '../services/transcript-parser.service';
 import { GuidedHint } from '../components/GuidedHint';
 import { PHASE_HINTS } from '../constants/hints';
 
@@ -26,7 +27,7 @@ export function Phase4_Consolidation() {
         if (state.framework && state.segmentAnalyses.size > 0) {
             generateMarkdownAsync();
         }
-    }, [state.framework, state.segmentAnalyses]);
+    }, [state.framework, state.segmentAnalyses, state.synthesis, state.codebook, state.codedExcerpts]);
 
     const generateMarkdownAsync = async () => {
         setIsGenerating(true);
@@ -78,6 +79,14 @@ export function Phase4_Consolidation() {
         let md = `# Transcript: ${metadata.title.replace('Analysis: ', '')}\n\n`;
         md += `**Created:** ${metadata.created.toLocaleString()}\n\n`;
 
+        if (state.transcripts.length > 1) {
+            const active = state.transcripts.find(entry => entry.id === state.activeTranscriptId);
+            md += `**Interviews:** ${state.transcripts.map(entry => entry.name).join(', ')}\n\n`;
+            if (active) {
+                md += `**Segment analyses below are from:** ${active.name}\n\n`;
+            }
+        }
+
         // Add summaries
         md += `## Analysis Summaries\n\n`;
         segments.forEach((segment) => {
@@ -113,6 +122,43 @@ export function Phase4_Consolidation() {
             }
         });
 
+        // Add cross-interview synthesis for multi-transcript projects
+        if (state.synthesis.size > 0) {
+            md += `# Cross-Interview Synthesis\n\n`;
+            segments.forEach((segment) => {
+                const synthesis = state.synthesis.get(segment.id);
+                if (synthesis) {
+                    md += `## ${segment.title}\n\n`;
+                    md += `*Compared across ${synthesis.transcriptIds.length} interviews*\n\n`;
+                    md += `${synthesis.content}\n\n`;
+                    md += `---\n\n`;
+                }
+            });
+        }
+
+        // Add the codebook with the excerpts reviewers accepted
+        if (state.codebook.length > 0) {
+            const interviews = state.transcripts.length > 0
+                ? state.transcripts
+                : state.structuredTranscript ? [{ id: state.structuredTranscript.id, name: 'Transcript', transcript: state.structuredTranscript }] : [];
+            md += `# Thematic Coding\n\n`;
+            state.codebook.forEach((code) => {
+                const accepted = state.codedExcerpts.filter(excerpt => excerpt.codeId === code.id && excerpt.status === 'accepted');
+                md += `## ${code.name}\n\n`;
+                md += `${code.definition}\n\n`;
+                if (code.includeRules.length > 0) md += `**Apply when:** ${code.includeRules.join('; ')}\n\n`;
+                if (code.excludeRules.length > 0) md += `**Do not apply when:** ${code.excludeRules.join('; ')}\n\n`;
+                accepted.forEach(excerpt => {
+                    const interview = interviews.find(entry => entry.id === excerpt.transcriptId);
+                    const turn = interview?.transcript.turns[excerpt.turnIndex];
+                    if (!interview || !turn) return;
+                    const source = [interviews.length > 1 ? interview.name : '', transcriptParserService.getTurnLabel(turn), turn.speaker].filter(Boolean).join(', ');
+                    md += `> ${turn.text.replace(/\s+/g, ' ').trim()}\n>\n> — ${source}\n\n`;
+                });
+                md += `*${accepted.length} accepted excerpts*\n\n`;
+            });
+        }
+
         return md;
     };
 
@@ -283,7 +329,7 @@ export function Phase4_Consolidation() {
                                 className="px-6 py-3 bg-white border border-solita-light-grey hover:border-solita-dark-grey text-solita-dark-grey rounded-lg transition-colors flex items-center gap-2"
                             >
                                 <ArrowLeft className="w-5 h-5" />
-                                Back to Gap Analysis
+                                Back to Coding
                             </button>
                         </div>
                     )}
@@ -68,6 +68,46 @@ export const agentConfigs: Record<string, AgentConfig> = {
                 description: 'Verifies that all statements are based on the transcript',
                 signature: 'verifySourceAlignment(content: string, transcript: string): Promise<boolean>',
             },
+            {
+                name: 'evaluateRubric',
+                description: 'Scores a segment against one user-defined rubric on its own model',
+                signature: 'evaluateRubric(segmentId: string, content: string, objective: string, transcript: Transcript, rubric: CriticRubric): Promise<RubricEvaluation>',
+            },
+        ],
+    },
+    synthesis: {
+        name: 'Synthesis Agent',
+        role: 'synthesis',
+        description: 'Compares segment analyses across interviews to find recurring and divergent themes',
+        model: 'google/gemini-2.0-flash-001',
+        systemPrompt: 'You are a Synthesis Agent specialized in cross-interview qualitative research.',
+        codeLocation: 'src/services/synthesis.agent.ts',
+        methods: [
+            {
+                name: 'synthesizeSegmentStream',
+                description: 'Streams a cross-interview comparison for one framework segment',
+                signature: 'synthesizeSegmentStream(segment: FrameworkSegment, analyses: InterviewAnalysis[]): AsyncGenerator<string>',
+            },
+        ],
+    },
+    coding: {
+        name: 'Coding Agent',
+        role: 'coding',
+        description: 'Proposes a codebook and applies its codes to speaker turns',
+        model: 'google/gemini-2.0-flash-001',
+        systemPrompt: 'You are a Coding Agent specialized in thematic analysis of qualitative interviews.',
+        codeLocation: 'src/services/coding.agent.ts',
+        methods: [
+            {
+                name: 'proposeCodebook',
+                description: 'Proposes codes with definitions, inclusion and exclusion rules and examples',
+                signature: 'proposeCodebook(transcript: Transcript, objective?: string): Promise<Code[]>',
+            },
+            {
+                name: 'codeTranscript',
+                description: 'Applies the codebook to every speaker turn, one queued job per transcript chunk',
+                signature: 'codeTranscript(transcriptId: string, transcript: Transcript, codebook: Code[], job: JobOptions): Promise<CodedExcerpt[]>',
+            },
         ],
     },
 };
@@ -1,8 +1,18 @@
 import { AgentLog } from '../types/logging';
+import { settingsService } from './settings.service';
+import { Phase } from '../types/phases';
 
 class AgentLogger {
     private logs: AgentLog[] = [];
     private listeners: ((logs: AgentLog[]) => void)[] = [];
+    private phase?: Phase;
+
+    /**
+     * Set the phase stamped on requests logged from now on
+     */
+    setPhase(phase: Phase): void {
+        this.phase = phase;
+    }
 
     /**
      * Log an agent request
@@ -12,7 +22,8 @@ class AgentLogger {
         agentRole: string,
         systemPrompt: string,
         userPrompt: string,
-        model?: string
+        model?: string,
+        segmentId?: string
     ): string {
         const logId = crypto.randomUUID();
         const log: AgentLog = {
@@ -26,6 +37,9 @@ class AgentLogger {
                 user: userPrompt,
             },
             model,
+            provider: settingsService.getProvider(),
+            segmentId,
+            phase: this.phase,
         };
 
         this.logs.push(log);
@@ -51,8 +65,12 @@ class AgentLogger {
             agentName: requestLog.agentName,
             agentRole: requestLog.agentRole,
             action: 'response',
+            requestId: logId,
             response,
             model: requestLog.model,
+            provider: requestLog.provider,
+            segmentId: requestLog.segmentId,
+            phase: requestLog.phase,
             duration,
             tokens,
         };
@@ -82,6 +100,62 @@ class AgentLogger {
         this.notifyListeners();
     }
 
+    /**
+     * Log a request stopped by the user, keeping any partial response
+     */
+    logCancelled(
+        logId: string,
+        duration?: number,
+        partialResponse?: string
+    ): void {
+        const requestLog = this.logs.find(log => log.id === logId);
+        if (!requestLog) return;
+
+        const log: AgentLog = {
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+            agentName: requestLog.agentName,
+            agentRole: requestLog.agentRole,
+            action: 'cancelled',
+            requestId: logId,
+            response: partialResponse || undefined,
+            model: requestLog.model,
+            duration,
+        };
+
+        this.logs.push(log);
+        this.notifyListeners();
+    }
+
+    /**
+     * Log a failed attempt of a request that is about to be retried
+     */
+    logRetry(
+        logId: string,
+        attempt: number,
+        error: string,
+        retryDelay: number
+    ): void {
+        const requestLog = this.logs.find(log => log.id === logId);
+        if (!requestLog) return;
+
+        const log: AgentLog = {
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+            agentName: requestLog.agentName,
+            agentRole: requestLog.agentRole,
+            action: 'retry',
+            requestId: logId,
+            error,
+            model: requestLog.model,
+            attempt,
+            retryDelay,
+        };
+
+        this.logs.push(log);
+        this.notifyListeners();
+    }
+
     /**
      * Get all logs
      */
@@ -89,6 +163,14 @@ class AgentLogger {
         return [...this.logs];
     }
 
+    /**
+     * Replace all logs, e.g. when importing a project
+     */
+    restoreLogs(logs: AgentLog[]): void {
+        this.logs = [...logs];
+        this.notifyListeners();
+    }
+
     /**
      * Clear all logs
      */
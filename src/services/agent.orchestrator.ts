@@ -1,12 +1,63 @@
 import { Agent, AgentStatus } from '../types';
+import { LLMProvider } from '../constants/llm-providers';
+import { settingsService } from './settings.service';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 2, normal: 1, low: 0 };
+
+// A unit of agent work scheduled through the queue
+export interface AgentJob<T> {
+    id: string; // Also the agent id shown in the visualizer
+    name: string;
+    model: string; // Jobs for the same provider and model share one concurrency limit
+    task: () => Promise<T>;
+    priority?: JobPriority; // Defaults to normal
+    group?: string; // Groups of equal priority take turns, so one batch cannot starve another
+    signal?: AbortSignal; // Aborting while queued removes the job without running it
+}
+
+// Identity and scheduling of a job, for agents that queue sub-jobs of their own
+export type JobOptions = Pick<AgentJob<unknown>, 'id' | 'name' | 'priority' | 'group'>;
+
+// Live state of one provider/model queue
+export interface QueueLane {
+    key: string;
+    provider: LLMProvider;
+    model: string;
+    running: number;
+    queued: number;
+    limit: number;
+}
+
+interface PendingJob {
+    agentId: string;
+    rank: number;
+    group: string;
+    sequence: number;
+    start: () => void;
+}
+
+interface Lane {
+    provider: LLMProvider;
+    model: string;
+    running: number;
+    pending: PendingJob[];
+    lastServed: Map<string, number>; // Group to the dispatch count when it last got a slot
+}
+
+const FINISHED_STATUSES = new Set([AgentStatus.COMPLETED, AgentStatus.FAILED, AgentStatus.CANCELLED]);
 
 /**
- * AgentOrchestrator manages parallel agent execution.
- * Handles error recovery and user iteration loops.
+ * AgentOrchestrator schedules agent jobs through per provider/model queues.
+ * Limits requests in flight, runs higher priorities first and rotates between groups.
  */
 export class AgentOrchestrator {
     private agents: Map<string, Agent> = new Map();
     private listeners: Set<(agents: Agent[]) => void> = new Set();
+    private lanes: Map<string, Lane> = new Map();
+    private sequence = 0;
+    private dispatched = 0;
 
     /**
      * Register an agent
@@ -28,62 +79,87 @@ export class AgentOrchestrator {
     }
 
     /**
-     * Run multiple agents in parallel
+     * Queue a job and resolve with its result once it has had a slot and finished
      */
-    async runParallelAgents(
-        agentTasks: Array<{
-            id: string;
-            name: string;
-            task: () => Promise<string>;
-        }>
-    ): Promise<Map<string, string>> {
-        // Register all agents
-        agentTasks.forEach(({ id, name }) => {
-            this.registerAgent({
-                id,
-                name,
-                status: AgentStatus.IDLE,
-                progress: 0,
-            });
-        });
-
-        // Execute all tasks in parallel using Promise.allSettled
-        const results = await Promise.allSettled(
-            agentTasks.map(async ({ id, task }) => {
+    runAgent<T>(job: AgentJob<T>): Promise<T> {
+        const provider = settingsService.getProvider();
+        const key = `${provider}/${job.model}`;
+        const priority = job.priority ?? 'normal';
+        const lane = this.getLane(key, provider, job.model);
 
-                try {
-                    this.updateAgent(id, { status: AgentStatus.RUNNING, progress: 0 });
+        return new Promise<T>((resolve, reject) => {
+            if (job.signal?.aborted) {
+                reject(job.signal.reason);
+                return;
+            }
 
-                    const result = await task();
+            const entry: PendingJob = {
+                agentId: job.id,
+                rank: PRIORITY_RANK[priority],
+                group: job.group ?? job.id,
+                sequence: this.sequence++,
+                start: () => {
+                    job.signal?.removeEventListener('abort', onAbort);
+                    lane.running++;
+                    this.updateAgent(job.id, { status: AgentStatus.RUNNING, queuePosition: undefined });
 
-                    this.updateAgent(id, {
-                        status: AgentStatus.COMPLETED,
-                        progress: 100,
-                        output: result,
+                    job.task().then(
+                        result => {
+                            this.updateAgent(job.id, {
+                                status: AgentStatus.COMPLETED,
+                                progress: 100,
+                                output: typeof result === 'string' ? result : undefined,
+                            });
+                            resolve(result);
+                        },
+                        error => {
+                            this.updateAgent(job.id, job.signal?.aborted
+                                ? { status: AgentStatus.CANCELLED }
+                                : { status: AgentStatus.FAILED, error: error instanceof Error ? error.message : 'Unknown error' });
+                            reject(error);
+                        }
+                    ).finally(() => {
+                        lane.running--;
+                        this.dispatch(lane);
                     });
+                },
+            };
 
-                    return { id, result };
-                } catch (error) {
-                    this.updateAgent(id, {
-                        status: AgentStatus.FAILED,
-                        error: error instanceof Error ? error.message : 'Unknown error',
-                    });
-                    throw error;
-                }
-            })
-        );
-
-        // Collect results
-        const outputMap = new Map<string, string>();
-        results.forEach((result, index) => {
-            if (result.status === 'fulfilled') {
-                outputMap.set(result.value.id, result.value.result);
-            } else {
-                console.error(`Agent ${agentTasks[index].id} failed:`, result.reason);
-            }
+            const onAbort = () => {
+                lane.pending = lane.pending.filter(pending => pending !== entry);
+                this.updateAgent(job.id, { status: AgentStatus.CANCELLED, queuePosition: undefined });
+                this.updatePositions(lane);
+                reject(job.signal?.reason);
+            };
+            job.signal?.addEventListener('abort', onAbort, { once: true });
+
+            this.registerAgent({ id: job.id, name: job.name, status: AgentStatus.QUEUED, progress: 0, lane: key, priority });
+            lane.pending.push(entry);
+            this.dispatch(lane);
         });
+    }
+
+    /**
+     * Run multiple agents through the queue, settling each result in input order
+     */
+    async runParallelAgents<T>(jobs: AgentJob<T>[]): Promise<PromiseSettledResult<T>[]> {
+        return Promise.allSettled(jobs.map(job => this.runAgent(job)));
+    }
 
-        return outputMap;
+    /**
+     * Get the queues that have running or waiting jobs
+     */
+    getLanes(): QueueLane[] {
+        return Array.from(this.lanes.entries())
+            .filter(([, lane]) => lane.running > 0 || lane.pending.length > 0)
+            .map(([key, lane]) => ({
+                key,
+                provider: lane.provider,
+                model: lane.model,
+                running: lane.running,
+                queued: lane.pending.length,
+                limit: settingsService.getMaxInFlight(lane.provider, lane.model),
+            }));
     }
 
     /**
@@ -101,6 +177,18 @@ export class AgentOrchestrator {
         return Array.from(this.agents.values());
     }
 
+    /**
+     * Remove agents that have completed, failed or been cancelled
+     */
+    clearFinished(): void {
+        this.agents.forEach((agent, id) => {
+            if (FINISHED_STATUSES.has(agent.status)) {
+                this.agents.delete(id);
+            }
+        });
+        this.notifyListeners();
+    }
+
     /**
      * Clear all agents
      */
@@ -109,6 +197,59 @@ export class AgentOrchestrator {
         this.notifyListeners();
     }
 
+    private getLane(key: string, provider: LLMProvider, model: string): Lane {
+        let lane = this.lanes.get(key);
+        if (!lane) {
+            lane = { provider, model, running: 0, pending: [], lastServed: new Map() };
+            this.lanes.set(key, lane);
+        }
+        return lane;
+    }
+
+    // Start waiting jobs while the lane has free slots; the limit is read each time so settings apply live
+    private dispatch(lane: Lane): void {
+        const limit = settingsService.getMaxInFlight(lane.provider, lane.model);
+        while (lane.running < limit && lane.pending.length > 0) {
+            const next = this.pickNext(lane.pending, lane.lastServed);
+            lane.pending = lane.pending.filter(pending => pending !== next);
+            lane.lastServed.set(next.group, ++this.dispatched);
+            next.start();
+        }
+        this.updatePositions(lane);
+    }
+
+    // Highest priority first, then the group served least recently, then first come first served
+    private pickNext(pending: PendingJob[], lastServed: Map<string, number>): PendingJob {
+        return pending.reduce((best, candidate) => {
+            if (candidate.rank !== best.rank) {
+                return candidate.rank > best.rank ? candidate : best;
+            }
+            const candidateServed = lastServed.get(candidate.group) ?? -1;
+            const bestServed = lastServed.get(best.group) ?? -1;
+            if (candidateServed !== bestServed) {
+                return candidateServed < bestServed ? candidate : best;
+            }
+            return candidate.sequence < best.sequence ? candidate : best;
+        });
+    }
+
+    // Replay the pick order on a copy to number the waiting jobs
+    private updatePositions(lane: Lane): void {
+        const remaining = [...lane.pending];
+        const served = new Map(lane.lastServed);
+        let position = 0;
+        while (remaining.length > 0) {
+            const next = this.pickNext(remaining, served);
+            remaining.splice(remaining.indexOf(next), 1);
+            served.set(next.group, this.dispatched + ++position);
+            const agent = this.agents.get(next.agentId);
+            if (agent) {
+                agent.queuePosition = position;
+            }
+        }
+        this.notifyListeners();
+    }
+
     private notifyListeners(): void {
         const agents = this.getAgents();
         this.listeners.forEach((listener) => listener(agents));
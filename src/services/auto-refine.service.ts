@@ -0,0 +1,114 @@
+import { agentOrchestrator } from './agent.orchestrator';
+import { criticAgent } from './critic.agent';
+import { writerAgent } from './writer.agent';
+import { settingsService } from './settings.service';
+import { CriticEvaluation, RefineIteration } from '../types/phases';
+import { Transcript } from '../types';
+
+export type RefineStep = 'evaluating' | 'rewriting';
+
+export interface RefineOptions {
+    minScore: number;
+    maxRewrites: number;
+    group?: string; // Queue group shared by the loop's critic and writer jobs
+    signal?: AbortSignal;
+    onStep?: (step: RefineStep) => void;
+    onIteration?: (iterations: RefineIteration[]) => void; // Called with every draft as it is added or evaluated
+}
+
+export interface RefineResult {
+    iterations: RefineIteration[];
+    converged: boolean; // The last draft met the threshold before the rewrites ran out
+}
+
+// The parts of a framework segment or gap suggestion the loop needs
+interface RefineTarget {
+    id: string;
+    title: string;
+    objective: string;
+    guidance: string;
+}
+
+/**
+ * Runs the critique and rewrite loop for a segment: evaluate, rewrite if below the bar, re-evaluate
+ */
+class AutoRefineService {
+    /**
+     * Whether an evaluation passes source alignment and meets the objective score threshold
+     */
+    passes(evaluation: CriticEvaluation, minScore: number): boolean {
+        return evaluation.sourceAlignment && evaluation.objectiveFulfillmentScore >= minScore;
+    }
+
+    /**
+     * Pick the draft to keep: aligned drafts first, then the highest score, the later draft on ties
+     */
+    pickBest(iterations: RefineIteration[]): RefineIteration {
+        const rank = (iteration: RefineIteration): number => iteration.evaluation
+            ? (iteration.evaluation.sourceAlignment ? 1000 : 0) + iteration.evaluation.objectiveFulfillmentScore
+            : -1;
+        return iterations.reduce((best, candidate) => rank(candidate) >= rank(best) ? candidate : best);
+    }
+
+    /**
+     * Evaluate the draft and rewrite it until the critic passes it or the rewrites run out.
+     * Queues its own critic and writer jobs, so call it outside any queued job.
+     */
+    async refine(target: RefineTarget, content: string, transcript: Transcript, options: RefineOptions): Promise<RefineResult> {
+        const { minScore, maxRewrites, signal } = options;
+        const iterations: RefineIteration[] = [];
+        let draft = content;
+        let evidence: string | undefined;
+
+        for (let iteration = 1; ; iteration++) {
+            iterations.push({ iteration, content: draft, createdAt: new Date() });
+            options.onIteration?.([...iterations]);
+
+            options.onStep?.('evaluating');
+            const evaluation = await this.evaluate(target, draft, transcript, iteration, options);
+            iterations[iterations.length - 1] = { ...iterations[iterations.length - 1], evaluation };
+            options.onIteration?.([...iterations]);
+
+            if (this.passes(evaluation, minScore)) {
+                return { iterations, converged: true };
+            }
+            if (iteration > maxRewrites) {
+                return { iterations, converged: false };
+            }
+
+            options.onStep?.('rewriting');
+            const previous = draft;
+            const job = { id: `refine:${target.id}:rewrite${iteration}`, name: `Rewrite: ${target.title} (round ${iteration})`, group: options.group };
+
+            // Evidence depends only on the segment, so a long transcript is gathered from once and reused every round
+            if (evidence === undefined && writerAgent.needsRewriteChunking(previous, evaluation.evaluation, target.objective, transcript)) {
+                evidence = await writerAgent.gatherEvidence(target.id, target.title, target.objective, target.guidance, transcript, job, signal);
+            }
+            const source = evidence;
+            draft = await agentOrchestrator.runAgent({
+                ...job,
+                model: settingsService.getAgentModel('writer'),
+                signal,
+                task: () => writerAgent.rewriteSegment(target.id, previous, evaluation.evaluation, target.objective, transcript, signal, source),
+            });
+        }
+    }
+
+    // A transcript too long for the critic model is checked chunk by chunk before the critic job is queued
+    private async evaluate(target: RefineTarget, draft: string, transcript: Transcript, iteration: number, options: RefineOptions): Promise<CriticEvaluation> {
+        const { signal } = options;
+        const job = { id: `refine:${target.id}:critic${iteration}`, name: `Critic: ${target.title} (draft ${iteration})`, group: options.group };
+        const claimChecks = criticAgent.needsChunking(draft, target.objective, transcript)
+            ? await criticAgent.checkClaims(target.id, draft, target.objective, transcript, job, signal)
+            : undefined;
+
+        return agentOrchestrator.runAgent({
+            ...job,
+            model: settingsService.getAgentModel('critic'),
+            signal,
+            task: () => criticAgent.evaluateSegment(target.id, draft, target.objective, transcript, signal, claimChecks),
+        });
+    }
+}
+
+export const autoRefineService = new AutoRefineService();
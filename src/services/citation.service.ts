@@ -0,0 +1,59 @@
+// Links analyses to the transcript turns they draw on, through turn citations and verified quotes
+
+import { Transcript } from '../types';
+import { quoteVerifierService } from './quote-verifier.service';
+
+// Turn citations such as [T12] or [T3, T4] in an analysis
+const TURN_CITATION = /\bT(\d+)\b/g;
+
+// An analysis whose citations are counted towards transcript coverage
+export interface CitationSource {
+    id: string;
+    title: string;
+    content: string;
+}
+
+/**
+ * Finds which transcript turns each analysis cites, for evidence links and coverage
+ */
+class CitationService {
+    /**
+     * Get the 0-based turn indexes cited as T-labels in an analysis, in order of first citation
+     */
+    getTurnCitations(content: string): number[] {
+        const indexes = Array.from(content.matchAll(TURN_CITATION), match => Number(match[1]) - 1);
+        return Array.from(new Set(indexes));
+    }
+
+    /**
+     * Get the turns an analysis draws on: cited T-labels that exist in the transcript, plus turns holding its verified quotes
+     */
+    getCitedTurns(content: string, transcript: Transcript): number[] {
+        const cited = new Set(this.getTurnCitations(content).filter(index => index >= 0 && index < transcript.turns.length));
+        for (const quote of quoteVerifierService.verifyContent(content, transcript)) {
+            if (!quote.verified || !quote.match) continue;
+            // Elided quotes can span several turns
+            for (const turn of transcript.turns) {
+                if (turn.endOffset > quote.match.startOffset && turn.startOffset < quote.match.endOffset) {
+                    cited.add(turn.index);
+                }
+            }
+        }
+        return Array.from(cited).sort((a, b) => a - b);
+    }
+
+    /**
+     * Map each turn index to the titles of the analyses citing it; uncited turns are left out
+     */
+    getCoverage(sources: CitationSource[], transcript: Transcript): Map<number, string[]> {
+        const coverage = new Map<number, string[]>();
+        for (const source of sources) {
+            for (const index of this.getCitedTurns(source.content, transcript)) {
+                coverage.set(index, [...(coverage.get(index) ?? []), source.title]);
+            }
+        }
+        return coverage;
+    }
+}
+
+export const citationService = new CitationService();
@@ -0,0 +1,203 @@
+import { Code, CodedExcerpt, CodeSource, CodingStatus } from '../types/phases';
+import { refiQdaService } from './refi-qda.service';
+
+// Excerpts fed back into a code's examples are cut to this length to keep coding prompts small
+const MAX_EXAMPLE_CHARS = 300;
+
+// Separates several rules or examples in one CSV cell
+const CSV_LIST_SEPARATOR = /\s*[|;]\s*/;
+
+// The fields of a code that can be proposed, imported or typed in
+export type CodeFields = Pick<Code, 'name' | 'definition'> & Partial<Pick<Code, 'includeRules' | 'excludeRules' | 'examples' | 'counterExamples'>>;
+
+/**
+ * Keeps the project codebook: creating, importing and exporting codes, and feeding review decisions back into them
+ */
+class CodebookService {
+    /**
+     * Create a code with a fresh id
+     */
+    createCode(fields: CodeFields, source: CodeSource): Code {
+        return {
+            id: crypto.randomUUID(),
+            name: fields.name.trim(),
+            definition: fields.definition.trim(),
+            includeRules: fields.includeRules ?? [],
+            excludeRules: fields.excludeRules ?? [],
+            examples: fields.examples ?? [],
+            counterExamples: fields.counterExamples ?? [],
+            source,
+            createdAt: new Date(),
+        };
+    }
+
+    /**
+     * Read codes from a JSON export of this app, a JSON array of codes, a CSV file with a header row or a REFI-QDA codebook
+     */
+    parseImport(text: string, fileName: string): Code[] {
+        const extension = fileName.toLowerCase().split('.').pop();
+        const fields = extension === 'csv' ? this.parseCsv(text)
+            : extension === 'qdc' || extension === 'qde' ? refiQdaService.parseCodebook(text)
+                : this.parseJson(text);
+        const codes = fields.filter(code => code.name.trim()).map(code => this.createCode(code, 'imported'));
+        if (codes.length === 0) {
+            throw new Error('The file contains no codes');
+        }
+        return codes;
+    }
+
+    /**
+     * Serialize the codebook for download
+     */
+    toJson(codebook: Code[]): string {
+        return JSON.stringify({
+            codes: codebook.map(({ name, definition, includeRules, excludeRules, examples, counterExamples }) =>
+                ({ name, definition, includeRules, excludeRules, examples, counterExamples })),
+        }, null, 2);
+    }
+
+    /**
+     * Add codes to a codebook, skipping those whose name is already taken
+     */
+    merge(codebook: Code[], codes: Code[]): Code[] {
+        const names = new Set(codebook.map(code => code.name.toLowerCase()));
+        return [...codebook, ...codes.filter(code => !names.has(code.name.toLowerCase()))];
+    }
+
+    /**
+     * Record a review decision on the excerpt's code: accepted turns become examples, rejected ones counter-examples
+     */
+    applyReview(codebook: Code[], excerpt: CodedExcerpt, turnText: string, status: CodingStatus): Code[] {
+        const passage = this.toExample(turnText);
+        return codebook.map(code => {
+            if (code.id !== excerpt.codeId) return code;
+            const examples = code.examples.filter(example => example !== passage);
+            const counterExamples = code.counterExamples.filter(example => example !== passage);
+            return {
+                ...code,
+                examples: status === 'accepted' ? [...examples, passage] : examples,
+                counterExamples: status === 'rejected' ? [...counterExamples, passage] : counterExamples,
+            };
+        });
+    }
+
+    /**
+     * Replace an interview's unreviewed codings with fresh ones, keeping every reviewed coding
+     */
+    mergeCodings(existing: CodedExcerpt[], transcriptId: string, fresh: CodedExcerpt[]): CodedExcerpt[] {
+        const kept = existing.filter(excerpt => excerpt.transcriptId !== transcriptId || excerpt.status !== 'suggested');
+        const taken = new Set(kept
+            .filter(excerpt => excerpt.transcriptId === transcriptId)
+            .map(excerpt => `${excerpt.codeId}:${excerpt.turnIndex}`));
+        return [...kept, ...fresh.filter(excerpt => !taken.has(`${excerpt.codeId}:${excerpt.turnIndex}`))];
+    }
+
+    // Single-line passage of a turn, cut at a word boundary
+    private toExample(text: string): string {
+        const flat = text.replace(/\s+/g, ' ').trim();
+        if (flat.length <= MAX_EXAMPLE_CHARS) return flat;
+        const cut = flat.slice(0, MAX_EXAMPLE_CHARS);
+        return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), MAX_EXAMPLE_CHARS / 2))}…`;
+    }
+
+    private parseJson(text: string): CodeFields[] {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch {
+            throw new Error('The file is not valid JSON');
+        }
+        const list = Array.isArray(raw) ? raw : (raw as { codes?: unknown } | null)?.codes;
+        if (!Array.isArray(list)) {
+            throw new Error('Expected a list of codes or an object with a "codes" list');
+        }
+
+        const toList = (value: unknown): string[] => Array.isArray(value)
+            ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+            : typeof value === 'string' && value.trim() ? [value.trim()] : [];
+
+        return list.map(entry => {
+            const code = (entry ?? {}) as Record<string, unknown>;
+            return {
+                name: typeof code.name === 'string' ? code.name : '',
+                definition: typeof code.definition === 'string' ? code.definition : '',
+                includeRules: toList(code.includeRules ?? code.include),
+                excludeRules: toList(code.excludeRules ?? code.exclude),
+                examples: toList(code.examples),
+                counterExamples: toList(code.counterExamples),
+            };
+        });
+    }
+
+    // Columns are found by header name: name, definition, include, exclude, examples
+    private parseCsv(text: string): CodeFields[] {
+        const rows = this.readCsvRows(text);
+        if (rows.length < 2) {
+            throw new Error('Expected a header row and at least one code');
+        }
+
+        const header = rows[0].map(cell => cell.trim().toLowerCase());
+        const column = (...names: string[]) => header.findIndex(cell => names.some(name => cell.startsWith(name)));
+        const nameColumn = column('name', 'code');
+        if (nameColumn < 0) {
+            throw new Error('The CSV needs a "name" column');
+        }
+        const definitionColumn = column('definition', 'description');
+        const includeColumn = column('include');
+        const excludeColumn = column('exclude');
+        const examplesColumn = column('example');
+
+        const cell = (row: string[], index: number) => index >= 0 ? (row[index] ?? '').trim() : '';
+        const list = (row: string[], index: number) => cell(row, index).split(CSV_LIST_SEPARATOR).filter(Boolean);
+
+        return rows.slice(1).map(row => ({
+            name: cell(row, nameColumn),
+            definition: cell(row, definitionColumn),
+            includeRules: list(row, includeColumn),
+            excludeRules: list(row, excludeColumn),
+            examples: list(row, examplesColumn),
+        }));
+    }
+
+    // RFC 4180 rows: quoted cells may hold commas, doubled quotes and line breaks
+    private readCsvRows(text: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let cell = '';
+        let quoted = false;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    cell += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                row.push(cell);
+                cell = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                row.push(cell);
+                rows.push(row);
+                row = [];
+                cell = '';
+            } else {
+                cell += char;
+            }
+        }
+        if (cell || row.length > 0) {
+            row.push(cell);
+            rows.push(row);
+        }
+        return rows.filter(cells => cells.some(value => value.trim()));
+    }
+}
+
+export const codebookService = new CodebookService();
@@ -0,0 +1,257 @@
+import { transcriptParserService } from './transcript-parser.service';
+import { settingsService } from './settings.service';
+import { agentOrchestrator, JobOptions } from './agent.orchestrator';
+import { tokenEstimatorService } from './token-estimator.service';
+import { jsonCompletionService } from './json-completion.service';
+import { codebookService, CodeFields } from './codebook.service';
+import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
+import { Code, CodedExcerpt } from '../types/phases';
+import { Transcript } from '../types';
+
+// Review feedback shown per code in the coding prompt, latest first
+const MAX_PROMPT_EXAMPLES = 5;
+
+// One code assignment as returned by the model, before it is tied to ids
+interface TurnCoding {
+    turnIndex: number;
+    codeId: string;
+    justification: string;
+}
+
+export class CodingAgent {
+    /**
+     * Get the configured model for this agent
+     */
+    private getModel(): string {
+        return settingsService.getAgentModel('coding');
+    }
+
+    /**
+     * Proposes a codebook for the transcript. A transcript too long for the model is read from its opening part only.
+     */
+    async proposeCodebook(transcript: Transcript, objective?: string, signal?: AbortSignal): Promise<Code[]> {
+        const model = this.getModel();
+        let { systemPrompt, userPrompt } = this.buildProposeCodebookPrompt(transcriptParserService.toPromptText(transcript), objective, false);
+        if (tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, settingsService.getProvider(), model).status === 'over') {
+            const empty = this.buildProposeCodebookPrompt('', objective, true);
+            const [opening] = transcriptParserService.chunk(transcript, tokenEstimatorService.getChunkBudget(empty.systemPrompt, empty.userPrompt, model), model);
+            ({ systemPrompt, userPrompt } = this.buildProposeCodebookPrompt(transcriptParserService.toPromptText(opening), objective, true));
+        }
+
+        const codes = await this.completeJson(systemPrompt, userPrompt, reply => this.parseCodebook(reply), signal);
+        return codes.map(code => codebookService.createCode(code, 'proposed'));
+    }
+
+    /**
+     * Applies the codebook to every speaker turn, splitting the transcript into chunks that fit the model.
+     * Queues one job per chunk itself, so call it outside any queued job.
+     */
+    async codeTranscript(
+        transcriptId: string,
+        transcript: Transcript,
+        codebook: Code[],
+        job: JobOptions,
+        signal?: AbortSignal
+    ): Promise<CodedExcerpt[]> {
+        const model = this.getModel();
+        const empty = this.buildCodeTurnsPrompt(codebook, '', 1, 1);
+        const chunks = transcriptParserService.chunk(transcript, tokenEstimatorService.getChunkBudget(empty.systemPrompt, empty.userPrompt, model), model);
+
+        const settled = await agentOrchestrator.runParallelAgents(chunks.map((chunk, index) => ({
+            id: chunks.length > 1 ? `${job.id}:part${index + 1}` : job.id,
+            name: chunks.length > 1 ? `${job.name} (part ${index + 1}/${chunks.length})` : job.name,
+            model,
+            priority: job.priority,
+            group: job.group,
+            signal,
+            task: () => this.codeChunk(chunk, codebook, index, chunks.length, signal),
+        })));
+
+        const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+
+        // Chunks overlap by a few turns, so the same coding can come back twice
+        const seen = new Set<string>();
+        return settled
+            .flatMap(result => result.status === 'fulfilled' ? result.value : [])
+            .filter(coding => {
+                const key = `${coding.codeId}:${coding.turnIndex}`;
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            })
+            .map(coding => ({
+                id: crypto.randomUUID(),
+                transcriptId,
+                ...coding,
+                status: 'suggested' as const,
+                createdAt: new Date(),
+            }));
+    }
+
+    private buildProposeCodebookPrompt(
+        transcriptText: string,
+        objective: string | undefined,
+        isOpeningOnly: boolean
+    ): { systemPrompt: string; userPrompt: string } {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.coding.proposeCodebook;
+        const systemPrompt = settingsService.getAgentInstruction('coding', 'proposeCodebook') || defaultPrompt;
+
+        const userPrompt = `${objective ? `Research Objective: ${objective}\n\n` : ''}${isOpeningOnly ? 'Transcript (opening part; the full transcript is too long to include):' : 'Transcript:'}
+${transcriptText}
+
+Propose a codebook for this transcript.
+
+Respond with ONLY a JSON object in this EXACT shape, without any other text:
+
+{
+  "codes": [
+    {
+      "name": "short code name",
+      "definition": "what the code captures",
+      "includeRules": ["when to apply the code"],
+      "excludeRules": ["when not to apply it"],
+      "examples": ["short passage from the transcript the code fits"]
+    }
+  ]
+}`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private buildCodeTurnsPrompt(
+        codebook: Code[],
+        transcriptText: string,
+        part: number,
+        parts: number
+    ): { systemPrompt: string; userPrompt: string } {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.coding.codeTurns;
+        const systemPrompt = settingsService.getAgentInstruction('coding', 'codeTurns') || defaultPrompt;
+
+        const userPrompt = `Codebook:
+
+${codebook.map(code => this.formatCode(code)).join('\n\n')}
+
+Transcript${parts > 1 ? ` (part ${part} of ${parts})` : ''}:
+${transcriptText}
+
+Apply the codebook to the speaker turns above.
+
+Respond with ONLY a JSON object in this EXACT shape, without any other text:
+
+{
+  "codings": [
+    {
+      "turn": "turn label, e.g. T12",
+      "code": "exact code name from the codebook",
+      "justification": "one sentence on why the code applies to this turn"
+    }
+  ]
+}`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private formatCode(code: Code): string {
+        const lines = [`### ${code.name}`, code.definition];
+        const list = (label: string, items: string[], quoted = false) => {
+            if (items.length === 0) return;
+            lines.push(`${label}:`);
+            items.forEach(item => lines.push(quoted ? `- "${item}"` : `- ${item}`));
+        };
+        list('Apply when', code.includeRules);
+        list('Do not apply when', code.excludeRules);
+        list('Examples', code.examples.slice(-MAX_PROMPT_EXAMPLES), true);
+        list('Rejected by reviewers, do not code passages like these', code.counterExamples.slice(-MAX_PROMPT_EXAMPLES), true);
+        return lines.join('\n');
+    }
+
+    private async codeChunk(chunk: Transcript, codebook: Code[], index: number, total: number, signal?: AbortSignal): Promise<TurnCoding[]> {
+        const { systemPrompt, userPrompt } = this.buildCodeTurnsPrompt(codebook, transcriptParserService.toPromptText(chunk), index + 1, total);
+        return this.completeJson(systemPrompt, userPrompt, reply => this.parseCodings(reply, chunk, codebook), signal);
+    }
+
+    // Request a JSON reply from the coding model, with one repair request when it does not have the expected shape
+    private completeJson<T>(systemPrompt: string, userPrompt: string, parse: (reply: string) => T, signal?: AbortSignal): Promise<T> {
+        return jsonCompletionService.complete(
+            { agentName: 'Coding Agent', agentRole: 'coding', systemPrompt, userPrompt, model: this.getModel(), signal },
+            parse
+        );
+    }
+
+    // Validate a proposed codebook, listing every problem so a repair request can fix them at once
+    private parseCodebook(reply: string): CodeFields[] {
+        const { codes } = jsonCompletionService.parseObject(reply);
+        if (!Array.isArray(codes) || codes.length === 0) {
+            throw new Error('"codes" must be a non-empty array');
+        }
+
+        const problems: string[] = [];
+        const toList = (value: unknown): string[] => Array.isArray(value)
+            ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+            : [];
+
+        const fields = codes.flatMap((entry, index) => {
+            const code = entry as Record<string, unknown> | null;
+            if (typeof code?.name !== 'string' || !code.name.trim()) {
+                problems.push(`codes[${index}].name must be a non-empty string`);
+                return [];
+            }
+            if (typeof code.definition !== 'string' || !code.definition.trim()) {
+                problems.push(`codes[${index}].definition must be a non-empty string`);
+                return [];
+            }
+            return [{
+                name: code.name,
+                definition: code.definition,
+                includeRules: toList(code.includeRules),
+                excludeRules: toList(code.excludeRules),
+                examples: toList(code.examples),
+            }];
+        });
+
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+        return fields;
+    }
+
+    // Validate codings against the chunk's turn labels and the codebook's names
+    private parseCodings(reply: string, chunk: Transcript, codebook: Code[]): TurnCoding[] {
+        const { codings } = jsonCompletionService.parseObject(reply);
+        if (!Array.isArray(codings)) {
+            throw new Error('"codings" must be an array');
+        }
+
+        const turns = new Set(chunk.turns.map(turn => turn.index));
+        const codesByName = new Map(codebook.map(code => [code.name.trim().toLowerCase(), code]));
+        const problems: string[] = [];
+
+        const parsed = codings.flatMap((entry, index) => {
+            const coding = entry as Record<string, unknown> | null;
+            const label = typeof coding?.turn === 'string' ? coding.turn.trim().match(/^\[?T(\d+)\]?$/i) : null;
+            const turnIndex = label ? Number(label[1]) - 1 : -1;
+            const code = typeof coding?.code === 'string' ? codesByName.get(coding.code.trim().toLowerCase()) : undefined;
+
+            if (!turns.has(turnIndex)) {
+                problems.push(`codings[${index}].turn must be the label of a turn in this transcript, e.g. "T${chunk.turns[0].index + 1}"`);
+            } else if (!code) {
+                problems.push(`codings[${index}].code must be one of the codebook names`);
+            } else if (typeof coding?.justification !== 'string' || !coding.justification.trim()) {
+                problems.push(`codings[${index}].justification must be a non-empty string`);
+            } else {
+                return [{ turnIndex, codeId: code.id, justification: coding.justification.trim() }];
+            }
+            return [];
+        });
+
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+        return parsed;
+    }
+}
+
+export const codingAgent = new CodingAgent();
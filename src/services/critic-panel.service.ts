@@ -0,0 +1,84 @@
+import { agentOrchestrator } from './agent.orchestrator';
+import { criticAgent } from './critic.agent';
+import { settingsService, CriticRubric } from './settings.service';
+import { RubricEvaluation, Scorecard } from '../types/phases';
+import { Transcript } from '../types';
+
+export interface PanelOptions {
+    group?: string; // Queue group shared by the panel's critic jobs
+    signal?: AbortSignal;
+}
+
+// The parts of a framework segment the panel needs
+interface PanelTarget {
+    id: string;
+    title: string;
+    objective: string;
+}
+
+/**
+ * Runs one critic per user-defined rubric on a segment and aggregates their verdicts into a scorecard
+ */
+class CriticPanelService {
+    /**
+     * Get the rubrics picked for an analysis in settings order; every rubric when none were picked
+     */
+    getSelected(rubrics: CriticRubric[], rubricIds: string[] | null): CriticRubric[] {
+        if (!rubricIds) return rubrics;
+        const picked = new Set(rubricIds);
+        return rubrics.filter(rubric => picked.has(rubric.id));
+    }
+
+    /**
+     * Score the content with every rubric in parallel, each on its own model.
+     * Queues its own critic jobs, so call it outside any queued job.
+     */
+    async score(target: PanelTarget, content: string, transcript: Transcript, rubrics: CriticRubric[], options: PanelOptions = {}): Promise<Scorecard> {
+        const { group, signal } = options;
+        const settings = settingsService.load();
+        const settled = await agentOrchestrator.runParallelAgents(rubrics.map(rubric => ({
+            id: `panel:${target.id}:${rubric.id}`,
+            name: `${rubric.name}: ${target.title}`,
+            model: settingsService.getRubricModel(rubric, settings),
+            group,
+            signal,
+            task: () => criticAgent.evaluateRubric(target.id, content, target.objective, transcript, rubric, signal),
+        })));
+
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+
+        // A scorecard from the rubrics that answered, unless none did
+        const evaluations = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        if (evaluations.length === 0) {
+            const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+            throw failed?.reason ?? new Error('No rubrics selected');
+        }
+        const failedRubrics = rubrics.filter((_, index) => settled[index].status === 'rejected').map(rubric => rubric.name);
+
+        return this.aggregate(evaluations, failedRubrics, content);
+    }
+
+    /**
+     * Combine rubric results into a scorecard: the weighted mean score, passed when every rubric met its pass score
+     */
+    aggregate(evaluations: RubricEvaluation[], failedRubrics: string[], content: string): Scorecard {
+        // Rubrics all weighted zero count equally rather than dividing by nothing
+        const totalWeight = evaluations.reduce((sum, evaluation) => sum + Math.max(0, evaluation.weight), 0);
+        const overallScore = totalWeight > 0
+            ? evaluations.reduce((sum, evaluation) => sum + evaluation.score * Math.max(0, evaluation.weight), 0) / totalWeight
+            : evaluations.reduce((sum, evaluation) => sum + evaluation.score, 0) / Math.max(1, evaluations.length);
+
+        return {
+            evaluations,
+            failedRubrics,
+            overallScore: Math.round(overallScore),
+            passed: failedRubrics.length === 0 && evaluations.every(evaluation => evaluation.score >= evaluation.passScore),
+            content,
+            generatedAt: new Date(),
+        };
+    }
+}
+
+export const criticPanelService = new CriticPanelService();
@@ -1,8 +1,42 @@
-import { llmService } from './llm.service';
+import { llmService, CompletionUsage } from './llm.service';
+import { transcriptParserService } from './transcript-parser.service';
 import { agentLogger } from './agent-logger.service';
-import { settingsService } from './settings.service';
+import { settingsService, CriticRubric } from './settings.service';
+import { agentOrchestrator, JobOptions } from './agent.orchestrator';
+import { tokenEstimatorService } from './token-estimator.service';
+import { citationService } from './citation.service';
+import { jsonCompletionService } from './json-completion.service';
 import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
-import { CriticEvaluation } from '../types/phases';
+import { ClaimCheck, ClaimVerdict, CriticEvaluation, RubricEvaluation } from '../types/phases';
+import { Transcript } from '../types';
+
+// The reply checkClaims asks for when a chunk bears on none of the statements
+const NO_EVIDENCE = /^no relevant evidence\.?$/i;
+
+const CLAIM_VERDICTS: ClaimVerdict[] = ['supported', 'partially_supported', 'unsupported'];
+
+const VERDICT_LABELS: Record<ClaimVerdict, string> = {
+    supported: 'SUPPORTED',
+    partially_supported: 'PARTIALLY SUPPORTED',
+    unsupported: 'UNSUPPORTED',
+};
+
+// The evaluation fields the critic is asked to return as JSON
+interface EvaluationResponse {
+    claims: ClaimCheck[];
+    objectiveFulfillmentScore: number;
+    improvementGuidance: string;
+}
+
+// The fields a rubric critic is asked to return as JSON
+interface RubricResponse {
+    score: number;
+    findings: string[];
+    guidance: string;
+}
+
+// Stands in for a transcript too long for a rubric critic's model
+const TRANSCRIPT_OMITTED = 'The transcript is too long to include here. Judge the content on its own, and do not fault statements only because you cannot check them.';
 
 export class CriticAgent {
     /**
@@ -13,14 +47,148 @@ export class CriticAgent {
     }
 
     /**
-     * Evaluates a segment analysis for quality and source alignment
+     * Whether the full-transcript evaluation prompt is too large for the critic model's context window
+     */
+    needsChunking(segmentContent: string, segmentObjective: string, transcript: Transcript): boolean {
+        const { systemPrompt, userPrompt } = this.buildEvaluateSegmentPrompt(segmentContent, segmentObjective, transcriptParserService.toPromptText(transcript));
+        return tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, settingsService.getProvider(), this.getModel()).status === 'over';
+    }
+
+    /**
+     * Map step of chunked mode: checks the content against the transcript chunks holding the turns it cites, in parallel.
+     * Falls back to every chunk when nothing is cited. Queues one job per chunk itself, so call it before queueing the critic.
+     */
+    async checkClaims(
+        segmentId: string,
+        segmentContent: string,
+        segmentObjective: string,
+        transcript: Transcript,
+        job: JobOptions,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const model = this.getModel();
+        const empty = this.buildCheckClaimsPrompt(segmentContent, segmentObjective, '', 1, 1);
+        const chunks = transcriptParserService.chunk(transcript, tokenEstimatorService.getChunkBudget(empty.systemPrompt, empty.userPrompt, model), model);
+        const cited = new Set(citationService.getTurnCitations(segmentContent));
+        const citedChunks = chunks.filter(chunk => chunk.turns.some(turn => cited.has(turn.index)));
+        const relevant = citedChunks.length > 0 ? citedChunks : chunks;
+
+        const settled = await agentOrchestrator.runParallelAgents(relevant.map((chunk, index) => ({
+            id: `${job.id}:part${index + 1}`,
+            name: `${job.name} (part ${index + 1}/${relevant.length})`,
+            model,
+            priority: job.priority,
+            group: job.group,
+            signal,
+            task: () => this.checkChunk(segmentId, segmentContent, segmentObjective, chunk, index, relevant.length, signal),
+        })));
+
+        const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+
+        return settled
+            .flatMap((result, index) => {
+                const found = result.status === 'fulfilled' ? result.value : '';
+                const turns = relevant[index].turns;
+                const range = `${transcriptParserService.getTurnLabel(turns[0])}–${transcriptParserService.getTurnLabel(turns[turns.length - 1])}`;
+                return found && !NO_EVIDENCE.test(found) ? [`### Turns ${range}\n${found}`] : [];
+            })
+            .join('\n\n');
+    }
+
+    /**
+     * Evaluates a segment analysis for quality and source alignment, claim by claim from a JSON reply with one repair request if it is invalid.
+     * In chunked mode, pass the checks from checkClaims to judge the content on them instead of the full transcript.
      */
     async evaluateSegment(
         segmentId: string,
         segmentContent: string,
         segmentObjective: string,
-        transcript: string
+        transcript: Transcript,
+        signal?: AbortSignal,
+        claimChecks?: string
     ): Promise<CriticEvaluation> {
+        const source = claimChecks === undefined
+            ? transcriptParserService.toPromptText(transcript)
+            : `The transcript was too long to read at once. These are checks of the content against the parts of the transcript it draws on; treat a statement as unsupported only if no check supports it.
+
+${claimChecks || 'No part of the transcript was found to bear on the content.'}`;
+        const { systemPrompt, userPrompt } = this.buildEvaluateSegmentPrompt(segmentContent, segmentObjective, source);
+
+        const response = await this.completeJson(segmentId, systemPrompt, userPrompt, reply => this.parseEvaluation(reply, segmentContent.trim() !== ''), signal);
+
+        // Alignment follows from the verdicts rather than a separate PASS/FAIL the model could contradict
+        const issues = response.claims.filter(claim => claim.verdict !== 'supported');
+        return {
+            segmentId,
+            evaluation: this.formatEvaluation(response),
+            sourceAlignment: issues.length === 0,
+            sourceAlignmentIssues: issues.length > 0 ? issues.map(claim => claim.claim) : undefined,
+            objectiveFulfillmentScore: response.objectiveFulfillmentScore,
+            improvementGuidance: response.improvementGuidance,
+            claims: response.claims,
+            suggestions: [], // Legacy field
+            generatedAt: new Date(),
+        };
+    }
+
+    /**
+     * Scores a segment analysis against one user-defined rubric, on the rubric's own model and instructions.
+     * A transcript too long for that model is left out rather than chunked, as most rubrics judge the writing itself,
+     * and the result is flagged as judged without the transcript.
+     */
+    async evaluateRubric(
+        segmentId: string,
+        segmentContent: string,
+        segmentObjective: string,
+        transcript: Transcript,
+        rubric: CriticRubric,
+        signal?: AbortSignal
+    ): Promise<RubricEvaluation> {
+        const model = settingsService.getRubricModel(rubric);
+        let prompts = this.buildRubricPrompt(rubric, segmentContent, segmentObjective, transcriptParserService.toPromptText(transcript));
+        const withoutTranscript = tokenEstimatorService.checkPrompt(prompts.systemPrompt, prompts.userPrompt, settingsService.getProvider(), model).status === 'over';
+        if (withoutTranscript) {
+            prompts = this.buildRubricPrompt(rubric, segmentContent, segmentObjective, TRANSCRIPT_OMITTED);
+        }
+
+        const response = await this.completeJson(
+            segmentId,
+            prompts.systemPrompt,
+            prompts.userPrompt,
+            reply => this.parseRubricResponse(reply),
+            signal,
+            model,
+            `Critic Agent (${rubric.name})`
+        );
+
+        return {
+            rubricId: rubric.id,
+            rubricName: rubric.name,
+            model,
+            score: response.score,
+            passScore: rubric.passScore,
+            weight: rubric.weight,
+            findings: response.findings,
+            guidance: response.guidance,
+            withoutTranscript: withoutTranscript || undefined,
+            generatedAt: new Date(),
+        };
+    }
+
+    /**
+     * Evaluates a segment analysis for quality and source alignment (streaming version)
+     */
+    async *evaluateSegmentStream(
+        segmentId: string,
+        segmentContent: string,
+        segmentObjective: string,
+        transcript: Transcript,
+        signal?: AbortSignal,
+        onRestart?: () => void
+    ): AsyncGenerator<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.critic.evaluateSegment;
         const systemPrompt = settingsService.getAgentInstruction('critic', 'evaluateSegment') || defaultPrompt;
 
@@ -30,28 +198,15 @@ Content to Evaluate:
 ${segmentContent}
 
 Source Transcript:
-${transcript}
-
-Evaluate this content using ONLY these two criteria:
+${transcriptParserService.toPromptText(transcript)}
 
-1. **Source Alignment**: Check if EVERY statement in the content is supported by the source transcript.
-   - If even ONE statement is not supported, this is a FAIL
-   - If FAIL, list the specific unsupported statements
-
-2. **Objective Fulfillment**: Score from 0-100% how well the objective is met
-   - Provide specific guidance on how to improve
-
-Respond in this EXACT format:
-
-## Source Alignment
-[PASS or FAIL]
-[If FAIL, list each unsupported statement on a new line starting with "- "]
-
-## Objective Fulfillment
-Score: [0-100]%
+Evaluate this content using the following rubric:
+1. **Source Alignment**: Is every claim supported by the transcript?
+2. **Completeness**: Does it fully address the objective?
+3. **Clarity**: Is the writing clear and concise?
 
-## Improvement Guidance
-[Specific actionable guidance on how to improve the content]`;
+Output your evaluation in Markdown format.
+If there are issues, provide specific suggestions for improvement.`;
 
         const model = this.getModel();
         const startTime = Date.now();
@@ -60,70 +215,38 @@ Score: [0-100]%
             'critic',
             systemPrompt,
             userPrompt,
-            model
+            model,
+            segmentId
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
+                fullResponse += chunk;
+                yield chunk;
+            }
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
-                prompt: result.usage.prompt_tokens,
-                completion: result.usage.completion_tokens,
-                total: result.usage.total_tokens
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
             } : undefined);
-
-            // Parse the structured response
-            const sourceAlignmentMatch = result.content.match(/## Source Alignment\s+(PASS|FAIL)/i);
-            const sourceAlignment = sourceAlignmentMatch?.[1]?.toUpperCase() === 'PASS';
-
-            // Extract source alignment issues from bullet points
-            const sourceAlignmentIssues: string[] = [];
-            if (!sourceAlignment) {
-                const issuesSection = result.content.match(/## Source Alignment[\s\S]*?(?=## Objective Fulfillment|$)/i)?.[0];
-                if (issuesSection) {
-                    const lines = issuesSection.split('\n');
-                    // Extract bullet points from issues section
-                    for (const line of lines) {
-                        if (line.trim().match(/^[-•*]\s+/)) {
-                            sourceAlignmentIssues.push(line.trim().replace(/^[-•*]\s+/, ''));
-                        }
-                    }
-                }
-            }
-
-            // Extract objective fulfillment score
-            const scoreMatch = result.content.match(/Score:\s*(\d+)%?/i);
-            const objectiveFulfillmentScore = scoreMatch ? parseInt(scoreMatch[1], 10) : 0;
-
-            // Extract improvement guidance
-            const guidanceMatch = result.content.match(/## Improvement Guidance\s+([\s\S]*?)(?=##|$)/i);
-            const improvementGuidance = guidanceMatch?.[1]?.trim() || 'No specific guidance provided';
-
-            return {
-                segmentId,
-                evaluation: result.content.trim(),
-                sourceAlignment,
-                sourceAlignmentIssues: sourceAlignmentIssues.length > 0 ? sourceAlignmentIssues : undefined,
-                objectiveFulfillmentScore,
-                improvementGuidance,
-                suggestions: [], // Legacy field
-                generatedAt: new Date(),
-            };
         } catch (error) {
-            agentLogger.logError('Critic Agent', 'critic', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Critic Agent', 'critic', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
-    /**
-     * Evaluates a segment analysis for quality and source alignment (streaming version)
-     */
-    async *evaluateSegmentStream(
-        _segmentId: string,
+    private buildEvaluateSegmentPrompt(
         segmentContent: string,
         segmentObjective: string,
-        transcript: string
-    ): AsyncGenerator<string> {
+        source: string
+    ): { systemPrompt: string; userPrompt: string } {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.critic.evaluateSegment;
         const systemPrompt = settingsService.getAgentInstruction('critic', 'evaluateSegment') || defaultPrompt;
 
@@ -133,15 +256,221 @@ Content to Evaluate:
 ${segmentContent}
 
 Source Transcript:
-${transcript}
+${source}
 
-Evaluate this content using the following rubric:
-1. **Source Alignment**: Is every claim supported by the transcript?
-2. **Completeness**: Does it fully address the objective?
-3. **Clarity**: Is the writing clear and concise?
+Evaluate this content using ONLY these two criteria:
 
-Output your evaluation in Markdown format.
-If there are issues, provide specific suggestions for improvement.`;
+1. **Source Alignment**: Split the content into its factual statements and judge EVERY one against the source.
+   - "supported": the source says this
+   - "partially_supported": the source says part of this, or says it less strongly
+   - "unsupported": the source does not say this, or contradicts it
+   - Quote the passage each verdict rests on word for word, with its turn label, e.g. "T12"
+
+2. **Objective Fulfillment**: Score from 0 to 100 how well the objective is met
+   - Provide specific guidance on how to improve
+
+Respond with ONLY a JSON object in this EXACT shape, without any other text:
+
+{
+  "claims": [
+    {
+      "claim": "the statement, copied from the content",
+      "verdict": "supported" | "partially_supported" | "unsupported",
+      "evidence": "verbatim quote from the transcript, or an empty string if there is none",
+      "location": "turn labels of the evidence, e.g. T12, or an empty string",
+      "explanation": "one sentence on the verdict"
+    }
+  ],
+  "objectiveFulfillmentScore": 0-100,
+  "improvementGuidance": "specific actionable guidance on how to improve the content"
+}`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private buildRubricPrompt(
+        rubric: CriticRubric,
+        segmentContent: string,
+        segmentObjective: string,
+        source: string
+    ): { systemPrompt: string; userPrompt: string } {
+        const userPrompt = `Segment Objective: ${segmentObjective}
+
+Content to Evaluate:
+${segmentContent}
+
+Source Transcript:
+${source}
+
+Evaluate this content ONLY against the rubric "${rubric.name}" set out in your instructions.
+Score from 0 to 100 how well the content meets it.
+
+Respond with ONLY a JSON object in this EXACT shape, without any other text:
+
+{
+  "score": 0-100,
+  "findings": ["one specific observation per entry, quoting the content where it helps"],
+  "guidance": "specific actionable guidance on how the content could score higher on this rubric"
+}`;
+
+        return { systemPrompt: rubric.instructions, userPrompt };
+    }
+
+    // Request a JSON reply from the critic, with one repair request when it does not have the expected shape
+    private completeJson<T>(
+        segmentId: string,
+        systemPrompt: string,
+        userPrompt: string,
+        parse: (reply: string) => T,
+        signal?: AbortSignal,
+        model = this.getModel(),
+        agentName = 'Critic Agent'
+    ): Promise<T> {
+        return jsonCompletionService.complete(
+            { agentName, agentRole: 'critic', systemPrompt, userPrompt, model, segmentId, signal },
+            parse
+        );
+    }
+
+    // Validate the critic's JSON reply, listing every problem so a repair request can fix them at once.
+    // Content with no claims checked would otherwise pass alignment untested, so non-empty content needs at least one.
+    private parseEvaluation(reply: string, requireClaims: boolean): EvaluationResponse {
+        const { claims, objectiveFulfillmentScore, improvementGuidance } = jsonCompletionService.parseObject(reply);
+        const problems: string[] = [];
+        const optionalText = (value: unknown): string | undefined =>
+            typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+        const checks: ClaimCheck[] = [];
+        if (!Array.isArray(claims)) {
+            problems.push('"claims" must be an array');
+        } else if (requireClaims && claims.length === 0) {
+            problems.push('"claims" must list every factual claim in the content; it cannot be empty');
+        } else {
+            claims.forEach((entry, index) => {
+                const claim = entry as Record<string, unknown> | null;
+                const verdict = typeof claim?.verdict === 'string'
+                    ? claim.verdict.trim().toLowerCase().replace(/[\s-]+/g, '_') as ClaimVerdict
+                    : undefined;
+                if (typeof claim?.claim !== 'string' || !claim.claim.trim()) {
+                    problems.push(`claims[${index}].claim must be a non-empty string`);
+                } else if (!verdict || !CLAIM_VERDICTS.includes(verdict)) {
+                    problems.push(`claims[${index}].verdict must be one of ${CLAIM_VERDICTS.map(v => `"${v}"`).join(', ')}`);
+                } else {
+                    checks.push({
+                        claim: claim.claim.trim(),
+                        verdict,
+                        evidence: optionalText(claim.evidence),
+                        location: optionalText(claim.location),
+                        explanation: optionalText(claim.explanation),
+                    });
+                }
+            });
+        }
+
+        if (typeof objectiveFulfillmentScore !== 'number' || !Number.isFinite(objectiveFulfillmentScore)
+            || objectiveFulfillmentScore < 0 || objectiveFulfillmentScore > 100) {
+            problems.push('"objectiveFulfillmentScore" must be a number from 0 to 100');
+        }
+        if (typeof improvementGuidance !== 'string') {
+            problems.push('"improvementGuidance" must be a string');
+        }
+
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+
+        return {
+            claims: checks,
+            objectiveFulfillmentScore: Math.round(objectiveFulfillmentScore as number),
+            improvementGuidance: (improvementGuidance as string).trim() || 'No specific guidance provided',
+        };
+    }
+
+    // Validate a rubric critic's JSON reply the same way
+    private parseRubricResponse(reply: string): RubricResponse {
+        const { score, findings, guidance } = jsonCompletionService.parseObject(reply);
+        const problems: string[] = [];
+
+        if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+            problems.push('"score" must be a number from 0 to 100');
+        }
+        if (!Array.isArray(findings) || findings.some(finding => typeof finding !== 'string')) {
+            problems.push('"findings" must be an array of strings');
+        }
+        if (typeof guidance !== 'string') {
+            problems.push('"guidance" must be a string');
+        }
+
+        if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+        }
+
+        return {
+            score: Math.round(score as number),
+            findings: (findings as string[]).map(finding => finding.trim()).filter(Boolean),
+            guidance: (guidance as string).trim() || 'No specific guidance provided',
+        };
+    }
+
+    // Markdown rendering of the evaluation, also handed to the writer as rewrite feedback
+    private formatEvaluation(response: EvaluationResponse): string {
+        const issues = response.claims.filter(claim => claim.verdict !== 'supported');
+        const claimLines = response.claims.map(claim => {
+            const evidence = claim.evidence ? ` — evidence: "${claim.evidence}"${claim.location ? ` [${claim.location}]` : ''}` : '';
+            const explanation = claim.explanation ? ` — ${claim.explanation}` : '';
+            return `- **${VERDICT_LABELS[claim.verdict]}**: ${claim.claim}${evidence}${explanation}`;
+        });
+
+        return `## Source Alignment
+${issues.length === 0 ? 'PASS' : 'FAIL'}
+${claimLines.join('\n')}
+
+## Objective Fulfillment
+Score: ${response.objectiveFulfillmentScore}%
+
+## Improvement Guidance
+${response.improvementGuidance}`;
+    }
+
+    private buildCheckClaimsPrompt(
+        segmentContent: string,
+        segmentObjective: string,
+        transcriptText: string,
+        part: number,
+        parts: number
+    ): { systemPrompt: string; userPrompt: string } {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.critic.checkClaims;
+        const systemPrompt = settingsService.getAgentInstruction('critic', 'checkClaims') || defaultPrompt;
+
+        const userPrompt = `Segment Objective: ${segmentObjective}
+
+Content to Check:
+${segmentContent}
+
+Transcript (part ${part} of ${parts}):
+${transcriptText}
+
+Check the statements in the content that this part of the transcript bears on.`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private async checkChunk(
+        segmentId: string,
+        segmentContent: string,
+        segmentObjective: string,
+        chunk: Transcript,
+        index: number,
+        total: number,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const { systemPrompt, userPrompt } = this.buildCheckClaimsPrompt(
+            segmentContent,
+            segmentObjective,
+            transcriptParserService.toPromptText(chunk),
+            index + 1,
+            total
+        );
 
         const model = this.getModel();
         const startTime = Date.now();
@@ -150,19 +479,25 @@ If there are issues, provide specific suggestions for improvement.`;
             'critic',
             systemPrompt,
             userPrompt,
-            model
+            model,
+            segmentId
         );
 
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
-                fullResponse += chunk;
-                yield chunk;
-            }
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse, duration);
+            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
+                prompt: result.usage.prompt_tokens,
+                completion: result.usage.completion_tokens,
+                total: result.usage.total_tokens
+            } : undefined);
+            return result.content.trim();
         } catch (error) {
-            agentLogger.logError('Critic Agent', 'critic', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Critic Agent', 'critic', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
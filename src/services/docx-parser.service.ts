@@ -1,25 +1,39 @@
 import mammoth from 'mammoth';
+import { transcriptParserService } from './transcript-parser.service';
+import { Transcript } from '../types';
+
+// Map Word styles that transcription agencies use for speaker names onto markup we can detect
+const SPEAKER_STYLE_MAP = [
+    "p[style-name='Speaker'] => p.speaker:fresh",
+    "p[style-name='Speaker Name'] => p.speaker:fresh",
+    "r[style-name='Speaker'] => strong",
+    "r[style-name='Speaker Name'] => strong",
+];
+
+const TIMESTAMP_CELL = /^\[?((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?$/;
+const TABLE_HEADER_CELL = /^(speaker|name|participant|person|time|timestamp|start|text|utterance|transcript|dialogue)$/i;
+const MAX_SPEAKER_WORDS = 4;
 
 /**
- * Service for parsing DOCX files and extracting text content
+ * Service for parsing DOCX files into speaker-labelled transcripts
  */
 class DocxParserService {
     /**
-     * Parse a DOCX file and extract plain text
+     * Parse a DOCX file, detecting bold speaker labels, speaker styles and speaker/utterance tables
      */
-    async parseDocx(file: File): Promise<string> {
+    async parseDocx(file: File): Promise<Transcript> {
         try {
             // Convert File to ArrayBuffer
             const arrayBuffer = await file.arrayBuffer();
 
-            // Use mammoth to extract text
-            const result = await mammoth.extractRawText({ arrayBuffer });
+            // Use mammoth's HTML output so formatting and tables survive
+            const result = await mammoth.convertToHtml({ arrayBuffer }, { styleMap: SPEAKER_STYLE_MAP });
 
             if (result.messages && result.messages.length > 0) {
                 console.warn('DOCX parsing warnings:', result.messages);
             }
 
-            return result.value;
+            return transcriptParserService.parse(this.htmlToTranscriptText(result.value));
         } catch (error) {
             console.error('Error parsing DOCX file:', error);
             throw new Error('Failed to parse DOCX file. Please ensure it is a valid Word document.');
@@ -32,6 +46,146 @@ class DocxParserService {
     isDocxFile(file: File): boolean {
         return file.name.toLowerCase().endsWith('.docx');
     }
+
+    // Flatten the document into "[time] **Speaker:** text" paragraphs the transcript parser understands
+    private htmlToTranscriptText(html: string): string {
+        const doc = new DOMParser().parseFromString(html, 'text/html');
+        const paragraphs = Array.from(doc.body.children).flatMap(element =>
+            element.tagName === 'UL' || element.tagName === 'OL' ? Array.from(element.querySelectorAll('li')) : [element]);
+        const speakers = this.collectSpeakers(paragraphs);
+
+        const blocks = paragraphs.flatMap(element => element instanceof HTMLTableElement
+            ? this.tableToBlocks(element)
+            : [this.paragraphToBlock(element, speakers)]);
+
+        return blocks.filter(block => block.length > 0).join('\n\n');
+    }
+
+    // Names a bold label standing alone on its line may use: speakers labelled with a colon or a speaker style
+    // anywhere in the document, and names that stand alone more than once. A name standing alone only once is
+    // a section heading such as "Background Questions".
+    private collectSpeakers(paragraphs: Element[]): Set<string> {
+        const speakers = new Set<string>();
+        const standalone = new Map<string, number>();
+
+        paragraphs.forEach(element => {
+            if (element instanceof HTMLTableElement) return;
+            if (element.classList.contains('speaker')) {
+                speakers.add(this.normalizeText(element.textContent).replace(/:$/, '').toLowerCase());
+                return;
+            }
+            const label = this.readBoldLabel(element);
+            if (!label || !this.isSpeakerName(label.speaker)) return;
+            const name = label.speaker.toLowerCase();
+            if (label.hasColon) {
+                speakers.add(name);
+            } else if (!label.rest) {
+                standalone.set(name, (standalone.get(name) ?? 0) + 1);
+            }
+        });
+
+        standalone.forEach((count, name) => {
+            if (count > 1) speakers.add(name);
+        });
+        return speakers;
+    }
+
+    private paragraphToBlock(element: Element, speakers: Set<string>): string {
+        const text = this.normalizeText(element.textContent);
+        if (!text) return '';
+
+        if (element.classList.contains('speaker')) {
+            return this.formatLabel('', text.replace(/:$/, ''), '');
+        }
+
+        const label = this.readBoldLabel(element);
+        if (!label) return text;
+
+        // A bold label is a speaker when followed by a colon, or when it stands alone on its line and names a speaker
+        const { timestamp, speaker, rest, hasColon } = label;
+        if (!this.isSpeakerName(speaker) || (!hasColon && (rest || !speakers.has(speaker.toLowerCase())))) return text;
+
+        return this.formatLabel(timestamp, speaker, rest.replace(/^:\s*/, ''));
+    }
+
+    // The bold run at the start of a paragraph, optionally preceded by a timestamp, and the text after it
+    private readBoldLabel(element: Element): { timestamp: string; speaker: string; rest: string; hasColon: boolean } | null {
+        const nodes = Array.from(element.childNodes);
+        const boldIndex = nodes.findIndex(node => node instanceof HTMLElement && (node.tagName === 'STRONG' || node.tagName === 'B'));
+        if (boldIndex < 0) return null;
+
+        const prefix = this.normalizeText(nodes.slice(0, boldIndex).map(node => node.textContent).join(''));
+        const timestamp = prefix.match(TIMESTAMP_CELL)?.[1];
+        if (prefix && !timestamp) return null;
+
+        const label = this.normalizeText(nodes[boldIndex].textContent);
+        const rest = this.normalizeText(nodes.slice(boldIndex + 1).map(node => node.textContent).join(''));
+        return {
+            timestamp: timestamp ?? '',
+            speaker: label.replace(/:$/, '').trim(),
+            rest,
+            hasColon: label.endsWith(':') || rest.startsWith(':'),
+        };
+    }
+
+    // Transcript tables put the speaker in column 1 and the utterance in column 2, sometimes with a timestamp column;
+    // two-column tables may instead pair a timestamp with the utterance and have no speaker at all
+    private tableToBlocks(table: HTMLTableElement): string[] {
+        const blocks: string[] = [];
+
+        for (const row of Array.from(table.rows)) {
+            const cells = Array.from(row.cells).map(cell => this.normalizeText(cell.textContent));
+            const isHeader = row.querySelector('th') !== null || cells.every(cell => !cell || TABLE_HEADER_CELL.test(cell));
+            if (isHeader || cells.every(cell => !cell)) continue;
+
+            if (cells.length < 2) {
+                blocks.push(cells[0]);
+                continue;
+            }
+
+            let timestamp = '';
+            let speakerCell = 0;
+            const firstTimestamp = cells[0].match(TIMESTAMP_CELL)?.[1];
+            const secondTimestamp = cells[1].match(TIMESTAMP_CELL)?.[1];
+            if (firstTimestamp && cells.length === 2) {
+                blocks.push(`[${firstTimestamp}] ${cells[1]}`.trim());
+                continue;
+            }
+            if (firstTimestamp && cells.length >= 3) {
+                timestamp = firstTimestamp;
+                speakerCell = 1;
+            } else if (secondTimestamp && cells.length >= 3) {
+                timestamp = secondTimestamp;
+            }
+
+            const speaker = cells[speakerCell].replace(/:$/, '');
+            const utterance = cells
+                .filter((_, index) => index !== speakerCell && !(timestamp && cells[index].match(TIMESTAMP_CELL)?.[1] === timestamp))
+                .join(' ')
+                .trim();
+
+            // Rows without a speaker continue the previous speaker's turn
+            if (speaker && this.isSpeakerName(speaker)) {
+                blocks.push(this.formatLabel(timestamp, speaker, utterance));
+            } else {
+                blocks.push(utterance);
+            }
+        }
+
+        return blocks;
+    }
+
+    private formatLabel(timestamp: string, speaker: string, text: string): string {
+        return `${timestamp ? `[${timestamp}] ` : ''}**${speaker}:** ${text}`.trim();
+    }
+
+    private isSpeakerName(value: string): boolean {
+        return value.length > 0 && value.split(/\s+/).length <= MAX_SPEAKER_WORDS;
+    }
+
+    private normalizeText(value: string | null): string {
+        return (value ?? '').replace(/\s+/g, ' ').trim();
+    }
 }
 
 export const docxParserService = new DocxParserService();
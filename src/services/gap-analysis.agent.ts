@@ -1,8 +1,11 @@
-import { llmService } from './llm.service';
+import { llmService, CompletionUsage } from './llm.service';
+import { transcriptParserService } from './transcript-parser.service';
 import { agentLogger } from './agent-logger.service';
 import { settingsService } from './settings.service';
+import { tokenEstimatorService } from './token-estimator.service';
 import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
 import { GapAnalysis, GapSuggestion, AnalysisFramework, SegmentAnalysis } from '../types/phases';
+import { Transcript } from '../types';
 
 export class GapAnalysisAgent {
     /**
@@ -13,13 +16,15 @@ export class GapAnalysisAgent {
     }
 
     /**
-     * Step 1: Identify coverage gaps and suggest new segments
+     * Build the prompts for identifying gaps, also used to size them before launching.
+     * With a summary of the whole transcript the prompt carries that summary instead of the transcript.
      */
-    async *identifyGaps(
-        transcript: string,
+    buildIdentifyGapsPrompt(
+        transcript: Transcript,
         framework: AnalysisFramework,
-        segmentAnalyses: SegmentAnalysis[]
-    ): AsyncGenerator<string> {
+        segmentAnalyses: SegmentAnalysis[],
+        summary?: string
+    ): { systemPrompt: string; userPrompt: string } {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.gapAnalysis.analyzeGaps;
         const systemPrompt = settingsService.getAgentInstruction('gapAnalysis', 'analyzeGaps') || defaultPrompt;
 
@@ -28,8 +33,7 @@ export class GapAnalysisAgent {
             .map(a => `### ${framework.segments.find(s => s.id === a.segmentId)?.title}\n${a.content.substring(0, 500)}...`)
             .join('\n\n');
 
-        const userPrompt = `Transcript:
-${transcript}
+        const userPrompt = `${this.describeTranscript(transcript, summary)}
 
 Framework Segments Analyzed:
 ${analyzedTopics}
@@ -52,6 +56,23 @@ Output a JSON array of gap suggestions in this format:
 \`\`\`
 `;
 
+        return { systemPrompt, userPrompt };
+    }
+
+    /**
+     * Step 1: Identify coverage gaps and suggest new segments.
+     * When needsChunking says the transcript does not fit, pass a summary of the whole transcript to work from.
+     */
+    async *identifyGaps(
+        transcript: Transcript,
+        framework: AnalysisFramework,
+        segmentAnalyses: SegmentAnalysis[],
+        signal?: AbortSignal,
+        summary?: string,
+        onRestart?: () => void
+    ): AsyncGenerator<string> {
+        const { systemPrompt, userPrompt } = this.buildIdentifyGapsPrompt(transcript, framework, segmentAnalyses, summary);
+
         const model = this.getModel();
         const startTime = Date.now();
         const logId = agentLogger.logRequest(
@@ -62,28 +83,41 @@ Output a JSON array of gap suggestions in this format:
             model
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
 
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse, duration);
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Gap Analysis Agent', 'identify-gaps', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Gap Analysis Agent', 'identify-gaps', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
     /**
-     * Step 2: Analyzes coverage gaps in the completed segment analyses (legacy method)
+     * Step 2: Analyzes coverage gaps in the completed segment analyses (legacy method).
+     * When needsChunking says the transcript does not fit, pass a summary of the whole transcript to work from.
      */
     async *analyzeGaps(
-        transcript: string,
+        transcript: Transcript,
         framework: AnalysisFramework,
-        segmentAnalyses: SegmentAnalysis[]
+        segmentAnalyses: SegmentAnalysis[],
+        signal?: AbortSignal,
+        summary?: string,
+        onRestart?: () => void
     ): AsyncGenerator<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.gapAnalysis.analyzeGaps;
         const systemPrompt = settingsService.getAgentInstruction('gapAnalysis', 'analyzeGaps') || defaultPrompt;
@@ -94,8 +128,7 @@ Output a JSON array of gap suggestions in this format:
             .map(a => `### ${framework.segments.find(s => s.id === a.segmentId)?.title}\n${a.content.substring(0, 500)}...`)
             .join('\n\n');
 
-        const userPrompt = `Transcript:
-${transcript}
+        const userPrompt = `${this.describeTranscript(transcript, summary)}
 
 Framework Segments Analyzed:
 ${analyzedTopics}
@@ -131,22 +164,39 @@ The JSON block must be wrapped in \`\`\`json ... \`\`\` and follow this structur
             model
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
 
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
 
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse, duration);
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Gap Analysis Agent', 'gap-analysis', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Gap Analysis Agent', 'gap-analysis', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
+    /**
+     * Whether the full-transcript prompt for identifying gaps is too large for the gap analysis model's context window
+     */
+    needsChunking(transcript: Transcript, framework: AnalysisFramework, segmentAnalyses: SegmentAnalysis[]): boolean {
+        const { systemPrompt, userPrompt } = this.buildIdentifyGapsPrompt(transcript, framework, segmentAnalyses);
+        return tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, settingsService.getProvider(), this.getModel()).status === 'over';
+    }
+
     /**
      * Parse gap suggestions from JSON code block in LLM response
      */
@@ -208,6 +258,14 @@ The JSON block must be wrapped in \`\`\`json ... \`\`\` and follow this structur
             generatedAt: new Date(),
         };
     }
+
+    private describeTranscript(transcript: Transcript, summary?: string): string {
+        return summary !== undefined
+            ? `The transcript was too long to read at once. A summary of all of it:
+${summary}`
+            : `Transcript:
+${transcriptParserService.toPromptText(transcript)}`;
+    }
 }
 
 export const gapAnalysisAgent = new GapAnalysisAgent();
@@ -1,4 +1,4 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GenerateContentResponse, GoogleGenerativeAI } from '@google/generative-ai';
 
 /**
  * GeminiService handles all interactions with the Gemini API
@@ -37,10 +37,11 @@ export class GeminiService {
     async generateCompletion(
         systemPrompt: string,
         userPrompt: string,
-        model?: string
+        model?: string,
+        signal?: AbortSignal
     ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
         const generativeModel = this.getModelInstance(model, systemPrompt);
-        const result = await generativeModel.generateContent(userPrompt);
+        const result = await generativeModel.generateContent(userPrompt, { signal });
         const response = await result.response;
         const usage = response.usageMetadata;
         return {
@@ -56,16 +57,31 @@ export class GeminiService {
     async *generateCompletionStream(
         systemPrompt: string,
         userPrompt: string,
-        model?: string
+        model?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
     ): AsyncGenerator<string> {
         const generativeModel = this.getModelInstance(model, systemPrompt);
-        const result = await generativeModel.generateContentStream(userPrompt);
+        const result = await generativeModel.generateContentStream(userPrompt, { signal });
+        let usage: GenerateContentResponse['usageMetadata'];
 
         for await (const chunk of result.stream) {
+            // The SDK may deliver already-buffered chunks after an abort
+            signal?.throwIfAborted();
             const chunkText = chunk.text();
             if (chunkText) {
                 yield chunkText;
             }
+            // Counts are cumulative, so the last chunk that has them is the total
+            usage = chunk.usageMetadata ?? usage;
+        }
+
+        if (usage) {
+            onUsage?.({
+                prompt_tokens: usage.promptTokenCount ?? 0,
+                completion_tokens: usage.candidatesTokenCount ?? 0,
+                total_tokens: usage.totalTokenCount ?? 0,
+            });
         }
     }
 
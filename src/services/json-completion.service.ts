@@ -0,0 +1,105 @@
+// JSON completion service for agents that need a structured reply, with one repair request when the reply is invalid
+
+import { llmService } from './llm.service';
+import { agentLogger } from './agent-logger.service';
+
+// Who sends a JSON request, as shown in the agent log
+export interface JsonCompletionRequest {
+    agentName: string;
+    agentRole: string;
+    systemPrompt: string;
+    userPrompt: string;
+    model: string;
+    segmentId?: string;
+    signal?: AbortSignal;
+}
+
+class JsonCompletionService {
+    /**
+     * Request a JSON reply and validate it with parse, which throws a message listing what is wrong.
+     * An invalid reply is sent back once with that message; a second invalid reply is an error.
+     */
+    async complete<T>(request: JsonCompletionRequest, parse: (reply: string) => T): Promise<T> {
+        const reply = await this.send(request, request.userPrompt);
+        try {
+            return parse(reply);
+        } catch (error) {
+            const problem = error instanceof Error ? error.message : 'Invalid response';
+            const repaired = await this.send(request, this.buildRepairPrompt(request.userPrompt, reply, problem));
+            try {
+                return parse(repaired);
+            } catch (repairError) {
+                const message = `${request.agentName} returned an invalid reply twice: ${repairError instanceof Error ? repairError.message : 'Invalid response'}`;
+                agentLogger.logError(request.agentName, request.agentRole, message);
+                throw new Error(message);
+            }
+        }
+    }
+
+    /**
+     * The JSON object in a reply; models often wrap it in a code fence or a sentence of preamble
+     */
+    parseObject(reply: string): Record<string, unknown> {
+        const start = reply.indexOf('{');
+        const end = reply.lastIndexOf('}');
+        if (start < 0 || end <= start) {
+            throw new Error('the reply contains no JSON object');
+        }
+
+        let raw: unknown;
+        try {
+            raw = JSON.parse(reply.slice(start, end + 1));
+        } catch (error) {
+            throw new Error(`the JSON does not parse (${error instanceof Error ? error.message : 'syntax error'})`);
+        }
+        if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+            throw new Error('the reply is not a JSON object');
+        }
+        return raw as Record<string, unknown>;
+    }
+
+    private buildRepairPrompt(userPrompt: string, reply: string, problem: string): string {
+        return `${userPrompt}
+
+Your previous reply could not be used: ${problem}
+
+Previous reply:
+${reply}
+
+Reply again with ONLY the corrected JSON object.`;
+    }
+
+    // Send one logged completion request and return its text
+    private async send(request: JsonCompletionRequest, userPrompt: string): Promise<string> {
+        const { agentName, agentRole, systemPrompt, model, segmentId, signal } = request;
+        const startTime = Date.now();
+        const logId = agentLogger.logRequest(
+            agentName,
+            agentRole,
+            systemPrompt,
+            userPrompt,
+            model,
+            segmentId
+        );
+
+        try {
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
+            const duration = Date.now() - startTime;
+            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
+                prompt: result.usage.prompt_tokens,
+                completion: result.usage.completion_tokens,
+                total: result.usage.total_tokens
+            } : undefined);
+            return result.content;
+        } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError(agentName, agentRole, error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
+}
+
+export const jsonCompletionService = new JsonCompletionService();
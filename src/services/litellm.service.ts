@@ -1,10 +1,13 @@
+import { settingsService, EndpointSettings } from './settings.service';
+import { LLMRequestError } from './llm-error';
+import { LLMProviderModelOption } from '../constants/llm-providers';
+
 /**
- * LiteLLM Service handles all interactions with the LiteLLM API
- * Supports multiple models including Google Gemini, GPT-4, etc.
+ * LiteLLM Service handles all interactions with OpenAI-compatible APIs
+ * Works with a LiteLLM proxy, vLLM, LM Studio or llama.cpp server configured in settings
  */
 export class LiteLLMService {
     private apiKey: string | null = null;
-    private baseUrl = 'https://app-litellmsn66ka.azurewebsites.net/v1';
 
     /**
      * Initialize the LiteLLM service with an API key
@@ -14,43 +17,78 @@ export class LiteLLMService {
     }
 
     /**
-     * Check if the service is initialized
+     * Check if the service is initialized; keyless servers need the user to have chosen no key or set an endpoint
      */
     isInitialized(): boolean {
-        return this.apiKey !== null;
+        return this.apiKey !== null || settingsService.isProviderConfigured('litellm');
     }
 
-
-
     /**
-     * Make a chat completion request
+     * List the models served by an endpoint, defaulting to the saved one
      */
+    async listModels(endpoint?: EndpointSettings, apiKey?: string): Promise<LLMProviderModelOption[]> {
+        const response = await fetch(`${this.getBaseUrl(endpoint)}/models`, {
+            headers: this.buildHeaders(apiKey ?? this.apiKey, endpoint),
+        });
+
+        if (!response.ok) {
+            throw await LLMRequestError.fromResponse('LiteLLM API error', response);
+        }
+
+        const data = await response.json();
+        const models: Array<{ id: string; owned_by?: string }> = Array.isArray(data.data) ? data.data : [];
+        return models
+            .filter(model => typeof model.id === 'string')
+            .map(model => ({ id: model.id, name: model.id, provider: model.owned_by || 'Endpoint' }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    private getBaseUrl(endpoint: EndpointSettings = settingsService.getEndpoint()): string {
+        return endpoint.baseUrl.trim().replace(/\/+$/, '');
+    }
+
+    // The key is optional, so only the endpoint address is required
+    private requireBaseUrl(): string {
+        const baseUrl = this.getBaseUrl();
+        if (!baseUrl) {
+            throw new Error('No endpoint configured. Set the endpoint URL in Settings.');
+        }
+        return baseUrl;
+    }
+
+    // Configured extra headers first so they cannot override content type or auth
+    private buildHeaders(apiKey: string | null, endpoint: EndpointSettings = settingsService.getEndpoint()): Record<string, string> {
+        return {
+            ...endpoint.headers,
+            'Content-Type': 'application/json',
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        };
+    }
+
+    private getDefaultModel(): string {
+        return settingsService.getAvailableModels('litellm')[0]?.id ?? 'google/gemini-2.0-flash-001';
+    }
+
     /**
      * Make a chat completion request
      */
     private async chatCompletion(
         messages: Array<{ role: string; content: string }>,
-        model?: string
+        model?: string,
+        signal?: AbortSignal
     ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
-        if (!this.apiKey) {
-            throw new Error('LiteLLM API not initialized. Please provide an API key.');
-        }
-
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        const response = await fetch(`${this.requireBaseUrl()}/chat/completions`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey}`,
-            },
+            headers: this.buildHeaders(this.apiKey),
             body: JSON.stringify({
-                model: model || 'google/gemini-2.0-flash-001',
+                model: model || this.getDefaultModel(),
                 messages,
             }),
+            signal,
         });
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`LiteLLM API error: ${error}`);
+            throw await LLMRequestError.fromResponse('LiteLLM API error', response);
         }
 
         const data = await response.json();
@@ -65,28 +103,25 @@ export class LiteLLMService {
      */
     private async *chatCompletionStream(
         messages: Array<{ role: string; content: string }>,
-        model?: string
+        model?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
     ): AsyncGenerator<string> {
-        if (!this.apiKey) {
-            throw new Error('LiteLLM API not initialized. Please provide an API key.');
-        }
-
-        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        const response = await fetch(`${this.requireBaseUrl()}/chat/completions`, {
             method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.apiKey}`,
-            },
+            headers: this.buildHeaders(this.apiKey),
             body: JSON.stringify({
-                model: model || 'google/gemini-2.0-flash-001',
+                model: model || this.getDefaultModel(),
                 messages,
                 stream: true,
+                // Ask for a final chunk carrying token usage; servers without support ignore it
+                stream_options: { include_usage: true },
             }),
+            signal,
         });
 
         if (!response.ok) {
-            const error = await response.text();
-            throw new Error(`LiteLLM API error: ${error}`);
+            throw await LLMRequestError.fromResponse('LiteLLM API error', response);
         }
 
         const reader = response.body?.getReader();
@@ -117,6 +152,9 @@ export class LiteLLMService {
                         if (content) {
                             yield content;
                         }
+                        if (json.usage) {
+                            onUsage?.(json.usage);
+                        }
                     } catch (e) {
                         // Skip malformed JSON
                         console.warn('Failed to parse SSE line:', trimmed);
@@ -134,22 +172,29 @@ export class LiteLLMService {
     async generateCompletion(
         systemPrompt: string,
         userPrompt: string,
-        model?: string
+        model?: string,
+        signal?: AbortSignal
     ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
         return this.chatCompletion([
             { role: 'system', content: systemPrompt },
             { role: 'user', content: userPrompt },
-        ], model);
+        ], model, signal);
     }
 
     /**
      * Generic streaming completion method for custom prompts
      */
-    async *generateCompletionStream(systemPrompt: string, userPrompt: string, model?: string): AsyncGenerator<string> {
+    async *generateCompletionStream(
+        systemPrompt: string,
+        userPrompt: string,
+        model?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
+    ): AsyncGenerator<string> {
         yield* this.chatCompletionStream([
             { role: 'system', content: systemPrompt },
             { role: 'user', content: userPrompt },
-        ], model);
+        ], model, signal, onUsage);
     }
 
 
@@ -214,20 +259,12 @@ ${transcript}`;
     }
 
     /**
-     * Validate an API key
+     * Validate an API key against the endpoint's model list
      */
     async validateApiKey(apiKey: string): Promise<boolean> {
         try {
-            const response = await fetch(`${this.baseUrl}/chat/completions`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`,
-                },
-                body: JSON.stringify({
-                    model: 'google/gemini-2.0-flash-001',
-                    messages: [{ role: 'user', content: 'Hello' }],
-                }),
+            const response = await fetch(`${this.getBaseUrl()}/models`, {
+                headers: this.buildHeaders(apiKey),
             });
 
             return response.ok;
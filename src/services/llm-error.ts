@@ -0,0 +1,70 @@
+// Errors raised by LLM provider services, carrying what LLMService needs to decide on a retry
+
+/**
+ * An HTTP error from an LLM provider, with its status and any Retry-After hint
+ */
+export class LLMRequestError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'LLMRequestError';
+    }
+
+    /**
+     * Build an error from a failed fetch response, reading its body and Retry-After header
+     */
+    static async fromResponse(prefix: string, response: Response): Promise<LLMRequestError> {
+        const body = await response.text().catch(() => '');
+        return new LLMRequestError(
+            `${prefix}: ${body || `${response.status} ${response.statusText}`}`,
+            response.status,
+            parseRetryAfter(response.headers.get('Retry-After'))
+        );
+    }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value.trim());
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * HTTP status of a provider error; the Gemini SDK sets `status` on its fetch errors too
+ */
+export const getErrorStatus = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/**
+ * Server-requested wait before retrying, from Retry-After or Gemini's RetryInfo detail ("27s")
+ */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+    if (error instanceof LLMRequestError) {
+        return error.retryAfterMs;
+    }
+    const details = (error as { errorDetails?: unknown } | null)?.errorDetails;
+    if (!Array.isArray(details)) return undefined;
+    for (const detail of details) {
+        const delay = detail?.['@type']?.endsWith('RetryInfo') ? detail.retryDelay : undefined;
+        const seconds = typeof delay === 'string' ? parseFloat(delay) : NaN;
+        if (Number.isFinite(seconds)) {
+            return seconds * 1000;
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Fetch rejects with a TypeError when the connection fails or drops mid-body
+ */
+export const isNetworkError = (error: unknown): boolean => error instanceof TypeError;
@@ -1,20 +1,38 @@
 import { liteLLMService } from './litellm.service';
 import { geminiService } from './gemini.service';
-import { settingsService } from './settings.service';
-import { LLMProvider } from '../constants/llm-providers';
+import { ollamaService } from './ollama.service';
+import { mockLLMService } from './mock-llm.service';
+import { agentLogger } from './agent-logger.service';
+import { settingsService, EndpointSettings } from './settings.service';
+import { LLMRequestError, getErrorStatus, getRetryAfterMs, isNetworkError } from './llm-error';
+import { sleep } from '../utils/sleep';
+import { LLM_PROVIDER_CONFIGS, LLMProvider, LLMProviderModelOption, RetryPolicy } from '../constants/llm-providers';
+
+export interface CompletionUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
 
 export interface CompletionResult {
     content: string;
-    usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+    usage?: CompletionUsage;
+}
+
+export interface LLMRequestOptions {
+    signal?: AbortSignal; // Aborting cancels the request and any pending retry
+    logId?: string; // Agent log request that retries are recorded against
+    onUsage?: (usage: CompletionUsage) => void; // Called when a stream reports its token usage
+    onRestart?: () => void; // Called before a stream that dropped mid-reply starts over; discard the text received so far
 }
 
-// Facade service routing requests to Google Gemini or LiteLLM based on provider
+// Facade service routing requests to Google Gemini, LiteLLM, Ollama or recorded mocks based on provider
 class LLMService {
     initialize(apiKey: string, provider?: LLMProvider): void {
         const resolvedProvider = this.resolveProvider(provider);
         if (resolvedProvider === 'google') {
             geminiService.initialize(apiKey);
-        } else {
+        } else if (resolvedProvider === 'litellm') {
             liteLLMService.initialize(apiKey);
         }
     }
@@ -33,35 +51,124 @@ class LLMService {
         if (resolvedProvider === 'google') {
             return geminiService.isInitialized();
         }
+        if (resolvedProvider === 'ollama') {
+            return ollamaService.isInitialized();
+        }
+        if (resolvedProvider === 'mock') {
+            return mockLLMService.isInitialized();
+        }
         return liteLLMService.isInitialized();
     }
 
+    // Keyless providers ignore the key and only check that the server answers
     async validateApiKey(provider: LLMProvider, apiKey: string): Promise<boolean> {
         if (provider === 'google') {
             return geminiService.validateApiKey(apiKey);
         }
+        if (provider === 'ollama') {
+            return ollamaService.validateConnection();
+        }
+        if (provider === 'mock') {
+            return true;
+        }
         return liteLLMService.validateApiKey(apiKey);
     }
 
-    async generateCompletion(systemPrompt: string, userPrompt: string, model?: string): Promise<CompletionResult> {
+    // Discover models from the provider; Gemini and the mock provider use the built-in list
+    async listModels(provider?: LLMProvider, endpoint?: EndpointSettings): Promise<LLMProviderModelOption[]> {
+        const resolvedProvider = this.resolveProvider(provider);
+        if (resolvedProvider === 'google' || resolvedProvider === 'mock') {
+            return LLM_PROVIDER_CONFIGS[resolvedProvider].models;
+        }
+        if (resolvedProvider === 'ollama') {
+            return ollamaService.listModels(endpoint);
+        }
+        return liteLLMService.listModels(endpoint, settingsService.getApiKey(resolvedProvider));
+    }
+
+    // Retryable failures are retried with backoff according to the provider's retry policy
+    async generateCompletion(systemPrompt: string, userPrompt: string, model?: string, options: LLMRequestOptions = {}): Promise<CompletionResult> {
         const provider = this.resolveProvider();
         const normalizedModel = this.normalizeModel(provider, model);
-        if (provider === 'google') {
-            return geminiService.generateCompletion(systemPrompt, userPrompt, normalizedModel);
+        const policy = settingsService.getRetryPolicy(provider);
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.completeOnce(provider, systemPrompt, userPrompt, normalizedModel, options.signal);
+            } catch (error) {
+                const delay = this.getRetryDelay(policy, attempt, error, options.signal);
+                if (delay === null) throw error;
+                this.reportRetry(options.logId, attempt, error, delay);
+                await sleep(delay, options.signal);
+            }
         }
-        return liteLLMService.generateCompletion(systemPrompt, userPrompt, normalizedModel);
     }
 
-    async *generateCompletionStream(systemPrompt: string, userPrompt: string, model?: string): AsyncGenerator<string> {
+    // A stream that drops mid-reply is restarted from the beginning, as a new response would not continue the
+    // text already yielded; onRestart tells the caller to discard that text. Without it the error is passed up.
+    async *generateCompletionStream(systemPrompt: string, userPrompt: string, model?: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
         const provider = this.resolveProvider();
         const normalizedModel = this.normalizeModel(provider, model);
+        const policy = settingsService.getRetryPolicy(provider);
+
+        for (let attempt = 1; ; attempt++) {
+            let yielded = false;
+            try {
+                for await (const chunk of this.streamOnce(provider, systemPrompt, userPrompt, normalizedModel, options.signal, options.onUsage)) {
+                    yielded = true;
+                    yield chunk;
+                }
+                return;
+            } catch (error) {
+                const delay = yielded && !options.onRestart ? null : this.getRetryDelay(policy, attempt, error, options.signal);
+                if (delay === null) throw error;
+                this.reportRetry(options.logId, attempt, error, delay);
+                await sleep(delay, options.signal);
+                if (yielded) options.onRestart?.();
+            }
+        }
+    }
+
+    private async completeOnce(provider: LLMProvider, systemPrompt: string, userPrompt: string, normalizedModel?: string, signal?: AbortSignal): Promise<CompletionResult> {
+        if (provider === 'google') {
+            return geminiService.generateCompletion(systemPrompt, userPrompt, normalizedModel, signal);
+        }
+        if (provider === 'ollama') {
+            return ollamaService.generateCompletion(systemPrompt, userPrompt, normalizedModel, signal);
+        }
+        if (provider === 'mock') {
+            return mockLLMService.generateCompletion(systemPrompt, userPrompt, signal);
+        }
+        return liteLLMService.generateCompletion(systemPrompt, userPrompt, normalizedModel, signal);
+    }
+
+    private async *streamOnce(
+        provider: LLMProvider,
+        systemPrompt: string,
+        userPrompt: string,
+        normalizedModel?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: CompletionUsage) => void
+    ): AsyncGenerator<string> {
         if (provider === 'google') {
-            for await (const chunk of geminiService.generateCompletionStream(systemPrompt, userPrompt, normalizedModel)) {
+            for await (const chunk of geminiService.generateCompletionStream(systemPrompt, userPrompt, normalizedModel, signal, onUsage)) {
                 yield chunk;
             }
             return;
         }
-        for await (const chunk of liteLLMService.generateCompletionStream(systemPrompt, userPrompt, normalizedModel)) {
+        if (provider === 'ollama') {
+            for await (const chunk of ollamaService.generateCompletionStream(systemPrompt, userPrompt, normalizedModel, signal, onUsage)) {
+                yield chunk;
+            }
+            return;
+        }
+        if (provider === 'mock') {
+            for await (const chunk of mockLLMService.generateCompletionStream(systemPrompt, userPrompt, signal, onUsage)) {
+                yield chunk;
+            }
+            return;
+        }
+        for await (const chunk of liteLLMService.generateCompletionStream(systemPrompt, userPrompt, normalizedModel, signal, onUsage)) {
             yield chunk;
         }
     }
@@ -72,6 +179,12 @@ class LLMService {
         if (provider === 'google') {
             return geminiService.generateThemes(transcript, normalizedModel);
         }
+        if (provider === 'ollama') {
+            return ollamaService.generateThemes(transcript, normalizedModel);
+        }
+        if (provider === 'mock') {
+            return mockLLMService.generateThemes(transcript);
+        }
         return liteLLMService.generateThemes(transcript, normalizedModel);
     }
 
@@ -81,9 +194,53 @@ class LLMService {
         if (provider === 'google') {
             return geminiService.analyzeTheme(transcript, theme, normalizedModel);
         }
+        if (provider === 'ollama') {
+            return ollamaService.analyzeTheme(transcript, theme, normalizedModel);
+        }
+        if (provider === 'mock') {
+            return mockLLMService.analyzeTheme(transcript, theme);
+        }
         return liteLLMService.analyzeTheme(transcript, theme, normalizedModel);
     }
 
+    // Milliseconds to wait before the next attempt, or null when the error should be thrown as is.
+    // Retry-After from the server wins over exponential backoff with jitter and is waited in full; retrying
+    // sooner would only be refused again, so a wait beyond the policy's maximum delay ends the request instead.
+    private getRetryDelay(policy: RetryPolicy, attempt: number, error: unknown, signal?: AbortSignal): number | null {
+        if (signal?.aborted || attempt > policy.maxRetries) {
+            return null;
+        }
+
+        const status = getErrorStatus(error);
+        const retryable = status !== undefined ? policy.retryOnStatus.includes(status) : isNetworkError(error);
+        if (!retryable) {
+            return null;
+        }
+
+        const retryAfter = getRetryAfterMs(error);
+        if (retryAfter !== undefined) {
+            if (retryAfter > policy.maxDelayMs) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new LLMRequestError(
+                    `${message} (the provider asked to wait ${Math.ceil(retryAfter / 1000)}s before retrying, longer than the maximum retry delay of ${Math.ceil(policy.maxDelayMs / 1000)}s)`,
+                    status,
+                    retryAfter
+                );
+            }
+            return retryAfter;
+        }
+        const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+        return Math.round(backoff / 2 + Math.random() * backoff / 2);
+    }
+
+    private reportRetry(logId: string | undefined, attempt: number, error: unknown, delay: number): void {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`LLM request attempt ${attempt} failed, retrying in ${delay}ms:`, message);
+        if (logId) {
+            agentLogger.logRetry(logId, attempt, message, delay);
+        }
+    }
+
     private resolveProvider(provider?: LLMProvider): LLMProvider {
         return provider ?? settingsService.getProvider();
     }
@@ -0,0 +1,261 @@
+import { agentLogger } from './agent-logger.service';
+import { settingsService } from './settings.service';
+import { AgentLog } from '../types/logging';
+import { FixtureFile, LLMFixture } from '../types/fixtures';
+import { sleep } from '../utils/sleep';
+
+const FIXTURE_FORMAT = 'transcript-processor-fixtures';
+const FIXTURE_VERSION = 1;
+const STORAGE_KEY = 'transcript_processor_mock_fixtures';
+
+// Words per simulated stream chunk
+const WORDS_PER_CHUNK = 3;
+
+const fixtureKey = (system: string, user: string): string => `${system}\u0000${user}`;
+
+/**
+ * Mock LLM Service records real exchanges from the agent log and replays them offline
+ * Replay is deterministic: identical prompts get their recorded responses in recording order
+ */
+export class MockLLMService {
+    private fixtures: LLMFixture[] = [];
+    private recordedKeys = new Set<string>();
+    private replayCounters = new Map<string, number>();
+
+    constructor() {
+        this.fixtures = this.loadFixtures();
+        this.fixtures.forEach(fixture => this.recordedKeys.add(this.exchangeKey(fixture)));
+        agentLogger.subscribe(logs => this.capture(logs));
+    }
+
+    /**
+     * The mock provider needs no credentials, so the service is always ready
+     */
+    isInitialized(): boolean {
+        return true;
+    }
+
+    /**
+     * Get all recorded fixtures
+     */
+    getFixtures(): LLMFixture[] {
+        return [...this.fixtures];
+    }
+
+    /**
+     * Export recorded fixtures as fixture file JSON
+     */
+    exportFixtures(): string {
+        const file: FixtureFile = {
+            format: FIXTURE_FORMAT,
+            version: FIXTURE_VERSION,
+            recordedAt: new Date().toISOString(),
+            fixtures: this.fixtures,
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    /**
+     * Replace recorded fixtures with the contents of a fixture file, returning how many were loaded
+     */
+    importFixtures(json: string): number {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch {
+            throw new Error('Fixture file is not valid JSON');
+        }
+
+        const file = raw as FixtureFile;
+        if (typeof raw !== 'object' || raw === null || file.format !== FIXTURE_FORMAT) {
+            throw new Error('File is not a transcript processor fixture file');
+        }
+        if (file.version > FIXTURE_VERSION) {
+            throw new Error(`Fixture file was created by a newer version of the app (format v${file.version})`);
+        }
+        if (!Array.isArray(file.fixtures)) {
+            throw new Error('Fixture file contains no fixtures');
+        }
+
+        this.setFixtures(file.fixtures.filter(fixture =>
+            typeof fixture?.prompt?.system === 'string'
+            && typeof fixture.prompt.user === 'string'
+            && typeof fixture.response === 'string'
+        ));
+        return this.fixtures.length;
+    }
+
+    /**
+     * Remove all recorded fixtures
+     */
+    clearFixtures(): void {
+        this.setFixtures([]);
+    }
+
+    /**
+     * Generic completion method for custom prompts
+     */
+    async generateCompletion(
+        systemPrompt: string,
+        userPrompt: string,
+        signal?: AbortSignal
+    ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
+        const fixture = this.findFixture(systemPrompt, userPrompt);
+        await sleep((fixture.duration ?? 0) * this.getTimingScale(), signal);
+
+        return {
+            content: fixture.response,
+            usage: fixture.tokens ? {
+                prompt_tokens: fixture.tokens.prompt,
+                completion_tokens: fixture.tokens.completion,
+                total_tokens: fixture.tokens.total
+            } : undefined
+        };
+    }
+
+    /**
+     * Generic streaming completion method, spreading the recorded duration across chunks
+     */
+    async *generateCompletionStream(
+        systemPrompt: string,
+        userPrompt: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
+    ): AsyncGenerator<string> {
+        const fixture = this.findFixture(systemPrompt, userPrompt);
+        const chunks = this.splitIntoChunks(fixture.response);
+        const delay = chunks.length > 0 ? ((fixture.duration ?? 0) * this.getTimingScale()) / chunks.length : 0;
+
+        for (const chunk of chunks) {
+            if (delay > 0) {
+                await sleep(delay, signal);
+            }
+            signal?.throwIfAborted();
+            yield chunk;
+        }
+
+        if (fixture.tokens) {
+            onUsage?.({
+                prompt_tokens: fixture.tokens.prompt,
+                completion_tokens: fixture.tokens.completion,
+                total_tokens: fixture.tokens.total
+            });
+        }
+    }
+
+    /**
+     * Extract themes from a transcript
+     */
+    async generateThemes(_transcript: string): Promise<string[]> {
+        return ['Main Topics', 'Key Insights', 'Important Points'];
+    }
+
+    /**
+     * Analyze a specific theme in the transcript
+     */
+    async analyzeTheme(_transcript: string, theme: string): Promise<string> {
+        return `Mock analysis of "${theme}". Switch to a real provider for theme analysis.`;
+    }
+
+    // Exact prompt matches first, then the same system prompt with a different user prompt
+    private findFixture(systemPrompt: string, userPrompt: string): LLMFixture {
+        const exact = this.fixtures.filter(f => f.prompt.system === systemPrompt && f.prompt.user === userPrompt);
+        if (exact.length > 0) {
+            return this.nextFixture(fixtureKey(systemPrompt, userPrompt), exact);
+        }
+
+        const sameSystem = this.fixtures.filter(f => f.prompt.system === systemPrompt);
+        if (sameSystem.length > 0) {
+            return this.nextFixture(fixtureKey(systemPrompt, ''), sameSystem);
+        }
+
+        throw new Error('Mock provider has no recorded response for this request. Record one with a real provider or import a fixture file.');
+    }
+
+    private nextFixture(key: string, candidates: LLMFixture[]): LLMFixture {
+        const count = this.replayCounters.get(key) ?? 0;
+        this.replayCounters.set(key, count + 1);
+        return candidates[count % candidates.length];
+    }
+
+    private splitIntoChunks(text: string): string[] {
+        const words = text.match(/\s*\S+\s*/g) ?? [];
+        const chunks: string[] = [];
+        for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+            chunks.push(words.slice(i, i + WORDS_PER_CHUNK).join(''));
+        }
+        return chunks.length > 0 ? chunks : [text];
+    }
+
+    private getTimingScale(): number {
+        const scale = settingsService.getMockSettings().timingScale;
+        return Number.isFinite(scale) && scale > 0 ? scale : 0;
+    }
+
+    // Pair each new response log with its request while recording against a real provider
+    private capture(logs: AgentLog[]): void {
+        const settings = settingsService.load();
+        if (!settings.mock.recording || settings.provider === 'mock') return;
+
+        const requests = new Map(logs.filter(log => log.action === 'request').map(log => [log.id, log]));
+        const captured: LLMFixture[] = [];
+
+        for (const log of logs) {
+            if (log.action !== 'response' || !log.requestId || log.response === undefined) continue;
+            const request = requests.get(log.requestId);
+            if (!request?.prompt) continue;
+
+            const fixture: LLMFixture = {
+                agentName: request.agentName,
+                agentRole: request.agentRole,
+                model: request.model,
+                prompt: request.prompt,
+                response: log.response,
+                duration: log.duration,
+                tokens: log.tokens,
+            };
+            const key = this.exchangeKey(fixture);
+            if (this.recordedKeys.has(key)) continue;
+
+            this.recordedKeys.add(key);
+            captured.push(fixture);
+        }
+
+        if (captured.length > 0) {
+            this.fixtures = [...this.fixtures, ...captured];
+            this.persist();
+        }
+    }
+
+    private exchangeKey(fixture: LLMFixture): string {
+        return `${fixtureKey(fixture.prompt.system, fixture.prompt.user)}\u0000${fixture.response}`;
+    }
+
+    private setFixtures(fixtures: LLMFixture[]): void {
+        this.fixtures = fixtures;
+        this.recordedKeys = new Set(fixtures.map(fixture => this.exchangeKey(fixture)));
+        this.replayCounters.clear();
+        this.persist();
+    }
+
+    private loadFixtures(): LLMFixture[] {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            console.error('Failed to load mock fixtures:', error);
+            return [];
+        }
+    }
+
+    // Large recordings can exceed the storage quota; they stay in memory and can still be exported
+    private persist(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(this.fixtures));
+        } catch (error) {
+            console.error('Failed to save mock fixtures:', error);
+        }
+    }
+}
+
+export const mockLLMService = new MockLLMService();
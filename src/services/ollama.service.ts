@@ -0,0 +1,310 @@
+import { settingsService, EndpointSettings } from './settings.service';
+import { LLMRequestError } from './llm-error';
+import { tokenEstimatorService } from './token-estimator.service';
+import { LLM_PROVIDER_CONFIGS, LLMProviderModelOption } from '../constants/llm-providers';
+
+interface OllamaChatChunk {
+    message?: { role: string; content: string };
+    done?: boolean;
+    error?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+/**
+ * Ollama Service handles all interactions with a local Ollama server
+ * Uses the native /api/chat endpoint, which needs no API key
+ */
+export class OllamaService {
+    /**
+     * Ollama needs no credentials, so the service is always ready
+     */
+    isInitialized(): boolean {
+        return true;
+    }
+
+    /**
+     * List the models installed on an Ollama server, defaulting to the saved one
+     */
+    async listModels(endpoint?: EndpointSettings): Promise<LLMProviderModelOption[]> {
+        const response = await fetch(`${this.getBaseUrl(endpoint)}/api/tags`, {
+            headers: this.buildHeaders(endpoint),
+        });
+
+        if (!response.ok) {
+            throw await LLMRequestError.fromResponse('Ollama API error', response);
+        }
+
+        const data = await response.json();
+        const models: Array<{ name: string; details?: { parameter_size?: string } }> = Array.isArray(data.models) ? data.models : [];
+        return models
+            .filter(model => typeof model.name === 'string')
+            .map(model => ({
+                id: model.name,
+                name: model.details?.parameter_size ? `${model.name} (${model.details.parameter_size})` : model.name,
+                provider: 'Ollama',
+            }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    /**
+     * Check that the Ollama server is reachable
+     */
+    async validateConnection(endpoint?: EndpointSettings): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.getBaseUrl(endpoint)}/api/tags`, {
+                headers: this.buildHeaders(endpoint),
+            });
+            return response.ok;
+        } catch (error) {
+            console.error('Ollama connection check failed:', error);
+            return false;
+        }
+    }
+
+    private getBaseUrl(endpoint: EndpointSettings = settingsService.getEndpoint('ollama')): string {
+        return endpoint.baseUrl.replace(/\/+$/, '');
+    }
+
+    private buildHeaders(endpoint: EndpointSettings = settingsService.getEndpoint('ollama')): Record<string, string> {
+        return {
+            ...endpoint.headers,
+            'Content-Type': 'application/json',
+        };
+    }
+
+    private getDefaultModel(): string {
+        return settingsService.getAvailableModels('ollama')[0]?.id ?? LLM_PROVIDER_CONFIGS.ollama.defaultModel;
+    }
+
+    // Ask for the context the pre-flight check assumed, so long prompts are not silently truncated
+    private getContextLength(model?: string): number {
+        return tokenEstimatorService.getContextWindow('ollama', model || this.getDefaultModel());
+    }
+
+    /**
+     * Make a chat request and wait for the full reply
+     */
+    private async chat(
+        messages: Array<{ role: string; content: string }>,
+        model?: string,
+        signal?: AbortSignal
+    ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
+        const response = await fetch(`${this.getBaseUrl()}/api/chat`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify({
+                model: model || this.getDefaultModel(),
+                messages,
+                stream: false,
+                options: { num_ctx: this.getContextLength(model) },
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw await LLMRequestError.fromResponse('Ollama API error', response);
+        }
+
+        const data: OllamaChatChunk = await response.json();
+        if (data.error) {
+            throw new Error(`Ollama API error: ${data.error}`);
+        }
+
+        return {
+            content: data.message?.content || '',
+            usage: this.toUsage(data)
+        };
+    }
+
+    /**
+     * Make a streaming chat request; Ollama sends one JSON object per line
+     */
+    private async *chatStream(
+        messages: Array<{ role: string; content: string }>,
+        model?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
+    ): AsyncGenerator<string> {
+        const response = await fetch(`${this.getBaseUrl()}/api/chat`, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: JSON.stringify({
+                model: model || this.getDefaultModel(),
+                messages,
+                stream: true,
+                options: { num_ctx: this.getContextLength(model) },
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            throw await LLMRequestError.fromResponse('Ollama API error', response);
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+            throw new Error('No response body');
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    const chunk = this.parseLine(line);
+                    if (!chunk) continue;
+                    if (chunk.message?.content) {
+                        yield chunk.message.content;
+                    }
+                    if (chunk.done) {
+                        this.reportUsage(chunk, onUsage);
+                        return;
+                    }
+                }
+            }
+
+            // The final object may arrive without a trailing newline
+            const last = this.parseLine(buffer);
+            if (last?.message?.content) {
+                yield last.message.content;
+            }
+            if (last?.done) {
+                this.reportUsage(last, onUsage);
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    private parseLine(line: string): OllamaChatChunk | null {
+        const trimmed = line.trim();
+        if (!trimmed) return null;
+
+        let chunk: OllamaChatChunk;
+        try {
+            chunk = JSON.parse(trimmed);
+        } catch (e) {
+            // Skip malformed JSON
+            console.warn('Failed to parse Ollama stream line:', trimmed);
+            return null;
+        }
+
+        if (chunk.error) {
+            throw new Error(`Ollama API error: ${chunk.error}`);
+        }
+        return chunk;
+    }
+
+    // The final stream object carries the token counts
+    private reportUsage(chunk: OllamaChatChunk, onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void): void {
+        const usage = this.toUsage(chunk);
+        if (usage) {
+            onUsage?.(usage);
+        }
+    }
+
+    private toUsage(data: OllamaChatChunk): { prompt_tokens: number; completion_tokens: number; total_tokens: number } | undefined {
+        if (data.prompt_eval_count === undefined && data.eval_count === undefined) {
+            return undefined;
+        }
+        const promptTokens = data.prompt_eval_count ?? 0;
+        const completionTokens = data.eval_count ?? 0;
+        return {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: promptTokens + completionTokens
+        };
+    }
+
+    /**
+     * Generic completion method for custom prompts
+     */
+    async generateCompletion(
+        systemPrompt: string,
+        userPrompt: string,
+        model?: string,
+        signal?: AbortSignal
+    ): Promise<{ content: string; usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } }> {
+        return this.chat([
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+        ], model, signal);
+    }
+
+    /**
+     * Generic streaming completion method for custom prompts
+     */
+    async *generateCompletionStream(
+        systemPrompt: string,
+        userPrompt: string,
+        model?: string,
+        signal?: AbortSignal,
+        onUsage?: (usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number }) => void
+    ): AsyncGenerator<string> {
+        yield* this.chatStream([
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+        ], model, signal, onUsage);
+    }
+
+    /**
+     * Extract themes from a transcript
+     */
+    async generateThemes(transcript: string, model?: string): Promise<string[]> {
+        const prompt = `Analyze the following transcript and extract 3-5 key themes or topics discussed.
+Return ONLY a JSON array of theme names (strings), nothing else.
+
+Transcript:
+${transcript}
+
+Example response format: ["Theme 1", "Theme 2", "Theme 3"]`;
+
+        try {
+            const result = await this.chat([{ role: 'user', content: prompt }], model);
+
+            // Parse JSON response
+            const themes = JSON.parse(result.content.trim());
+            return Array.isArray(themes) ? themes : [];
+        } catch (error) {
+            console.error('Error generating themes:', error);
+            // Fallback to generic themes
+            return ['Main Topics', 'Key Insights', 'Important Points'];
+        }
+    }
+
+    /**
+     * Analyze a specific theme in the transcript
+     */
+    async analyzeTheme(transcript: string, theme: string, model?: string): Promise<string> {
+        const prompt = `Analyze the following transcript focusing on the theme: "${theme}".
+
+Provide a detailed analysis including:
+1. Key points related to this theme
+2. Relevant quotes from the transcript (with exact text)
+3. Insights and patterns
+
+Format your response as clear, structured text.
+
+Transcript:
+${transcript}`;
+
+        try {
+            const result = await this.chat([{ role: 'user', content: prompt }], model);
+            return result.content;
+        } catch (error) {
+            console.error('Error analyzing theme:', error);
+            throw error;
+        }
+    }
+}
+
+export const ollamaService = new OllamaService();
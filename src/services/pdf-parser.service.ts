@@ -0,0 +1,157 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { transcriptParserService } from './transcript-parser.service';
+
+GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+// Lines at the top and bottom of each page that are candidates for header/footer removal
+const MARGIN_LINES = 2;
+
+// A margin line is a header/footer when it repeats on at least this share of pages
+const REPEATED_MARGIN_RATIO = 0.5;
+
+// Standalone page numbers after digit normalisation: "#", "page #", "# of #", "#/#"
+const PAGE_NUMBER = /^(?:page\s*)?#(?:\s*(?:of|\/)\s*#)?$/;
+
+interface PdfLine {
+    text: string;
+    y: number;
+    height: number;
+}
+
+/**
+ * Service for extracting transcript text from PDF files in the browser
+ */
+class PdfParserService {
+    /**
+     * Parse a PDF file and extract plain text in reading order without repeated headers and footers
+     */
+    async parsePdf(file: File): Promise<string> {
+        let text: string;
+        try {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const pdf = await getDocument({ data }).promise;
+
+            const pages: PdfLine[][] = [];
+            try {
+                for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+                    const page = await pdf.getPage(pageNumber);
+                    const content = await page.getTextContent();
+                    pages.push(this.groupIntoLines(content.items));
+                }
+            } finally {
+                await pdf.destroy();
+            }
+
+            const repeatedMargins = this.findRepeatedMargins(pages);
+            text = pages
+                .map(lines => this.joinLines(lines.filter((line, index) => !this.isMarginNoise(line, index, lines.length, repeatedMargins))))
+                .filter(pageText => pageText.length > 0)
+                .join('\n\n');
+        } catch (error) {
+            console.error('Error parsing PDF file:', error);
+            throw new Error('Failed to parse PDF file. Please ensure it is a valid PDF document.');
+        }
+
+        if (!text.trim()) {
+            throw new Error('No text found in PDF. Scanned documents need OCR before they can be analyzed.');
+        }
+        return text;
+    }
+
+    /**
+     * Check if a file is a PDF file based on extension
+     */
+    isPdfFile(file: File): boolean {
+        return file.name.toLowerCase().endsWith('.pdf');
+    }
+
+    // Group positioned text items into lines ordered top-to-bottom, left-to-right
+    private groupIntoLines(items: Array<TextItem | TextMarkedContent>): PdfLine[] {
+        const textItems = items
+            .filter((item): item is TextItem => 'str' in item && item.str.length > 0)
+            .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+        const groups: TextItem[][] = [];
+        for (const item of textItems) {
+            const current = groups[groups.length - 1];
+            const tolerance = Math.max(2, item.height * 0.5);
+            if (current && Math.abs(current[0].transform[5] - item.transform[5]) <= tolerance) {
+                current.push(item);
+            } else {
+                groups.push([item]);
+            }
+        }
+
+        return groups.map(group => {
+            group.sort((a, b) => a.transform[4] - b.transform[4]);
+            let text = '';
+            let previousEnd: number | null = null;
+            for (const item of group) {
+                // Insert a space where the PDF positions words apart instead of emitting one
+                const gap = previousEnd === null ? 0 : item.transform[4] - previousEnd;
+                if (text && !/\s$/.test(text) && !/^\s/.test(item.str) && gap > item.height * 0.15) {
+                    text += ' ';
+                }
+                text += item.str;
+                previousEnd = item.transform[4] + item.width;
+            }
+            return {
+                text: text.replace(/\s+/g, ' ').trim(),
+                y: group[0].transform[5],
+                height: Math.max(...group.map(item => item.height)),
+            };
+        }).filter(line => line.text.length > 0);
+    }
+
+    // Keep single line breaks within a paragraph and blank lines where the vertical gap is large
+    private joinLines(lines: PdfLine[]): string {
+        return lines.reduce((text, line, index) => {
+            if (index === 0) return line.text;
+            const previous = lines[index - 1];
+            const isParagraphBreak = previous.y - line.y > Math.max(previous.height, line.height) * 1.8;
+            return `${text}${isParagraphBreak ? '\n\n' : '\n'}${line.text}`;
+        }, '');
+    }
+
+    private findRepeatedMargins(pages: PdfLine[][]): Set<string> {
+        const repeated = new Set<string>();
+        if (pages.length < 2) return repeated;
+
+        const counts = new Map<string, number>();
+        for (const lines of pages) {
+            const marginKeys = new Set(
+                [...lines.slice(0, MARGIN_LINES), ...lines.slice(-MARGIN_LINES)]
+                    .filter(line => !this.isSpeakerLine(line))
+                    .map(line => this.normalizeMarginLine(line.text))
+            );
+            marginKeys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1));
+        }
+
+        const threshold = Math.max(2, Math.ceil(pages.length * REPEATED_MARGIN_RATIO));
+        counts.forEach((count, key) => {
+            if (key && count >= threshold) repeated.add(key);
+        });
+        return repeated;
+    }
+
+    private isMarginNoise(line: PdfLine, index: number, lineCount: number, repeatedMargins: Set<string>): boolean {
+        const inMargin = index < MARGIN_LINES || index >= lineCount - MARGIN_LINES;
+        if (!inMargin || this.isSpeakerLine(line)) return false;
+
+        const key = this.normalizeMarginLine(line.text);
+        return repeatedMargins.has(key) || PAGE_NUMBER.test(key);
+    }
+
+    // A speaker label opening a turn at the top of every page repeats like a header but carries attribution
+    private isSpeakerLine(line: PdfLine): boolean {
+        return transcriptParserService.matchSpeakerLabel(line.text) !== null;
+    }
+
+    // Page numbers and dates differ between pages, so compare margin lines with digits masked
+    private normalizeMarginLine(text: string): string {
+        return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+    }
+}
+
+export const pdfParserService = new PdfParserService();
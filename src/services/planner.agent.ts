@@ -1,8 +1,12 @@
-import { llmService } from './llm.service';
+import { llmService, CompletionUsage } from './llm.service';
 import { agentLogger } from './agent-logger.service';
 import { settingsService } from './settings.service';
+import { transcriptParserService } from './transcript-parser.service';
+import { agentOrchestrator } from './agent.orchestrator';
+import { tokenEstimatorService } from './token-estimator.service';
 import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
 import { PlannerOutput, AnalysisFramework, FrameworkSegment } from '../types/phases';
+import { Transcript } from '../types';
 
 export class PlannerAgent {
     /**
@@ -13,15 +17,13 @@ export class PlannerAgent {
     }
 
     /**
-     * Analyzes the first portion of a transcript to understand context
+     * Analyzes the first portion of a transcript, or its summary in full mode, to understand context
      */
-    async analyzeContext(firstChars: string): Promise<string> {
+    async analyzeContext(firstChars: string, signal?: AbortSignal, summary?: string): Promise<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.analyzeContext;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'analyzeContext') || defaultPrompt;
 
-        const userPrompt = `Here are the first characters of a transcript:
-
-${firstChars}
+        const userPrompt = `${this.describeTranscript(firstChars, firstChars.length, summary)}
 
 Write one sentence describing what this transcript is about.`;
 
@@ -36,7 +38,7 @@ Write one sentence describing what this transcript is about.`;
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -45,21 +47,23 @@ Write one sentence describing what this transcript is about.`;
             } : undefined);
             return result.content.trim();
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
     /**
-     * Analyzes the first portion of a transcript to understand context (streaming version)
+     * Analyzes the first portion of a transcript, or its summary in full mode, to understand context (streaming version)
      */
-    async *analyzeContextStream(firstChars: string): AsyncGenerator<string> {
+    async *analyzeContextStream(firstChars: string, signal?: AbortSignal, summary?: string, onRestart?: () => void): AsyncGenerator<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.analyzeContext;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'analyzeContext') || defaultPrompt;
 
-        const userPrompt = `Here are the first characters of a transcript:
-
-${firstChars}
+        const userPrompt = `${this.describeTranscript(firstChars, firstChars.length, summary)}
 
 Write one sentence describing what this transcript is about.`;
 
@@ -73,16 +77,25 @@ Write one sentence describing what this transcript is about.`;
             model
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse.trim(), duration);
+            agentLogger.logResponse(logId, fullResponse.trim(), duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
@@ -90,13 +103,13 @@ Write one sentence describing what this transcript is about.`;
     /**
      * Generates metadata tags for the transcript
      */
-    async generateMetadata(transcript: string): Promise<string[]> {
+    async generateMetadata(transcript: string, signal?: AbortSignal, summary?: string): Promise<string[]> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.generateMetadata;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'generateMetadata') || defaultPrompt;
 
         const userPrompt = `Generate metadata tags for this transcript:
 
-${transcript.substring(0, 2000)}
+${this.describeTranscript(transcript, 2000, summary)}
 
 Return only comma-separated tags.`;
 
@@ -111,7 +124,7 @@ Return only comma-separated tags.`;
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -120,7 +133,11 @@ Return only comma-separated tags.`;
             } : undefined);
             return result.content.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
@@ -128,14 +145,13 @@ Return only comma-separated tags.`;
     /**
      * Proposes an analysis objective based on context
      */
-    async proposeObjective(context: string, transcript: string): Promise<string> {
+    async proposeObjective(context: string, transcript: string, signal?: AbortSignal, summary?: string): Promise<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.proposeObjective;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'proposeObjective') || defaultPrompt;
 
         const userPrompt = `Context: ${context}
 
-Transcript preview:
-${transcript.substring(0, 1500)}
+${this.describeTranscript(transcript, 1500, summary)}
 
 Propose an analysis objective for this transcript.`;
 
@@ -150,7 +166,7 @@ Propose an analysis objective for this transcript.`;
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -159,7 +175,11 @@ Propose an analysis objective for this transcript.`;
             } : undefined);
             return result.content.trim();
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
@@ -167,14 +187,13 @@ Propose an analysis objective for this transcript.`;
     /**
      * Proposes an analysis objective based on context (streaming version)
      */
-    async *proposeObjectiveStream(context: string, transcript: string): AsyncGenerator<string> {
+    async *proposeObjectiveStream(context: string, transcript: string, signal?: AbortSignal, summary?: string, onRestart?: () => void): AsyncGenerator<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.proposeObjective;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'proposeObjective') || defaultPrompt;
 
         const userPrompt = `Context: ${context}
 
-Transcript preview:
-${transcript.substring(0, 1500)}
+${this.describeTranscript(transcript, 1500, summary)}
 
 Propose an analysis objective for this transcript.`;
 
@@ -188,50 +207,94 @@ Propose an analysis objective for this transcript.`;
             model
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse.trim(), duration);
+            agentLogger.logResponse(logId, fullResponse.trim(), duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
     /**
-     * Generates complete planner output with streaming support
+     * Generates complete planner output with streaming support.
+     * In full planning mode the whole transcript is summarised first and everything is proposed from that summary.
      */
     async generatePlannerOutput(
         transcript: string,
         onContextUpdate?: (text: string) => void,
         onTagsUpdate?: (tags: string[]) => void,
-        onObjectiveUpdate?: (text: string) => void
+        onObjectiveUpdate?: (text: string) => void,
+        signal?: AbortSignal,
+        structuredTranscript?: Transcript
     ): Promise<PlannerOutput> {
         const firstChars = transcript.substring(0, 1000);
 
+        // Summarise the whole transcript when planning from all of it
+        const summary = settingsService.getPlanningMode() === 'full'
+            ? await this.summarizeTranscript(structuredTranscript ?? transcriptParserService.parse(transcript), signal)
+            : undefined;
+
         // Generate context understanding
-        const context = await this.analyzeContext(firstChars);
+        const context = await this.analyzeContext(firstChars, signal, summary);
         onContextUpdate?.(context);
 
         // Generate metadata tags
-        const tags = await this.generateMetadata(transcript);
+        const tags = await this.generateMetadata(transcript, signal, summary);
         onTagsUpdate?.(tags);
 
         // Generate analysis objective
-        const objective = await this.proposeObjective(context, transcript);
+        const objective = await this.proposeObjective(context, transcript, signal, summary);
         onObjectiveUpdate?.(objective);
 
         return {
             contextUnderstanding: context,
             metadataTags: tags,
             analysisObjective: objective,
+            transcriptSummary: summary,
         };
     }
 
+    /**
+     * Summarises the whole transcript, in parallel chunks merged into one summary when it is too long for one request
+     */
+    async summarizeTranscript(transcript: Transcript, signal?: AbortSignal): Promise<string> {
+        const model = this.getModel();
+        const empty = this.buildSummarizePrompt('', 1, 2);
+        const chunks = transcriptParserService.chunk(transcript, tokenEstimatorService.getChunkBudget(empty.systemPrompt, empty.userPrompt, model), model);
+
+        const settled = await agentOrchestrator.runParallelAgents(chunks.map((chunk, index) => ({
+            id: `planner:summary:part${index + 1}`,
+            name: chunks.length > 1 ? `Planner: Summary (part ${index + 1}/${chunks.length})` : 'Planner: Summary',
+            model,
+            priority: 'high' as const,
+            signal,
+            task: () => this.summarizePart(chunk, index, chunks.length, signal),
+        })));
+
+        const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+
+        const parts = settled.map(result => result.status === 'fulfilled' ? result.value : '');
+        return parts.length === 1 ? parts[0] : this.mergeSummaries(parts, signal);
+    }
+
     /**
      * Generates an analysis framework with segments for transcript processing
      */
@@ -239,7 +302,9 @@ Propose an analysis objective for this transcript.`;
         transcript: string,
         contextUnderstanding: string,
         analysisObjective: string,
-        metadataTags: string[]
+        metadataTags: string[],
+        signal?: AbortSignal,
+        summary?: string
     ): Promise<AnalysisFramework> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.generateFramework;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'generateFramework') || defaultPrompt;
@@ -250,8 +315,7 @@ Analysis Objective: ${analysisObjective}
 
 Tags: ${metadataTags.join(', ')}
 
-Transcript preview:
-${transcript.substring(0, 2000)}
+${this.describeTranscript(transcript, 2000, summary)}
 
 Create an analysis framework with 3-5 segments that will guide the extraction of insights from this transcript.`;
 
@@ -266,7 +330,7 @@ Create an analysis framework with 3-5 segments that will guide the extraction of
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -299,7 +363,11 @@ Create an analysis framework with 3-5 segments that will guide the extraction of
                 segments,
             };
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
@@ -311,7 +379,10 @@ Create an analysis framework with 3-5 segments that will guide the extraction of
         transcript: string,
         contextUnderstanding: string,
         analysisObjective: string,
-        metadataTags: string[]
+        metadataTags: string[],
+        signal?: AbortSignal,
+        summary?: string,
+        onRestart?: () => void
     ): AsyncGenerator<string> {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.generateFramework;
         const systemPrompt = settingsService.getAgentInstruction('planner', 'generateFramework') || defaultPrompt;
@@ -322,8 +393,7 @@ Analysis Objective: ${analysisObjective}
 
 Tags: ${metadataTags.join(', ')}
 
-Transcript preview:
-${transcript.substring(0, 2000)}
+${this.describeTranscript(transcript, 2000, summary)}
 
 Create an analysis framework with 3-5 segments that will guide the extraction of insights from this transcript.`;
 
@@ -337,16 +407,120 @@ Create an analysis framework with 3-5 segments that will guide the extraction of
             model
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse, duration);
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
+
+    // The transcript as the planner sees it: its opening in quick mode, or the summary of all of it in full mode
+    private describeTranscript(transcript: string, previewLength: number, summary?: string): string {
+        return summary !== undefined
+            ? `Summary of the whole transcript:\n${summary}`
+            : `Transcript preview:\n${transcript.substring(0, previewLength)}`;
+    }
+
+    private buildSummarizePrompt(transcriptText: string, part: number, parts: number): { systemPrompt: string; userPrompt: string } {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.summarizeTranscript;
+        const systemPrompt = settingsService.getAgentInstruction('planner', 'summarizeTranscript') || defaultPrompt;
+
+        const userPrompt = parts > 1
+            ? `Transcript (part ${part} of ${parts}):
+${transcriptText}
+
+Summarise this part of the transcript.`
+            : `Transcript:
+${transcriptText}
+
+Summarise the transcript.`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private async summarizePart(chunk: Transcript, index: number, total: number, signal?: AbortSignal): Promise<string> {
+        const { systemPrompt, userPrompt } = this.buildSummarizePrompt(transcriptParserService.toPromptText(chunk), index + 1, total);
+
+        const model = this.getModel();
+        const startTime = Date.now();
+        const logId = agentLogger.logRequest(
+            'Planner Agent',
+            'planner',
+            systemPrompt,
+            userPrompt,
+            model
+        );
+
+        try {
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
+            const duration = Date.now() - startTime;
+            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
+                prompt: result.usage.prompt_tokens,
+                completion: result.usage.completion_tokens,
+                total: result.usage.total_tokens
+            } : undefined);
+            return result.content.trim();
+        } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
+
+    private async mergeSummaries(parts: string[], signal?: AbortSignal): Promise<string> {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.planner.mergeSummaries;
+        const systemPrompt = settingsService.getAgentInstruction('planner', 'mergeSummaries') || defaultPrompt;
+
+        const userPrompt = `Summaries of the ${parts.length} consecutive parts of one transcript:
+
+${parts.map((part, index) => `### Part ${index + 1}\n${part}`).join('\n\n')}
+
+Combine them into one summary of the whole transcript.`;
+
+        const model = this.getModel();
+        const startTime = Date.now();
+        const logId = agentLogger.logRequest(
+            'Planner Agent',
+            'planner',
+            systemPrompt,
+            userPrompt,
+            model
+        );
+
+        try {
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
+            const duration = Date.now() - startTime;
+            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
+                prompt: result.usage.prompt_tokens,
+                completion: result.usage.completion_tokens,
+                total: result.usage.total_tokens
+            } : undefined);
+            return result.content.trim();
+        } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Planner Agent', 'planner', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
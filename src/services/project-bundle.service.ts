@@ -0,0 +1,110 @@
+// Project bundle service for exporting and importing complete analyses as a single file
+
+import { sessionStoreService } from './session-store.service';
+import { AnalysisState } from '../types/phases';
+import { AgentLog } from '../types/logging';
+import { ProjectBundle } from '../types/session';
+
+const BUNDLE_FORMAT = 'transcript-processor-project';
+const BUNDLE_VERSION = 4;
+
+type RawBundle = Record<string, unknown> & { version: number };
+
+// Fill fields a newer state shape added, keeping any value already present
+const withStateDefaults = (bundle: RawBundle, version: number, defaults: Record<string, unknown>): RawBundle => ({
+    ...bundle,
+    version,
+    state: { ...defaults, ...(bundle.state as Record<string, unknown>) },
+});
+
+// Upgrade steps keyed by the version they upgrade from; add one whenever the bundle shape changes
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+    // v2 records token usage per agent call
+    1: bundle => withStateDefaults(bundle, 2, { usage: [] }),
+    // v3 adds the critic panel's rubric selection, null for every rubric, and scorecards on segment analyses
+    2: bundle => withStateDefaults(bundle, 3, { rubricIds: null }),
+    // v4 adds the codebook and coded excerpts of the coding phase
+    3: bundle => withStateDefaults(bundle, 4, { codebook: [], codedExcerpts: [] }),
+};
+
+export interface ImportedProject {
+    state: AnalysisState;
+    agentLogs: AgentLog[];
+}
+
+class ProjectBundleService {
+    /**
+     * Export analysis state and agent logs as bundle JSON
+     */
+    export(state: AnalysisState, agentLogs: AgentLog[]): string {
+        const bundle: ProjectBundle = {
+            format: BUNDLE_FORMAT,
+            version: BUNDLE_VERSION,
+            exportedAt: new Date().toISOString(),
+            state: sessionStoreService.serialize(state),
+            agentLogs: agentLogs.map(log => ({ ...log, timestamp: log.timestamp.toISOString() })),
+        };
+        return JSON.stringify(bundle, null, 2);
+    }
+
+    /**
+     * Parse bundle JSON, upgrading bundles written by older versions
+     */
+    import(json: string): ImportedProject {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(json);
+        } catch {
+            throw new Error('Project file is not valid JSON');
+        }
+
+        const bundle = this.migrate(this.validate(raw));
+
+        return {
+            state: sessionStoreService.deserialize(bundle.state),
+            agentLogs: (bundle.agentLogs ?? []).map(log => ({ ...log, timestamp: new Date(log.timestamp) })),
+        };
+    }
+
+    /**
+     * Build a download file name from the project title
+     */
+    getFileName(state: AnalysisState): string {
+        const title = state.framework?.metadata.title || state.transcripts[0]?.name || 'analysis';
+        const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+        return `${slug || 'analysis'}-${Date.now()}.tpproj.json`;
+    }
+
+    private validate(raw: unknown): RawBundle {
+        if (typeof raw !== 'object' || raw === null || (raw as RawBundle).format !== BUNDLE_FORMAT) {
+            throw new Error('File is not a transcript processor project');
+        }
+
+        const version = (raw as RawBundle).version;
+        if (!Number.isInteger(version) || version < 1) {
+            throw new Error('Project file has no valid format version');
+        }
+        if (version > BUNDLE_VERSION) {
+            throw new Error(`Project file was created by a newer version of the app (format v${version})`);
+        }
+        if (typeof (raw as RawBundle).state !== 'object' || (raw as RawBundle).state === null) {
+            throw new Error('Project file contains no analysis state');
+        }
+
+        return raw as RawBundle;
+    }
+
+    private migrate(bundle: RawBundle): ProjectBundle {
+        let current = bundle;
+        while (current.version < BUNDLE_VERSION) {
+            const upgrade = MIGRATIONS[current.version];
+            if (!upgrade) {
+                throw new Error(`No upgrade path for project format v${current.version}`);
+            }
+            current = upgrade(current);
+        }
+        return current as unknown as ProjectBundle;
+    }
+}
+
+export const projectBundleService = new ProjectBundleService();
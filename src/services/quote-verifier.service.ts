@@ -0,0 +1,271 @@
+// Deterministic check of quoted passages in an analysis against the source transcript, with no LLM involved
+
+import { Quote, QuoteMatch, Transcript, Turn } from '../types';
+import { transcriptParserService } from './transcript-parser.service';
+
+// A passage in straight, curly, low-9 or guillemet double quotes, on one line
+const QUOTED_PASSAGE = /["“„«]([^"“”„«»\n]+?)["”“»]/g;
+
+// Words keep inner apostrophes so "don't" stays one word
+const WORD = /[\p{L}\p{N}]+(?:['’‘`][\p{L}\p{N}]+)*/gu;
+const APOSTROPHES = /['’‘`]/g;
+
+// Ellipses and [editorial insertions] split a quote into fragments that are matched separately
+const FRAGMENT_BREAK = /\.{3}|…|\[[^\]]*\]/;
+
+// Shorter quoted passages are usually terms or scare quotes rather than citations
+const MIN_QUOTE_WORDS = 3;
+const MIN_FRAGMENT_WORDS = 2;
+
+// Share of the quote's words that must line up with the transcript for the quote to count as verified
+export const VERIFIED_SIMILARITY = 0.85;
+
+// Matches below this are not worth showing as the closest passage
+const MIN_REPORTED_SIMILARITY = 0.5;
+
+// Alignment start positions tried per fragment, most shared words first
+const MAX_CANDIDATES = 8;
+
+// Words this close in spelling count half, to tolerate transcription noise such as "gonna" / "gona"
+const NEAR_WORD_COST = 0.5;
+
+interface Word {
+    text: string; // Lower-cased, apostrophes removed
+    start: number; // Character offsets in the source text
+    end: number;
+}
+
+interface TranscriptIndex {
+    words: Word[];
+    positions: Map<string, number[]>;
+}
+
+interface FragmentMatch {
+    start: number; // Word positions in the transcript, end exclusive
+    end: number;
+    similarity: number;
+}
+
+/**
+ * Finds quoted passages in an analysis and fuzzy-matches them against the transcript they claim to quote
+ */
+class QuoteVerifierService {
+    private indexes = new WeakMap<Transcript, TranscriptIndex>();
+
+    /**
+     * Extract the quoted passages from an analysis, in order of appearance
+     */
+    extractQuotes(content: string): string[] {
+        const quotes: string[] = [];
+        for (const [, text] of content.matchAll(QUOTED_PASSAGE)) {
+            const trimmed = text.trim();
+            if (this.tokenize(trimmed).length >= MIN_QUOTE_WORDS) {
+                quotes.push(trimmed);
+            }
+        }
+        return quotes;
+    }
+
+    /**
+     * Extract and verify every quoted passage in an analysis
+     */
+    verifyContent(content: string, transcript: Transcript): Quote[] {
+        return this.extractQuotes(content).map(text => this.verifyQuote(text, transcript));
+    }
+
+    /**
+     * Match one quote against the transcript, tolerating case, punctuation, smart quotes and small word differences
+     */
+    verifyQuote(text: string, transcript: Transcript): Quote {
+        const index = this.getIndex(transcript);
+        const fragments = text.split(FRAGMENT_BREAK)
+            .map(fragment => this.tokenize(fragment).map(word => word.text))
+            .filter(words => words.length >= MIN_FRAGMENT_WORDS);
+        if (fragments.length === 0) {
+            fragments.push(this.tokenize(text).map(word => word.text));
+        }
+
+        // Later fragments are searched after the previous one, as an elided quote runs forwards
+        const matches: FragmentMatch[] = [];
+        let from = 0;
+        for (const fragment of fragments) {
+            const match = this.matchFragment(fragment, index, from);
+            if (!match) {
+                return { text, verified: false };
+            }
+            matches.push(match);
+            from = match.end;
+        }
+
+        const totalWords = fragments.reduce((sum, fragment) => sum + fragment.length, 0);
+        const similarity = fragments.reduce((sum, fragment, i) => sum + matches[i].similarity * fragment.length, 0) / totalWords;
+        if (similarity < MIN_REPORTED_SIMILARITY) {
+            return { text, verified: false };
+        }
+
+        const startOffset = index.words[matches[0].start].start;
+        const endOffset = index.words[matches[matches.length - 1].end - 1].end;
+        const turn = this.findTurn(transcript.turns, startOffset);
+        const match: QuoteMatch = {
+            turnIndex: turn?.index ?? 0,
+            speaker: turn?.speaker ?? '',
+            startTime: turn?.startTime,
+            startOffset,
+            endOffset,
+            similarity,
+        };
+
+        return {
+            text,
+            context: turn ? this.describeTurn(turn) : undefined,
+            verified: similarity >= VERIFIED_SIMILARITY,
+            match,
+        };
+    }
+
+    // Score alignments at the start positions that share the most words with the fragment
+    private matchFragment(fragment: string[], index: TranscriptIndex, from: number): FragmentMatch | null {
+        const votes = new Map<number, number>();
+        fragment.forEach((word, offset) => {
+            for (const position of index.positions.get(word) ?? []) {
+                const start = position - offset;
+                if (position >= from) {
+                    votes.set(start, (votes.get(start) ?? 0) + 1);
+                }
+            }
+        });
+
+        const candidates = Array.from(votes.entries())
+            .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+            .slice(0, MAX_CANDIDATES);
+
+        // Room either side lets the alignment absorb inserted or dropped words
+        const slack = Math.ceil(fragment.length * (1 - VERIFIED_SIMILARITY)) + 2;
+        let best: FragmentMatch | null = null;
+        for (const [start] of candidates) {
+            const windowStart = Math.max(from, start - slack);
+            const windowEnd = Math.min(index.words.length, start + fragment.length + slack);
+            const match = this.align(fragment, index.words, windowStart, windowEnd);
+            if (match && (!best || match.similarity > best.similarity)) {
+                best = match;
+            }
+        }
+        return best;
+    }
+
+    // Edit distance of the fragment against its best-fitting stretch of the window, free to start and end anywhere in it
+    private align(fragment: string[], words: Word[], windowStart: number, windowEnd: number): FragmentMatch | null {
+        const width = windowEnd - windowStart;
+        if (width <= 0) return null;
+
+        let costs = new Array<number>(width + 1).fill(0);
+        let starts = Array.from({ length: width + 1 }, (_, j) => j);
+        for (let i = 1; i <= fragment.length; i++) {
+            const nextCosts = new Array<number>(width + 1);
+            const nextStarts = new Array<number>(width + 1);
+            nextCosts[0] = i;
+            nextStarts[0] = 0;
+            for (let j = 1; j <= width; j++) {
+                const substitute = costs[j - 1] + this.wordCost(fragment[i - 1], words[windowStart + j - 1].text);
+                const skipQuoteWord = costs[j] + 1;
+                const skipTranscriptWord = nextCosts[j - 1] + 1;
+                if (substitute <= skipQuoteWord && substitute <= skipTranscriptWord) {
+                    nextCosts[j] = substitute;
+                    nextStarts[j] = starts[j - 1];
+                } else if (skipQuoteWord <= skipTranscriptWord) {
+                    nextCosts[j] = skipQuoteWord;
+                    nextStarts[j] = starts[j];
+                } else {
+                    nextCosts[j] = skipTranscriptWord;
+                    nextStarts[j] = nextStarts[j - 1];
+                }
+            }
+            costs = nextCosts;
+            starts = nextStarts;
+        }
+
+        let end = 1;
+        for (let j = 2; j <= width; j++) {
+            if (costs[j] < costs[end]) end = j;
+        }
+        const start = starts[end];
+        if (start >= end) return null;
+
+        return {
+            start: windowStart + start,
+            end: windowStart + end,
+            similarity: Math.max(0, 1 - costs[end] / fragment.length),
+        };
+    }
+
+    private wordCost(a: string, b: string): number {
+        if (a === b) return 0;
+        const shorter = Math.min(a.length, b.length);
+        if (shorter < 4) return 1;
+        const allowed = shorter >= 8 ? 2 : 1;
+        return this.levenshtein(a, b, allowed) <= allowed ? NEAR_WORD_COST : 1;
+    }
+
+    // Character edit distance, giving up once it exceeds the limit
+    private levenshtein(a: string, b: string, limit: number): number {
+        if (Math.abs(a.length - b.length) > limit) return limit + 1;
+        let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            let rowMin = i;
+            for (let j = 1; j <= b.length; j++) {
+                current[j] = Math.min(
+                    previous[j] + 1,
+                    current[j - 1] + 1,
+                    previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+                );
+                rowMin = Math.min(rowMin, current[j]);
+            }
+            if (rowMin > limit) return limit + 1;
+            previous = current;
+        }
+        return previous[b.length];
+    }
+
+    private tokenize(text: string): Word[] {
+        return Array.from(text.matchAll(WORD), match => ({
+            text: match[0].toLowerCase().replace(APOSTROPHES, ''),
+            start: match.index!,
+            end: match.index! + match[0].length,
+        }));
+    }
+
+    // Word positions of a transcript, built once per transcript object
+    private getIndex(transcript: Transcript): TranscriptIndex {
+        let index = this.indexes.get(transcript);
+        if (!index) {
+            const words = this.tokenize(transcript.content);
+            const positions = new Map<string, number[]>();
+            words.forEach((word, position) => {
+                const list = positions.get(word.text);
+                if (list) {
+                    list.push(position);
+                } else {
+                    positions.set(word.text, [position]);
+                }
+            });
+            index = { words, positions };
+            this.indexes.set(transcript, index);
+        }
+        return index;
+    }
+
+    private findTurn(turns: Turn[], offset: number): Turn | undefined {
+        return turns.find(turn => offset >= turn.startOffset && offset < turn.endOffset)
+            ?? [...turns].reverse().find(turn => turn.startOffset <= offset);
+    }
+
+    private describeTurn(turn: Turn): string {
+        const parts = [transcriptParserService.getTurnLabel(turn)];
+        if (turn.speaker) parts.push(turn.speaker);
+        if (turn.startTime !== undefined) parts.push(transcriptParserService.formatTimestamp(turn.startTime));
+        return parts.join(' · ');
+    }
+}
+
+export const quoteVerifierService = new QuoteVerifierService();
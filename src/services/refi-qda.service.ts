@@ -0,0 +1,190 @@
+// REFI-QDA service for exchanging codebooks and coded transcripts with NVivo, ATLAS.ti, MAXQDA and other QDA tools
+
+import { AnalysisState, Code, ProjectTranscript } from '../types/phases';
+import { CodeFields } from './codebook.service';
+import { zipArchiveService } from './zip-archive.service';
+
+const PROJECT_NAMESPACE = 'urn:QDA-XML:project:1.0';
+const ORIGIN = 'Transcript Processor';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// REFI-QDA codes only have a description, so rules and examples travel in it under these headings
+const DESCRIPTION_SECTIONS = [
+    { field: 'includeRules', heading: 'Apply when:' },
+    { field: 'excludeRules', heading: 'Do not apply when:' },
+    { field: 'examples', heading: 'Examples:' },
+] as const;
+
+export type QdaSource = Pick<ProjectTranscript, 'id' | 'name' | 'transcript'>;
+
+class RefiQdaService {
+    /**
+     * Build a .qdpx project holding the transcripts, the codebook and every accepted coding
+     */
+    exportProject(state: AnalysisState, sources: QdaSource[]): Blob {
+        const now = new Date().toISOString();
+        const userGuid = crypto.randomUUID();
+        const guids = new Map<string, string>();
+        // Ids of this app are UUIDs already; anything else gets a stable stand-in for the export
+        const guidFor = (id: string) => {
+            if (!guids.has(id)) guids.set(id, UUID_PATTERN.test(id) ? id : crypto.randomUUID());
+            return guids.get(id)!;
+        };
+
+        const codes = new Map(state.codebook.map(code => [code.id, code]));
+        const files = sources.map(source => ({ source, guid: guidFor(source.id) }));
+
+        const sourceXml = files.map(({ source, guid }) => {
+            const selections = state.codedExcerpts
+                .filter(excerpt => excerpt.transcriptId === source.id && excerpt.status === 'accepted' && codes.has(excerpt.codeId))
+                .sort((a, b) => a.turnIndex - b.turnIndex)
+                .flatMap(excerpt => {
+                    const turn = source.transcript.turns[excerpt.turnIndex];
+                    if (!turn) return [];
+                    const label = [`T${turn.index + 1}`, turn.speaker].filter(Boolean).join(' ');
+                    const created = (excerpt.reviewedAt ?? excerpt.createdAt).toISOString();
+                    return [
+                        `      <PlainTextSelection guid="${crypto.randomUUID()}" name="${this.escape(label)}"`
+                        + ` startPosition="${this.toCodePoints(source.transcript.content, turn.startOffset)}"`
+                        + ` endPosition="${this.toCodePoints(source.transcript.content, turn.endOffset)}"`
+                        + ` creatingUser="${userGuid}" creationDateTime="${created}">`,
+                        `        <Description>${this.escape(excerpt.justification)}</Description>`,
+                        `        <Coding guid="${crypto.randomUUID()}" creatingUser="${userGuid}" creationDateTime="${created}">`,
+                        `          <CodeRef targetGUID="${guidFor(excerpt.codeId)}"/>`,
+                        '        </Coding>',
+                        '      </PlainTextSelection>',
+                    ];
+                });
+
+            return [
+                `    <TextSource guid="${guid}" name="${this.escape(source.name)}" plainTextPath="internal://${guid}.txt"`
+                + ` creatingUser="${userGuid}" creationDateTime="${source.transcript.uploadedAt.toISOString()}">`,
+                ...selections,
+                '    </TextSource>',
+            ].join('\n');
+        });
+
+        const project = [
+            '<?xml version="1.0" encoding="utf-8"?>',
+            `<Project xmlns="${PROJECT_NAMESPACE}" name="${this.escape(this.getProjectName(state))}" origin="${ORIGIN}"`
+            + ` creatingUserGUID="${userGuid}" creationDateTime="${now}">`,
+            '  <Users>',
+            `    <User guid="${userGuid}" name="${ORIGIN}"/>`,
+            '  </Users>',
+            '  <CodeBook>',
+            '    <Codes>',
+            ...state.codebook.map(code => this.codeXml(code, guidFor(code.id), '      ')),
+            '    </Codes>',
+            '  </CodeBook>',
+            '  <Sources>',
+            ...sourceXml,
+            '  </Sources>',
+            '</Project>',
+            '',
+        ].join('\n');
+
+        return zipArchiveService.create([
+            { path: 'project.qde', data: project },
+            ...files.map(({ source, guid }) => ({ path: `sources/${guid}.txt`, data: source.transcript.content })),
+        ]);
+    }
+
+    /**
+     * Read the codes of a .qdc codebook (or a .qde project); nested codes are named by their path
+     */
+    parseCodebook(xml: string): CodeFields[] {
+        const document = new DOMParser().parseFromString(xml, 'application/xml');
+        if (document.getElementsByTagName('parsererror').length > 0) {
+            throw new Error('The file is not valid XML');
+        }
+        const codes = Array.from(document.getElementsByTagNameNS('*', 'Codes'))[0];
+        if (!codes) {
+            throw new Error('The file is not a REFI-QDA codebook');
+        }
+
+        const fields: CodeFields[] = [];
+        const visit = (parent: Element, path: string[]) => {
+            this.childElements(parent, 'Code').forEach(element => {
+                const name = (element.getAttribute('name') ?? '').trim();
+                if (!name) return;
+                // Codes marked not codable only group their children
+                if (element.getAttribute('isCodable') !== 'false') {
+                    const description = this.childElements(element, 'Description')[0]?.textContent ?? '';
+                    fields.push({ name: [...path, name].join(' / '), ...this.readDescription(description) });
+                }
+                visit(element, [...path, name]);
+            });
+        };
+        visit(codes, []);
+        return fields;
+    }
+
+    /**
+     * Build a download file name from the project title
+     */
+    getFileName(state: AnalysisState): string {
+        const slug = this.getProjectName(state).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+        return `${slug || 'analysis'}.qdpx`;
+    }
+
+    private getProjectName(state: AnalysisState): string {
+        return state.framework?.metadata.title || state.transcripts[0]?.name || 'Transcript analysis';
+    }
+
+    private codeXml(code: Code, guid: string, indent: string): string {
+        return [
+            `${indent}<Code guid="${guid}" name="${this.escape(code.name)}" isCodable="true">`,
+            `${indent}  <Description>${this.escape(this.writeDescription(code))}</Description>`,
+            `${indent}</Code>`,
+        ].join('\n');
+    }
+
+    private writeDescription(code: Code): string {
+        const sections = DESCRIPTION_SECTIONS
+            .filter(({ field }) => code[field].length > 0)
+            .map(({ field, heading }) => [heading, ...code[field].map(item => `- ${item}`)].join('\n'));
+        return [code.definition, ...sections].filter(Boolean).join('\n\n');
+    }
+
+    // Splits a description written by writeDescription back into fields; other descriptions become the definition
+    private readDescription(text: string): Omit<CodeFields, 'name'> {
+        const definition: string[] = [];
+        const lists: Record<(typeof DESCRIPTION_SECTIONS)[number]['field'], string[]> = { includeRules: [], excludeRules: [], examples: [] };
+        let current: keyof typeof lists | undefined;
+
+        text.split(/\r?\n/).forEach(line => {
+            const trimmed = line.trim();
+            const section = DESCRIPTION_SECTIONS.find(({ heading }) => heading === trimmed);
+            if (section) {
+                current = section.field;
+            } else if (current) {
+                const item = trimmed.replace(/^[-•*]\s*/, '');
+                if (item) lists[current].push(item);
+            } else {
+                definition.push(line);
+            }
+        });
+        return { definition: definition.join('\n').trim(), ...lists };
+    }
+
+    private childElements(parent: Element, localName: string): Element[] {
+        return Array.from(parent.children).filter(child => child.localName === localName);
+    }
+
+    // REFI-QDA positions count Unicode characters, JavaScript offsets count UTF-16 code units
+    private toCodePoints(text: string, offset: number): number {
+        return Array.from(text.slice(0, offset)).length;
+    }
+
+    private escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+    }
+}
+
+export const refiQdaService = new RefiQdaService();
@@ -0,0 +1,161 @@
+import { SegmentAnalysis, SegmentVersion, VersionSource } from '../types/phases';
+
+// Keystrokes within this long of the last manual edit extend that version instead of adding one
+const EDIT_COALESCE_MS = 5 * 60 * 1000;
+
+// A stretch of a word-level diff
+export interface DiffPart {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+interface VersionDetails {
+    author: string;
+    critique?: string;
+    note?: string;
+}
+
+/**
+ * Keeps the version list of a segment analysis and compares versions word by word
+ */
+class SegmentVersionService {
+    /**
+     * Get the versions of an analysis; analyses saved before versioning start from their current text
+     */
+    getVersions(analysis: SegmentAnalysis): SegmentVersion[] {
+        if (analysis.versions && analysis.versions.length > 0) {
+            return analysis.versions;
+        }
+        return [this.createVersion(analysis.content, 'writer', { author: 'Writer Agent' }, analysis.generatedAt)];
+    }
+
+    /**
+     * Add fresh writer output as a version, keeping the history of the analysis it replaces
+     */
+    recordDraft(draft: SegmentAnalysis, previous?: SegmentAnalysis): SegmentAnalysis {
+        const versions = previous && (previous.versions || previous.content) ? this.getVersions(previous) : [];
+        const note = draft.status === 'cancelled' ? 'Stopped before finishing' : undefined;
+        return {
+            ...draft,
+            versions: [...versions, this.createVersion(draft.content, 'writer', { author: 'Writer Agent', note })],
+        };
+    }
+
+    /**
+     * Set new content on an analysis and add it to the version list
+     */
+    record(analysis: SegmentAnalysis, content: string, source: VersionSource, details: VersionDetails): SegmentAnalysis {
+        return {
+            ...analysis,
+            content,
+            generatedAt: new Date(),
+            versions: [...this.getVersions(analysis), this.createVersion(content, source, details)],
+        };
+    }
+
+    /**
+     * Apply a manual edit, extending the previous version while the user keeps typing
+     */
+    recordEdit(analysis: SegmentAnalysis, content: string): SegmentAnalysis {
+        const versions = this.getVersions(analysis);
+        const last = versions[versions.length - 1];
+        if (last.source === 'edit' && Date.now() - new Date(last.createdAt).getTime() < EDIT_COALESCE_MS) {
+            return {
+                ...analysis,
+                content,
+                versions: [...versions.slice(0, -1), { ...last, content, createdAt: new Date() }],
+            };
+        }
+        return { ...this.record(analysis, content, 'edit', { author: 'You' }), generatedAt: analysis.generatedAt };
+    }
+
+    /**
+     * Restore an earlier version as a new version, so the revert itself can be undone
+     */
+    revert(analysis: SegmentAnalysis, versionId: string): SegmentAnalysis {
+        const versions = this.getVersions(analysis);
+        const index = versions.findIndex(version => version.id === versionId);
+        if (index < 0) return analysis;
+        return this.record(analysis, versions[index].content, 'revert', { author: 'You', note: `Reverted to version ${index + 1}` });
+    }
+
+    /**
+     * Compare two texts word by word, keeping the whitespace of the texts
+     */
+    diffWords(before: string, after: string): DiffPart[] {
+        const a = before.match(/\S+\s*/g) ?? [];
+        const b = after.match(/\S+\s*/g) ?? [];
+        const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+
+        // Common ends are matched directly, leaving a smaller middle for the LCS table
+        let prefix = 0;
+        while (prefix < a.length && prefix < b.length && same(prefix, prefix)) prefix++;
+        let suffix = 0;
+        while (suffix < a.length - prefix && suffix < b.length - prefix && same(a.length - 1 - suffix, b.length - 1 - suffix)) suffix++;
+
+        const n = a.length - prefix - suffix;
+        const m = b.length - prefix - suffix;
+        const lcs = new Uint32Array((n + 1) * (m + 1));
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = m - 1; j >= 0; j--) {
+                lcs[i * (m + 1) + j] = same(prefix + i, prefix + j)
+                    ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+            }
+        }
+
+        const parts: DiffPart[] = [];
+        const push = (type: DiffPart['type'], text: string) => {
+            const last = parts[parts.length - 1];
+            if (last?.type === type) {
+                last.text += text;
+            } else {
+                parts.push({ type, text });
+            }
+        };
+
+        a.slice(0, prefix).forEach(word => push('same', word));
+        let i = 0;
+        let j = 0;
+        while (i < n || j < m) {
+            if (i < n && j < m && same(prefix + i, prefix + j)) {
+                push('same', b[prefix + j]);
+                i++;
+                j++;
+            } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+                push('added', b[prefix + j]);
+                j++;
+            } else {
+                push('removed', a[prefix + i]);
+                i++;
+            }
+        }
+        b.slice(b.length - suffix).forEach(word => push('same', word));
+        return parts;
+    }
+
+    /**
+     * Describe where a version came from, e.g. "Rewrite by Writer Agent"
+     */
+    describe(version: SegmentVersion): string {
+        const labels: Record<VersionSource, string> = {
+            writer: 'Written',
+            rewrite: 'Rewrite',
+            edit: 'Edited',
+            revert: 'Revert',
+        };
+        return `${labels[version.source]} by ${version.author}`;
+    }
+
+    private createVersion(content: string, source: VersionSource, details: VersionDetails, createdAt: Date = new Date()): SegmentVersion {
+        return {
+            id: `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            content,
+            source,
+            createdAt,
+            ...details,
+        };
+    }
+}
+
+export const segmentVersionService = new SegmentVersionService();
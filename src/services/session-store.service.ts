@@ -0,0 +1,211 @@
+// Session store for persisting analysis state in IndexedDB
+
+import { AnalysisState } from '../types/phases';
+import { SerializedAnalysisState, SessionSummary, StoredSession } from '../types/session';
+import { usageService } from './usage.service';
+
+const DB_NAME = 'transcript_processor';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+const ACTIVE_SESSION_KEY = 'transcript_processor_active_session';
+
+// Tagged values written in place of types JSON cannot represent
+type TaggedValue =
+    | { __type: 'Map'; entries: [unknown, unknown][] }
+    | { __type: 'Date'; value: string };
+
+const isTaggedValue = (value: unknown): value is TaggedValue =>
+    typeof value === 'object' && value !== null && '__type' in value;
+
+class SessionStoreService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Save analysis state under a session id, keeping the original creation date
+     */
+    async save(id: string, state: AnalysisState): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const existing = await this.request<StoredSession | undefined>(store.get(id));
+        const now = new Date();
+        const usage = usageService.getTotals(state.usage);
+
+        const session: StoredSession = {
+            id,
+            title: this.getTitle(state),
+            currentPhase: state.currentPhase,
+            transcriptCount: Math.max(state.transcripts.length, state.transcript ? 1 : 0),
+            usage: { tokens: usage.total, cost: usage.cost },
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+            state: this.serialize(state),
+        };
+
+        store.put(session);
+        await this.complete(tx);
+    }
+
+    /**
+     * Load the analysis state of a session
+     */
+    async load(id: string): Promise<AnalysisState | undefined> {
+        const db = await this.open();
+        const session = await this.request<StoredSession | undefined>(
+            db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id)
+        );
+        return session ? this.deserialize(session.state) : undefined;
+    }
+
+    /**
+     * List saved sessions, most recently updated first
+     */
+    async list(): Promise<SessionSummary[]> {
+        const db = await this.open();
+        const sessions = await this.request<StoredSession[]>(
+            db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+        );
+
+        return sessions
+            .map(({ state: _state, ...summary }) => summary)
+            .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+
+    /**
+     * Copy a session under a new id and return the new id
+     */
+    async duplicate(id: string): Promise<string> {
+        const db = await this.open();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const session = await this.request<StoredSession | undefined>(store.get(id));
+        if (!session) {
+            throw new Error('Session not found');
+        }
+
+        const now = new Date();
+        const copy: StoredSession = {
+            ...session,
+            id: crypto.randomUUID(),
+            title: `${session.title} (copy)`,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        store.put(copy);
+        await this.complete(tx);
+        return copy.id;
+    }
+
+    /**
+     * Delete a session
+     */
+    async delete(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).delete(id);
+        await this.complete(tx);
+
+        if (this.getActiveSessionId() === id) {
+            this.setActiveSessionId(null);
+        }
+    }
+
+    /**
+     * Get the id of the session to restore after a page reload
+     */
+    getActiveSessionId(): string | null {
+        return localStorage.getItem(ACTIVE_SESSION_KEY);
+    }
+
+    /**
+     * Remember (or forget) the session to restore after a page reload
+     */
+    setActiveSessionId(id: string | null): void {
+        if (id) {
+            localStorage.setItem(ACTIVE_SESSION_KEY, id);
+        } else {
+            localStorage.removeItem(ACTIVE_SESSION_KEY);
+        }
+    }
+
+    /**
+     * Convert analysis state to a JSON-safe object, tagging Maps and Dates
+     */
+    serialize(state: AnalysisState): SerializedAnalysisState {
+        return JSON.parse(JSON.stringify(state, function (this: Record<string, unknown>, key, value) {
+            // Date.toJSON runs before the replacer, so read the original value from the holder
+            const original = this[key];
+            if (original instanceof Map) {
+                return { __type: 'Map', entries: Array.from(original.entries()) };
+            }
+            if (original instanceof Date) {
+                return { __type: 'Date', value: original.toISOString() };
+            }
+            return value;
+        }));
+    }
+
+    /**
+     * Rebuild analysis state from its serialized form
+     */
+    deserialize(data: SerializedAnalysisState): AnalysisState {
+        const revived = JSON.parse(JSON.stringify(data), (_key, value) => {
+            if (!isTaggedValue(value)) return value;
+            return value.__type === 'Map' ? new Map(value.entries) : new Date(value.value);
+        });
+
+        // Sessions kept in this browser carry no format version, so those saved by earlier versions get the
+        // project, usage, critic panel and coding fields here; project bundles are upgraded by their migrations before this
+        return {
+            ...revived,
+            transcripts: revived.transcripts ?? [],
+            synthesis: revived.synthesis ?? new Map(),
+            usage: revived.usage ?? [],
+            rubricIds: revived.rubricIds ?? null,
+            codebook: revived.codebook ?? [],
+            codedExcerpts: revived.codedExcerpts ?? [],
+        };
+    }
+
+    private getTitle(state: AnalysisState): string {
+        return state.framework?.metadata.title
+            || state.plannerOutput?.contextUnderstanding
+            || state.transcripts[0]?.name
+            || 'Untitled analysis';
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private request<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private complete(tx: IDBTransaction): Promise<void> {
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
+
+export const sessionStoreService = new SessionStoreService();
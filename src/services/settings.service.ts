@@ -1,32 +1,115 @@
 // Settings service for persisting user preferences using localStorage
 
-import { DEFAULT_LLM_PROVIDER, LLM_PROVIDER_CONFIGS, LLMProvider } from '../constants/llm-providers';
+import { DEFAULT_LLM_PROVIDER, LLM_PROVIDER_CONFIGS, LLMProvider, LLMProviderModelOption, RetryPolicy } from '../constants/llm-providers';
+import { DEFAULT_RUBRICS } from '../constants/default-rubrics';
 
-export type AgentType = 'planner' | 'writer' | 'critic' | 'gapAnalysis';
+export type AgentType = 'planner' | 'writer' | 'critic' | 'gapAnalysis' | 'synthesis' | 'coding';
 
 export interface AgentSettings {
     model: string;
     instructions: Record<string, string>;
 }
 
+// A user-defined quality criterion, run as its own critic in the critic panel
+export interface CriticRubric {
+    id: string;
+    name: string;
+    description?: string;
+    instructions: string; // System prompt saying what the critic judges and what a high score means
+    model: string; // Empty to use the critic agent's model
+    weight: number; // Share of the rubric in a scorecard's overall score
+    passScore: number; // Score from 0 to 100 the rubric needs to pass
+}
+
+// Connection details for a self-hosted server: OpenAI-compatible (LiteLLM, vLLM, LM Studio, llama.cpp) or Ollama
+export interface EndpointSettings {
+    baseUrl: string;
+    headers: Record<string, string>; // Extra headers sent with every request
+    models: LLMProviderModelOption[]; // Empty to use the provider's built-in list
+}
+
+// Record and replay options for the mock provider
+export interface MockSettings {
+    recording: boolean; // Capture exchanges with real providers as fixtures
+    timingScale: number; // 1 replays streams at recorded speed, 0 instantly
+}
+
+// Quick plans from the opening of the transcript; full summarises all of it first
+export type PlanningMode = 'quick' | 'full';
+
+// Phase 3 critique and rewrite loop: a draft is rewritten until the critic passes it or the rewrites run out
+export interface AutoRefineSettings {
+    enabled: boolean; // Refine every segment as soon as the writers finish
+    minScore: number; // Objective fulfillment score a draft needs, 0-100, besides passing source alignment
+    maxRewrites: number;
+}
+
+// Cap on concurrent requests to a provider, with optional per-model caps
+export interface ConcurrencySettings {
+    maxInFlight: number;
+    models: Record<string, number>; // Model id to its own cap
+}
+
 export interface AppSettings {
     provider: LLMProvider;
     apiKeys: Partial<Record<LLMProvider, string>>;
+    endpoint: EndpointSettings;
+    ollama: EndpointSettings;
+    mock: MockSettings;
+    retryPolicies: Partial<Record<LLMProvider, RetryPolicy>>; // Overrides of each provider's default policy
+    concurrency: Partial<Record<LLMProvider, ConcurrencySettings>>; // Overrides of each provider's default cap
+    planningMode: PlanningMode;
+    autoRefine: AutoRefineSettings;
+    rubrics: CriticRubric[];
     agents: {
         planner: AgentSettings;
         writer: AgentSettings;
         critic: AgentSettings;
         gapAnalysis: AgentSettings;
+        synthesis: AgentSettings;
+        coding: AgentSettings;
     };
 }
 
-const buildAgentDefaults = (provider: LLMProvider): AppSettings['agents'] => {
-    const defaultModel = LLM_PROVIDER_CONFIGS[provider].defaultModel;
+// Providers whose connection is configured through EndpointSettings
+export type EndpointProvider = 'litellm' | 'ollama';
+
+type EndpointConfig = Pick<AppSettings, 'endpoint' | 'ollama'>;
+
+const ENDPOINT_SETTINGS_KEYS: Record<EndpointProvider, keyof EndpointConfig> = {
+    litellm: 'endpoint',
+    ollama: 'ollama'
+};
+
+const isEndpointProvider = (provider: LLMProvider): provider is EndpointProvider =>
+    Object.prototype.hasOwnProperty.call(ENDPOINT_SETTINGS_KEYS, provider);
+
+const buildEndpointDefaults = (provider: EndpointProvider = 'litellm'): EndpointSettings => ({
+    baseUrl: LLM_PROVIDER_CONFIGS[provider].defaultBaseUrl ?? '',
+    headers: {},
+    models: []
+});
+
+// Models offered for a provider: the endpoint's own list when one is configured
+const getModelsForProvider = (provider: LLMProvider, endpoints?: EndpointConfig): LLMProviderModelOption[] => {
+    const endpoint = isEndpointProvider(provider) ? endpoints?.[ENDPOINT_SETTINGS_KEYS[provider]] : undefined;
+    if (endpoint && endpoint.models.length > 0) {
+        return endpoint.models;
+    }
+    return LLM_PROVIDER_CONFIGS[provider].models;
+};
+
+const buildAgentDefaults = (provider: LLMProvider, endpoints?: EndpointConfig): AppSettings['agents'] => {
+    const models = getModelsForProvider(provider, endpoints);
+    const configDefault = LLM_PROVIDER_CONFIGS[provider].defaultModel;
+    const defaultModel = models.some(m => m.id === configDefault) ? configDefault : models[0]?.id ?? configDefault;
     return {
         planner: { model: defaultModel, instructions: {} },
         writer: { model: defaultModel, instructions: {} },
         critic: { model: defaultModel, instructions: {} },
-        gapAnalysis: { model: defaultModel, instructions: {} }
+        gapAnalysis: { model: defaultModel, instructions: {} },
+        synthesis: { model: defaultModel, instructions: {} },
+        coding: { model: defaultModel, instructions: {} }
     };
 };
 
@@ -35,6 +118,14 @@ const STORAGE_KEY = 'transcript_processor_settings';
 const DEFAULT_SETTINGS: AppSettings = {
     provider: DEFAULT_LLM_PROVIDER,
     apiKeys: {},
+    endpoint: buildEndpointDefaults(),
+    ollama: buildEndpointDefaults('ollama'),
+    mock: { recording: false, timingScale: 1 },
+    retryPolicies: {},
+    concurrency: {},
+    planningMode: 'full',
+    autoRefine: { enabled: false, minScore: 80, maxRewrites: 2 },
+    rubrics: DEFAULT_RUBRICS,
     agents: buildAgentDefaults(DEFAULT_LLM_PROVIDER)
 };
 
@@ -52,10 +143,11 @@ const isValidProvider = (value: string | undefined): value is LLMProvider => {
 const normalizeAgentsForProvider = (
     agents: Partial<AppSettings['agents']> | undefined,
     provider: LLMProvider,
-    forceReset = false
+    forceReset = false,
+    endpoints?: EndpointConfig
 ): AppSettings['agents'] => {
-    const defaultAgents = buildAgentDefaults(provider);
-    const allowedModels = new Set(LLM_PROVIDER_CONFIGS[provider].models.map((m) => m.id));
+    const defaultAgents = buildAgentDefaults(provider, endpoints);
+    const allowedModels = new Set(getModelsForProvider(provider, endpoints).map((m) => m.id));
 
     const mapAgent = (agent: AgentType): AgentSettings => {
         const existing = agents?.[agent];
@@ -73,7 +165,9 @@ const normalizeAgentsForProvider = (
         planner: mapAgent('planner'),
         writer: mapAgent('writer'),
         critic: mapAgent('critic'),
-        gapAnalysis: mapAgent('gapAnalysis')
+        gapAnalysis: mapAgent('gapAnalysis'),
+        synthesis: mapAgent('synthesis'),
+        coding: mapAgent('coding')
     };
 };
 
@@ -104,10 +198,33 @@ class SettingsService {
                 apiKeys[provider] = parsed.apiKey;
             }
 
+            const endpoint: EndpointSettings = {
+                ...buildEndpointDefaults(),
+                ...(parsed.endpoint || {})
+            };
+
+            const ollama: EndpointSettings = {
+                ...buildEndpointDefaults('ollama'),
+                ...(parsed.ollama || {})
+            };
+
+            const mock: MockSettings = {
+                ...DEFAULT_SETTINGS.mock,
+                ...(parsed.mock || {})
+            };
+
             const merged: AppSettings = {
                 provider,
                 apiKeys,
-                agents: normalizeAgentsForProvider(parsed.agents, provider)
+                endpoint,
+                ollama,
+                mock,
+                retryPolicies: { ...(parsed.retryPolicies || {}) },
+                concurrency: { ...(parsed.concurrency || {}) },
+                planningMode: parsed.planningMode === 'quick' ? 'quick' : DEFAULT_SETTINGS.planningMode,
+                autoRefine: { ...DEFAULT_SETTINGS.autoRefine, ...(parsed.autoRefine || {}) },
+                rubrics: Array.isArray(parsed.rubrics) ? parsed.rubrics : DEFAULT_SETTINGS.rubrics,
+                agents: normalizeAgentsForProvider(parsed.agents, provider, false, { endpoint, ollama })
             };
             return merged;
         } catch (error) {
@@ -155,6 +272,24 @@ class SettingsService {
         return this.load().apiKeys[resolvedProvider];
     }
 
+    /**
+     * Check whether a provider can be used: keyless providers always can, others need a saved key
+     * unless the key is optional and the user saved an empty key or set their own endpoint
+     */
+    isProviderConfigured(provider?: LLMProvider): boolean {
+        const resolvedProvider = provider ?? this.getProvider();
+        const config = LLM_PROVIDER_CONFIGS[resolvedProvider];
+        return !config.requiresApiKey
+            || Boolean(this.getApiKey(resolvedProvider))
+            || (config.apiKeyOptional === true && (this.getApiKey(resolvedProvider) === '' || this.hasCustomEndpoint()));
+    }
+
+    // The seeded default URL is only a suggestion, so it does not count as a configured endpoint
+    private hasCustomEndpoint(): boolean {
+        const baseUrl = this.getEndpoint().baseUrl.trim();
+        return baseUrl !== '' && baseUrl !== buildEndpointDefaults().baseUrl;
+    }
+
     /**
      * Get current LLM provider
      */
@@ -171,10 +306,121 @@ class SettingsService {
             return;
         }
         settings.provider = provider;
-        settings.agents = normalizeAgentsForProvider(settings.agents, provider, true);
+        settings.agents = normalizeAgentsForProvider(settings.agents, provider, true, settings);
+        this.save(settings);
+    }
+
+    /**
+     * Get the endpoint configuration of a self-hosted provider
+     */
+    getEndpoint(provider: EndpointProvider = 'litellm'): EndpointSettings {
+        return this.load()[ENDPOINT_SETTINGS_KEYS[provider]];
+    }
+
+    /**
+     * Save the endpoint configuration and move agents onto its models
+     */
+    saveEndpoint(endpoint: EndpointSettings, provider: EndpointProvider = 'litellm'): void {
+        const settings = this.load();
+        settings[ENDPOINT_SETTINGS_KEYS[provider]] = endpoint;
+        settings.agents = normalizeAgentsForProvider(settings.agents, settings.provider, false, settings);
         this.save(settings);
     }
 
+    /**
+     * Get the mock provider's record and replay options
+     */
+    getMockSettings(): MockSettings {
+        return this.load().mock;
+    }
+
+    /**
+     * Get the retry policy for a provider: its default with any saved overrides applied
+     */
+    getRetryPolicy(provider?: LLMProvider, settings: AppSettings = this.load()): RetryPolicy {
+        const resolvedProvider = provider ?? settings.provider;
+        return {
+            ...LLM_PROVIDER_CONFIGS[resolvedProvider].retryPolicy,
+            ...settings.retryPolicies[resolvedProvider]
+        };
+    }
+
+    /**
+     * Get the concurrency caps for a provider, falling back to its default cap
+     */
+    getConcurrency(provider?: LLMProvider, settings: AppSettings = this.load()): ConcurrencySettings {
+        const resolvedProvider = provider ?? settings.provider;
+        return {
+            maxInFlight: LLM_PROVIDER_CONFIGS[resolvedProvider].maxInFlight,
+            models: {},
+            ...settings.concurrency[resolvedProvider]
+        };
+    }
+
+    /**
+     * Get how many requests may run at once against a provider's model
+     */
+    getMaxInFlight(provider: LLMProvider, model: string): number {
+        const concurrency = this.getConcurrency(provider);
+        return Math.max(1, concurrency.models[model] ?? concurrency.maxInFlight);
+    }
+
+    /**
+     * Get how the planner reads the transcript
+     */
+    getPlanningMode(): PlanningMode {
+        return this.load().planningMode;
+    }
+
+    /**
+     * Get the auto-refine threshold and rewrite limit
+     */
+    getAutoRefine(): AutoRefineSettings {
+        return this.load().autoRefine;
+    }
+
+    /**
+     * Save the auto-refine threshold and rewrite limit
+     */
+    saveAutoRefine(autoRefine: AutoRefineSettings): void {
+        const settings = this.load();
+        settings.autoRefine = autoRefine;
+        this.save(settings);
+    }
+
+    /**
+     * Get the rubrics of the critic panel
+     */
+    getRubrics(): CriticRubric[] {
+        return this.load().rubrics;
+    }
+
+    /**
+     * Save the rubrics of the critic panel
+     */
+    saveRubrics(rubrics: CriticRubric[]): void {
+        const settings = this.load();
+        settings.rubrics = rubrics;
+        this.save(settings);
+    }
+
+    /**
+     * Get the model a rubric runs on, falling back to the critic's when it has none or the provider does not offer it
+     */
+    getRubricModel(rubric: CriticRubric, settings: AppSettings = this.load()): string {
+        const available = getModelsForProvider(settings.provider, settings);
+        return rubric.model && available.some(model => model.id === rubric.model)
+            ? rubric.model
+            : settings.agents.critic.model;
+    }
+
+    /**
+     * Get the models available for a provider, honouring the configured endpoint model lists
+     */
+    getAvailableModels(provider?: LLMProvider, settings: AppSettings = this.load()): LLMProviderModelOption[] {
+        return getModelsForProvider(provider ?? settings.provider, settings);
+    }
+
     /**
      * Get model for a specific agent
      */
@@ -213,7 +459,7 @@ class SettingsService {
     resetAgent(agent: AgentType): void {
         const settings = this.load();
         const provider = settings.provider;
-        const providerDefaults = buildAgentDefaults(provider);
+        const providerDefaults = buildAgentDefaults(provider, settings);
         settings.agents[agent] = {
             model: providerDefaults[agent].model,
             instructions: {}
@@ -226,7 +472,7 @@ class SettingsService {
      */
     resetAllAgents(): void {
         const settings = this.load();
-        settings.agents = buildAgentDefaults(settings.provider);
+        settings.agents = buildAgentDefaults(settings.provider, settings);
         this.save(settings);
     }
 
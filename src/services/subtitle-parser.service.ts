@@ -0,0 +1,158 @@
+import { transcriptParserService } from './transcript-parser.service';
+import { Transcript, Turn } from '../types';
+
+// Cue timing line shared by SRT ("00:00:01,000 --> 00:00:04,000") and WebVTT ("00:01.000 --> 00:04.000 align:start")
+const CUE_TIMING = /^\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// WebVTT voice span: <v Speaker Name> or <v.class Speaker Name>
+const VOICE_TAG = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+
+// Unlabelled cues further apart than this start a new turn
+const MAX_MERGE_GAP_SECONDS = 2;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&nbsp;': ' ',
+    '&quot;': '"',
+    '&#39;': "'",
+};
+
+interface Cue {
+    speaker: string;
+    startTime: number;
+    endTime: number;
+    text: string;
+}
+
+/**
+ * Service for parsing SRT and WebVTT subtitle files (Teams, Zoom) into speaker turns
+ */
+class SubtitleParserService {
+    /**
+     * Parse a subtitle file into a structured transcript
+     */
+    async parseSubtitleFile(file: File): Promise<Transcript> {
+        try {
+            const transcript = this.parseSubtitles(await file.text());
+            if (transcript.turns.length === 0) {
+                throw new Error('No subtitle cues found');
+            }
+            return transcript;
+        } catch (error) {
+            console.error('Error parsing subtitle file:', error);
+            throw new Error('Failed to parse subtitle file. Please ensure it is a valid .srt or .vtt file.');
+        }
+    }
+
+    /**
+     * Parse SRT or WebVTT text, merging consecutive cues from the same speaker into turns
+     */
+    parseSubtitles(raw: string): Transcript {
+        const cues = this.parseCues(raw);
+        const merged = this.mergeCues(cues);
+
+        // Render a readable transcript and record where each turn's text lands in it
+        let content = '';
+        const turns: Turn[] = merged.map((cue, index) => {
+            if (content) content += '\n\n';
+            content += `[${transcriptParserService.formatTimestamp(cue.startTime)}] `;
+            if (cue.speaker) content += `${cue.speaker}: `;
+            const startOffset = content.length;
+            content += cue.text;
+            return {
+                index,
+                speaker: cue.speaker,
+                startTime: cue.startTime,
+                endTime: cue.endTime,
+                text: cue.text,
+                startOffset,
+                endOffset: content.length,
+            };
+        });
+
+        return transcriptParserService.fromTurns(content, turns);
+    }
+
+    /**
+     * Check if a file is a subtitle file based on extension
+     */
+    isSubtitleFile(file: File): boolean {
+        const name = file.name.toLowerCase();
+        return name.endsWith('.vtt') || name.endsWith('.srt');
+    }
+
+    private parseCues(raw: string): Cue[] {
+        const blocks = raw.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+        const cues: Cue[] = [];
+
+        for (const block of blocks) {
+            const lines = block.split('\n');
+            // Cue identifiers and SRT sequence numbers precede the timing line; headers, NOTE and STYLE blocks have none
+            const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+            if (timingIndex < 0) continue;
+
+            const timing = lines[timingIndex].match(CUE_TIMING);
+            if (!timing) continue;
+
+            const cue = this.parseCueText(lines.slice(timingIndex + 1).join('\n'));
+            if (!cue.text) continue;
+
+            cues.push({
+                ...cue,
+                startTime: transcriptParserService.parseTimestamp(timing[1]),
+                endTime: transcriptParserService.parseTimestamp(timing[2]),
+            });
+        }
+
+        return cues;
+    }
+
+    // Extract the speaker from a voice tag or "Name:" prefix and strip markup from the cue text
+    private parseCueText(payload: string): { speaker: string; text: string } {
+        const voice = payload.match(VOICE_TAG);
+        let text = this.decodeEntities(
+            payload
+                .replace(/<\/?[^>]+>/g, '')
+                .replace(/\s+/g, ' ')
+                .trim()
+        );
+        let speaker = voice ? this.decodeEntities(voice[1].trim()) : '';
+
+        if (!speaker) {
+            const label = transcriptParserService.matchSpeakerLabel(text);
+            if (label) {
+                speaker = label.speaker;
+                text = label.rest.trim();
+            }
+        }
+
+        return { speaker, text };
+    }
+
+    private mergeCues(cues: Cue[]): Cue[] {
+        const merged: Cue[] = [];
+
+        for (const cue of cues) {
+            const previous = merged[merged.length - 1];
+            const sameSpeaker = previous && previous.speaker === cue.speaker;
+            const closeEnough = previous && (cue.speaker !== '' || cue.startTime - previous.endTime <= MAX_MERGE_GAP_SECONDS);
+
+            if (sameSpeaker && closeEnough) {
+                previous.text = `${previous.text} ${cue.text}`;
+                previous.endTime = Math.max(previous.endTime, cue.endTime);
+            } else {
+                merged.push({ ...cue });
+            }
+        }
+
+        return merged;
+    }
+
+    private decodeEntities(text: string): string {
+        return text.replace(/&(?:amp|lt|gt|nbsp|quot|#39);/g, entity => HTML_ENTITIES[entity]);
+    }
+}
+
+export const subtitleParserService = new SubtitleParserService();
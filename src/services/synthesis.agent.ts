@@ -0,0 +1,82 @@
+import { llmService, CompletionUsage } from './llm.service';
+import { agentLogger } from './agent-logger.service';
+import { settingsService } from './settings.service';
+import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
+import { FrameworkSegment } from '../types/phases';
+
+// One interview's analysis of a framework segment, labelled with the interview name
+export interface InterviewAnalysis {
+    name: string;
+    content: string;
+}
+
+export class SynthesisAgent {
+    /**
+     * Get the configured model for this agent
+     */
+    private getModel(): string {
+        return settingsService.getAgentModel('synthesis');
+    }
+
+    /**
+     * Compares one segment's analyses across interviews (streaming version)
+     */
+    async *synthesizeSegmentStream(
+        segment: FrameworkSegment,
+        analyses: InterviewAnalysis[],
+        signal?: AbortSignal,
+        onRestart?: () => void
+    ): AsyncGenerator<string> {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.synthesis.synthesizeSegment;
+        const systemPrompt = settingsService.getAgentInstruction('synthesis', 'synthesizeSegment') || defaultPrompt;
+
+        const analysisContent = analyses
+            .map(analysis => `### Interview: ${analysis.name}\n${analysis.content}`)
+            .join('\n\n');
+
+        const userPrompt = `Segment Title: ${segment.title}
+
+Objective: ${segment.objective}
+
+Analyses from ${analyses.length} interviews:
+
+${analysisContent}
+
+Compare these analyses. Highlight themes that recur across participants and where they diverge, naming the interviews behind each finding.`;
+
+        const model = this.getModel();
+        const startTime = Date.now();
+        const logId = agentLogger.logRequest(
+            'Synthesis Agent',
+            'synthesis',
+            systemPrompt,
+            userPrompt,
+            model,
+            segment.id
+        );
+
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
+        try {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
+                fullResponse += chunk;
+                yield chunk;
+            }
+            const duration = Date.now() - startTime;
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
+        } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Synthesis Agent', 'synthesis', error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
+}
+
+export const synthesisAgent = new SynthesisAgent();
@@ -0,0 +1,175 @@
+// Token estimator for sizing prompts against model context windows before they are sent
+
+import { countTokens as countCl100k } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200k } from 'gpt-tokenizer/encoding/o200k_base';
+import { LLM_PROVIDER_CONFIGS, LLMProvider } from '../constants/llm-providers';
+import { settingsService } from './settings.service';
+
+// BPE encodings of the OpenAI model families, matched on the model id without a gateway prefix such as "azure/"
+const ENCODINGS: Array<{ models: RegExp; count: (text: string) => number }> = [
+    { models: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/, count: text => countO200k(text, { disallowedSpecial: new Set() }) },
+    { models: /^(gpt-4|gpt-3\.5)/, count: text => countCl100k(text, { disallowedSpecial: new Set() }) },
+];
+
+// Fallback for models whose tokenizer is not available in the browser: the pre-tokenizer split used by GPT-4 class BPE tokenizers: contractions, words, up to three digits, punctuation runs, whitespace
+const PRE_TOKENIZER = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+/giu;
+
+// Scripts without spaces between words come out at roughly one token per character
+const IDEOGRAPHIC = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+const NON_ASCII = /[^\x00-\x7f]/;
+
+// Common English words up to this length are usually a single vocabulary entry
+const SINGLE_TOKEN_WORD_LENGTH = 7;
+const CHARS_PER_WORD_TOKEN = 4;
+const CHARS_PER_ACCENTED_WORD_TOKEN = 3; // Finnish, German etc. split into shorter pieces
+const CHARS_PER_SYMBOL_TOKEN = 2;
+
+// Chat formatting adds a few tokens per message and to prime the reply
+const TOKENS_PER_MESSAGE = 4;
+const TOKENS_PER_REPLY = 3;
+
+// Room kept free for the model's answer; a 400-word analysis is roughly 550 tokens
+const RESPONSE_RESERVE_TOKENS = 1024;
+
+// Smallest transcript chunk worth sending; below this the rest of the prompt leaves no useful room
+const MIN_CHUNK_TOKENS = 1024;
+
+// Share of the window above which a prompt is flagged as close to the limit
+const WARN_RATIO = 0.8;
+
+// Share of the window kept unused when the fallback heuristic counts, because it can undercount the model's tokenizer
+const ESTIMATE_MARGIN = 0.15;
+
+export type PromptFitStatus = 'ok' | 'warn' | 'over';
+
+// How an estimated prompt compares with a model's context window
+export interface PromptFit {
+    tokens: number;
+    contextWindow: number;
+    status: PromptFitStatus;
+}
+
+/**
+ * Token counts from the model's own BPE tokenizer for OpenAI models. Other models (Gemini, Ollama models, unknown
+ * endpoint models) fall back to a heuristic modelled on GPT-4 style pre-tokenization, whose error against their real
+ * tokenizers is not measured, so their comparisons with a context window keep a safety margin.
+ */
+class TokenEstimatorService {
+    /**
+     * Count the tokens in a piece of text with the model's tokenizer, or estimate them without one
+     */
+    estimate(text: string, model?: string): number {
+        const encoding = this.getEncoding(model);
+        if (encoding) {
+            return encoding.count(text);
+        }
+        let tokens = 0;
+        for (const [piece] of text.matchAll(PRE_TOKENIZER)) {
+            tokens += this.estimatePiece(piece);
+        }
+        return tokens;
+    }
+
+    /**
+     * Count the prompt tokens of a system and user message pair
+     */
+    estimateChat(systemPrompt: string, userPrompt: string, model?: string): number {
+        return this.estimate(systemPrompt, model) + this.estimate(userPrompt, model) + 2 * TOKENS_PER_MESSAGE + TOKENS_PER_REPLY;
+    }
+
+    /**
+     * Whether the model's own tokenizer is used, rather than the heuristic
+     */
+    hasTokenizer(model: string): boolean {
+        return this.getEncoding(model) !== undefined;
+    }
+
+    /**
+     * Get a model's context window, falling back to the provider default for unlisted models
+     */
+    getContextWindow(provider: LLMProvider, model: string): number {
+        const config = LLM_PROVIDER_CONFIGS[provider];
+        return config.contextWindows[model] ?? config.defaultContextWindow;
+    }
+
+    /**
+     * Whether the provider lists the model's context window, rather than the default being assumed
+     */
+    isKnownContextWindow(provider: LLMProvider, model: string): boolean {
+        return model in LLM_PROVIDER_CONFIGS[provider].contextWindows;
+    }
+
+    /**
+     * Compare a prompt of the given size, plus room for the reply, with the usable part of a model's context window
+     */
+    checkFit(tokens: number, provider: LLMProvider, model: string): PromptFit {
+        const contextWindow = this.getContextWindow(provider, model);
+        const usable = this.getUsableWindow(contextWindow, model);
+        const needed = tokens + RESPONSE_RESERVE_TOKENS;
+        const status: PromptFitStatus = needed > usable
+            ? 'over'
+            : needed > usable * WARN_RATIO ? 'warn' : 'ok';
+        return { tokens, contextWindow, status };
+    }
+
+    /**
+     * Tokens of further text that fit into a prompt next to the given one, leaving room for the reply and the margin
+     */
+    getPromptBudget(systemPrompt: string, userPrompt: string, provider: LLMProvider, model: string): number {
+        const usable = this.getUsableWindow(this.getContextWindow(provider, model), model);
+        return usable - RESPONSE_RESERVE_TOKENS - this.estimateChat(systemPrompt, userPrompt, model);
+    }
+
+    /**
+     * Tokens of transcript per chunk for a prompt built without its transcript, on the selected provider.
+     * Throws when the rest of the prompt leaves too little room in the model's context window to chunk at all.
+     */
+    getChunkBudget(systemPrompt: string, userPrompt: string, model: string): number {
+        const provider = settingsService.getProvider();
+        const budget = this.getPromptBudget(systemPrompt, userPrompt, provider, model);
+        if (budget < MIN_CHUNK_TOKENS) {
+            const instructions = this.estimateChat(systemPrompt, userPrompt, model);
+            throw new Error(`The instructions alone take about ${instructions} tokens of ${model}'s ${this.getContextWindow(provider, model)}-token context window, leaving too little room for the transcript. Shorten the agent instructions or choose a model with a larger context window.`);
+        }
+        return budget;
+    }
+
+    /**
+     * Estimate a system and user prompt and check it against a model's context window
+     */
+    checkPrompt(systemPrompt: string, userPrompt: string, provider: LLMProvider, model: string): PromptFit {
+        return this.checkFit(this.estimateChat(systemPrompt, userPrompt, model), provider, model);
+    }
+
+    private getEncoding(model?: string): (typeof ENCODINGS)[number] | undefined {
+        if (!model) return undefined;
+        const id = model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+        return ENCODINGS.find(encoding => encoding.models.test(id));
+    }
+
+    private getUsableWindow(contextWindow: number, model: string): number {
+        return this.hasTokenizer(model) ? contextWindow : Math.floor(contextWindow * (1 - ESTIMATE_MARGIN));
+    }
+
+    private estimatePiece(piece: string): number {
+        const word = piece.trimStart();
+        if (word.length === 0) {
+            return 1; // A run of whitespace
+        }
+        if (/^\p{N}+$/u.test(word)) {
+            return 1; // The pre-tokenizer already splits numbers into groups of three
+        }
+        if (/^\p{L}+$/u.test(word)) {
+            if (IDEOGRAPHIC.test(word)) {
+                return word.length;
+            }
+            if (NON_ASCII.test(word)) {
+                return Math.max(1, Math.ceil(word.length / CHARS_PER_ACCENTED_WORD_TOKEN));
+            }
+            return word.length <= SINGLE_TOKEN_WORD_LENGTH ? 1 : Math.ceil(word.length / CHARS_PER_WORD_TOKEN);
+        }
+        return Math.ceil(word.length / CHARS_PER_SYMBOL_TOKEN);
+    }
+}
+
+export const tokenEstimatorService = new TokenEstimatorService();
@@ -0,0 +1,281 @@
+import { Transcript, Turn } from '../types';
+import { tokenEstimatorService } from './token-estimator.service';
+
+const TIMESTAMP = '(?:\\d{1,2}:)?\\d{1,2}:\\d{2}(?:[.,]\\d{1,3})?';
+
+// Leading "[00:00:12]", "(00:12)" or "00:00:12 -" before a turn
+const TIMESTAMP_PREFIX = new RegExp(`^\\s*(?:\\[(${TIMESTAMP})\\]|\\((${TIMESTAMP})\\)|(${TIMESTAMP}))\\s*(?:[-–]\\s*)?`);
+
+// Speaker labels such as "Interviewee:", "**Interviewee:**" or "**Jane Doe**:"
+const SPEAKER_LABEL = /^\s*(?:\*\*|__)?([\p{L}][\p{L}\p{N} .'’()-]{0,40}?)(?:\*\*|__)?\s*:(?:\*\*|__)?(?=\s|$)/u;
+
+const MAX_SPEAKER_WORDS = 4;
+const MIN_LABELLED_TURNS = 2;
+
+// Turns repeated at the start of the next chunk so an exchange split across chunks keeps its context
+const CHUNK_OVERLAP_TURNS = 2;
+const TURN_SEPARATOR_TOKENS = 1;
+
+// Sentences with their trailing punctuation, closing quotes and whitespace; a final sentence may lack punctuation
+const SENTENCE = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)\s*|[.!?…]+\s*/g;
+const WORD = /\S+\s*/g;
+
+interface DraftTurn {
+    speaker: string;
+    startTime?: number;
+    startOffset: number; // -1 until the first piece of text is seen
+    endOffset: number;
+}
+
+/**
+ * Service for turning raw transcript text into speaker turns with timestamps and character offsets
+ */
+class TranscriptParserService {
+    /**
+     * Parse raw transcript text into a structured transcript
+     */
+    parse(content: string): Transcript {
+        return this.fromTurns(content, this.parseTurns(content));
+    }
+
+    /**
+     * Build a transcript from turns produced by a format-specific parser
+     */
+    fromTurns(content: string, turns: Turn[]): Transcript {
+        return {
+            id: crypto.randomUUID(),
+            content,
+            turns,
+            speakers: Array.from(new Set(turns.map(turn => turn.speaker).filter(speaker => speaker.length > 0))),
+            uploadedAt: new Date(),
+            processedAt: new Date(),
+        };
+    }
+
+    /**
+     * Split text into turns, falling back to paragraphs when no speaker labels are found
+     */
+    parseTurns(content: string): Turn[] {
+        const labelled = this.parseLabelledTurns(content);
+        return labelled.length >= MIN_LABELLED_TURNS ? labelled : this.parseParagraphs(content);
+    }
+
+    /**
+     * Render a transcript as speaker-labelled, addressable text for agent prompts
+     */
+    toPromptText(transcript: Transcript): string {
+        return transcript.turns.map(turn => this.formatTurn(turn)).join('\n\n');
+    }
+
+    /**
+     * Split a transcript on turn boundaries into parts of at most maxTokens prompt tokens, counted for the given model.
+     * Each part starts with the last turns of the one before. A turn longer than maxTokens is split at sentence
+     * boundaries into pieces that keep its index, so the overlap and citations work across the pieces too.
+     */
+    chunk(transcript: Transcript, maxTokens: number, model?: string, overlapTurns: number = CHUNK_OVERLAP_TURNS): Transcript[] {
+        const chunks: Turn[][] = [];
+        let current: Array<{ turn: Turn; tokens: number }> = [];
+        let currentTokens = 0;
+        let hasNewTurns = false;
+
+        // Pieces of a split turn take half a part when parts overlap, so the previous piece still fits before the next
+        const pieceTokens = overlapTurns > 0 ? Math.floor(maxTokens / 2) : maxTokens;
+        for (const { turn, tokens } of transcript.turns.flatMap(turn => this.splitTurn(turn, maxTokens, pieceTokens, model))) {
+            if (hasNewTurns && currentTokens + tokens > maxTokens) {
+                chunks.push(current.map(entry => entry.turn));
+                current = overlapTurns > 0 ? current.slice(-overlapTurns) : [];
+                currentTokens = current.reduce((sum, entry) => sum + entry.tokens, 0);
+                while (current.length > 0 && currentTokens + tokens > maxTokens) {
+                    currentTokens -= current.shift()!.tokens;
+                }
+                hasNewTurns = false;
+            }
+            current.push({ turn, tokens });
+            currentTokens += tokens;
+            hasNewTurns = true;
+        }
+        if (hasNewTurns) {
+            chunks.push(current.map(entry => entry.turn));
+        }
+
+        // Turns keep their transcript-wide index, so citations like [T12] stay valid in every chunk
+        return chunks.map(turns => ({ ...transcript, turns }));
+    }
+
+    /**
+     * Render a single turn as "[T3 | 00:01:05] Speaker: text"
+     */
+    formatTurn(turn: Turn): string {
+        const address = turn.startTime !== undefined
+            ? `${this.getTurnLabel(turn)} | ${this.formatTimestamp(turn.startTime)}`
+            : this.getTurnLabel(turn);
+        const speaker = turn.speaker ? `${turn.speaker}: ` : '';
+        return `[${address}] ${speaker}${turn.text.replace(/\s+/g, ' ').trim()}`;
+    }
+
+    /**
+     * Get the short reference used to cite a turn, e.g. "T12"
+     */
+    getTurnLabel(turn: Turn): string {
+        return `T${turn.index + 1}`;
+    }
+
+    /**
+     * Split a leading speaker label such as "**Interviewee:**" from the rest of a line
+     */
+    matchSpeakerLabel(line: string): { speaker: string; rest: string } | null {
+        const match = line.match(SPEAKER_LABEL);
+        if (!match) return null;
+
+        const speaker = match[1].trim();
+        if (speaker.split(/\s+/).length > MAX_SPEAKER_WORDS) return null;
+
+        return { speaker, rest: line.slice(match[0].length) };
+    }
+
+    /**
+     * Parse "HH:MM:SS", "MM:SS" or "HH:MM:SS,mmm" into seconds
+     */
+    parseTimestamp(value: string): number {
+        const [clock, fraction] = value.trim().split(/[.,]/);
+        const seconds = clock.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+        return fraction ? seconds + parseInt(fraction, 10) / Math.pow(10, fraction.length) : seconds;
+    }
+
+    /**
+     * Format seconds as HH:MM:SS
+     */
+    formatTimestamp(seconds: number): string {
+        const whole = Math.floor(seconds);
+        const hours = Math.floor(whole / 3600);
+        const minutes = Math.floor((whole % 3600) / 60);
+        const secs = whole % 60;
+        return [hours, minutes, secs].map(part => part.toString().padStart(2, '0')).join(':');
+    }
+
+    // A turn over maxTokens becomes pieces of about pieceTokens each, with their prompt tokens;
+    // sentences too long on their own split at words
+    private splitTurn(turn: Turn, maxTokens: number, pieceTokens: number, model?: string): Array<{ turn: Turn; tokens: number }> {
+        const tokens = tokenEstimatorService.estimate(this.formatTurn(turn), model) + TURN_SEPARATOR_TOKENS;
+        if (tokens <= maxTokens) {
+            return [{ turn, tokens }];
+        }
+
+        const overhead = tokenEstimatorService.estimate(this.formatTurn({ ...turn, text: '' }), model) + TURN_SEPARATOR_TOKENS;
+        const budget = Math.max(1, pieceTokens - overhead);
+        const units = this.matchUnits(turn.text, 0, SENTENCE, model).flatMap(sentence => sentence.tokens > budget
+            ? this.matchUnits(sentence.text, sentence.start, WORD, model)
+            : [sentence]);
+
+        // Pieces carry offsets into the transcript content; turns whose text is not verbatim content are clamped to their span
+        const toPiece = (start: number, end: number) => {
+            const raw = turn.text.slice(start, end);
+            const text = raw.trim();
+            const leading = raw.length - raw.trimStart().length;
+            const piece: Turn = {
+                ...turn,
+                text,
+                startOffset: Math.min(turn.startOffset + start + leading, turn.endOffset),
+                endOffset: Math.min(turn.startOffset + start + leading + text.length, turn.endOffset),
+            };
+            return { turn: piece, tokens: tokenEstimatorService.estimate(this.formatTurn(piece), model) + TURN_SEPARATOR_TOKENS };
+        };
+
+        const pieces: Array<{ turn: Turn; tokens: number }> = [];
+        let pieceStart = 0;
+        let used = 0;
+        units.forEach(unit => {
+            if (used > 0 && used + unit.tokens > budget) {
+                pieces.push(toPiece(pieceStart, unit.start));
+                pieceStart = unit.start;
+                used = 0;
+            }
+            used += unit.tokens;
+        });
+        pieces.push(toPiece(pieceStart, turn.text.length));
+        return pieces.filter(piece => piece.turn.text.length > 0);
+    }
+
+    private matchUnits(text: string, offset: number, pattern: RegExp, model?: string): Array<{ text: string; start: number; tokens: number }> {
+        return Array.from(text.matchAll(pattern))
+            .filter(match => match[0].length > 0)
+            .map(match => ({ text: match[0], start: offset + match.index!, tokens: tokenEstimatorService.estimate(match[0], model) }));
+    }
+
+    private parseLabelledTurns(content: string): Turn[] {
+        const drafts: DraftTurn[] = [];
+        let current: DraftTurn | null = null;
+        let lineStart = 0;
+
+        for (const line of content.split('\n')) {
+            const start = lineStart;
+            lineStart += line.length + 1;
+
+            if (!line.trim()) continue;
+
+            const timestampMatch = line.match(TIMESTAMP_PREFIX);
+            const afterTimestamp = timestampMatch ? line.slice(timestampMatch[0].length) : line;
+            const label = this.matchSpeakerLabel(afterTimestamp);
+
+            if (timestampMatch || label) {
+                // A new turn starts at every speaker label or leading timestamp
+                const timestamp = timestampMatch?.[1] ?? timestampMatch?.[2] ?? timestampMatch?.[3];
+                const rest = label ? label.rest : afterTimestamp;
+                current = {
+                    speaker: label ? label.speaker : '',
+                    startTime: timestamp ? this.parseTimestamp(timestamp) : undefined,
+                    startOffset: -1,
+                    endOffset: -1,
+                };
+                drafts.push(current);
+                this.extendDraft(current, start + line.length - rest.length, rest);
+            } else if (current) {
+                this.extendDraft(current, start, line);
+            }
+        }
+
+        return drafts
+            .filter(draft => draft.startOffset >= 0)
+            .map((draft, index) => ({
+                index,
+                speaker: draft.speaker,
+                startTime: draft.startTime,
+                text: content.slice(draft.startOffset, draft.endOffset),
+                startOffset: draft.startOffset,
+                endOffset: draft.endOffset,
+            }));
+    }
+
+    private parseParagraphs(content: string): Turn[] {
+        const turns: Turn[] = [];
+        const paragraphPattern = /\S[\s\S]*?(?=\n\s*\n|\s*$)/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = paragraphPattern.exec(content)) !== null) {
+            const text = match[0].trimEnd();
+            turns.push({
+                index: turns.length,
+                speaker: '',
+                text,
+                startOffset: match.index,
+                endOffset: match.index + text.length,
+            });
+        }
+
+        return turns;
+    }
+
+    // Grow a draft turn to cover the trimmed text found at the given offset
+    private extendDraft(draft: DraftTurn, offset: number, text: string): void {
+        const trimmed = text.trim();
+        if (!trimmed) return;
+
+        const textStart = offset + (text.length - text.trimStart().length);
+        if (draft.startOffset < 0) {
+            draft.startOffset = textStart;
+        }
+        draft.endOffset = textStart + trimmed.length;
+    }
+}
+
+export const transcriptParserService = new TranscriptParserService();
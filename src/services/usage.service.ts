@@ -0,0 +1,113 @@
+// Usage service for turning agent responses into token usage records and cost estimates
+
+import { LLM_PROVIDER_CONFIGS, ModelPrice } from '../constants/llm-providers';
+import { AgentLog } from '../types/logging';
+import { Phase } from '../types/phases';
+import { UsageRecord, UsageTotals } from '../types/usage';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+class UsageService {
+    /**
+     * Build a usage record from a response log, or undefined if it reported no tokens.
+     * Usage is billed to the phase the request was made in, falling back to the given phase for logs without one
+     */
+    toRecord(log: AgentLog, fallbackPhase: Phase): UsageRecord | undefined {
+        if (log.action !== 'response' || !log.tokens) {
+            return undefined;
+        }
+        return {
+            logId: log.id,
+            timestamp: log.timestamp,
+            phase: log.phase ?? fallbackPhase,
+            agentName: log.agentName,
+            agentRole: log.agentRole,
+            provider: log.provider,
+            model: log.model,
+            segmentId: log.segmentId,
+            tokens: log.tokens,
+        };
+    }
+
+    /**
+     * Look up the list price of a model, falling back to the provider's default price
+     */
+    getPrice(record: Pick<UsageRecord, 'provider' | 'model'>): ModelPrice | undefined {
+        if (!record.provider) return undefined;
+        const config = LLM_PROVIDER_CONFIGS[record.provider];
+        return (record.model ? config.prices[record.model] : undefined) ?? config.defaultPrice;
+    }
+
+    /**
+     * Estimate the cost of a record in USD, or undefined when its model has no known price
+     */
+    estimateCost(record: UsageRecord): number | undefined {
+        const price = this.getPrice(record);
+        if (!price) return undefined;
+        return (record.tokens.prompt * price.input + record.tokens.completion * price.output) / TOKENS_PER_PRICE_UNIT;
+    }
+
+    /**
+     * Sum tokens and estimated cost over a set of records
+     */
+    getTotals(records: UsageRecord[]): UsageTotals {
+        return records.reduce<UsageTotals>((totals, record) => {
+            const cost = this.estimateCost(record);
+            return {
+                requests: totals.requests + 1,
+                prompt: totals.prompt + record.tokens.prompt,
+                completion: totals.completion + record.tokens.completion,
+                total: totals.total + record.tokens.total,
+                cost: totals.cost + (cost ?? 0),
+                unpriced: totals.unpriced + (cost === undefined ? 1 : 0),
+            };
+        }, { requests: 0, prompt: 0, completion: 0, total: 0, cost: 0, unpriced: 0 });
+    }
+
+    /**
+     * Group records by a key and total each group, most expensive first
+     */
+    groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Array<{ key: string; totals: UsageTotals }> {
+        const groups = new Map<string, UsageRecord[]>();
+        records.forEach(record => {
+            const groupKey = key(record);
+            groups.set(groupKey, [...(groups.get(groupKey) ?? []), record]);
+        });
+        return Array.from(groups.entries())
+            .map(([groupKey, group]) => ({ key: groupKey, totals: this.getTotals(group) }))
+            .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.total - a.totals.total);
+    }
+
+    /**
+     * Export records as CSV for spend reports, one row per agent response
+     */
+    toCsv(records: UsageRecord[], segmentLabel: (segmentId: string) => string = id => id): string {
+        const escape = (value: string | number | undefined): string => {
+            const text = value === undefined ? '' : String(value);
+            return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        const header = ['timestamp', 'phase', 'agent', 'provider', 'model', 'segment', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'estimated_cost_usd'];
+        const rows = records.map(record => [
+            record.timestamp.toISOString(),
+            record.phase,
+            record.agentName,
+            record.provider,
+            record.model,
+            record.segmentId ? segmentLabel(record.segmentId) : undefined,
+            record.tokens.prompt,
+            record.tokens.completion,
+            record.tokens.total,
+            this.estimateCost(record)?.toFixed(6),
+        ].map(escape).join(','));
+        return [header.join(','), ...rows].join('\n');
+    }
+
+    /**
+     * Format a USD amount, keeping sub-cent precision for small analyses
+     */
+    formatCost(cost: number): string {
+        return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+    }
+}
+
+export const usageService = new UsageService();
@@ -1,8 +1,15 @@
-import { llmService } from './llm.service';
+import { llmService, CompletionUsage } from './llm.service';
+import { transcriptParserService } from './transcript-parser.service';
 import { agentLogger } from './agent-logger.service';
 import { settingsService } from './settings.service';
+import { agentOrchestrator, JobOptions } from './agent.orchestrator';
+import { tokenEstimatorService } from './token-estimator.service';
 import { DEFAULT_INSTRUCTIONS } from '../constants/default-instructions';
 import { SegmentAnalysis } from '../types/phases';
+import { Transcript } from '../types';
+
+// The reply extractEvidence asks for when a chunk has nothing on the segment
+const NO_EVIDENCE = /^no relevant evidence\.?$/i;
 
 export class WriterAgent {
     /**
@@ -13,18 +20,35 @@ export class WriterAgent {
     }
 
     /**
-     * Analyzes a single segment of the transcript
+     * Build the prompts for analyzing a segment, also used to size them before launching.
+     * With evidence from gatherEvidence the prompt carries that evidence instead of the transcript.
      */
-    async analyzeSegment(
-        segmentId: string,
+    buildAnalyzeSegmentPrompt(
         segmentTitle: string,
         segmentObjective: string,
         segmentGuidance: string,
-        transcript: string
-    ): Promise<SegmentAnalysis> {
+        transcript: Transcript,
+        evidence?: string
+    ): { systemPrompt: string; userPrompt: string } {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.writer.analyzeSegment;
         const systemPrompt = settingsService.getAgentInstruction('writer', 'analyzeSegment') || defaultPrompt;
 
+        if (evidence !== undefined) {
+            const userPrompt = `Segment Title: ${segmentTitle}
+
+Objective: ${segmentObjective}
+
+Guidance: ${segmentGuidance}
+
+The transcript was too long to read at once. Evidence gathered from it part by part (parts overlap, so the same turn may appear twice):
+
+${evidence || 'No relevant evidence was found in any part of the transcript.'}
+
+Write your analysis for this segment, using only this evidence as your source. Keep the turn citations, e.g. [T12].`;
+
+            return { systemPrompt, userPrompt };
+        }
+
         const userPrompt = `Segment Title: ${segmentTitle}
 
 Objective: ${segmentObjective}
@@ -32,9 +56,27 @@ Objective: ${segmentObjective}
 Guidance: ${segmentGuidance}
 
 Transcript:
-${transcript}
+${transcriptParserService.toPromptText(transcript)}
 
-Write your analysis for this segment, using only the transcript as your source.`;
+Write your analysis for this segment, using only the transcript as your source. Cite supporting turns by their label, e.g. [T12].`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    /**
+     * Analyzes a single segment of the transcript.
+     * In chunked mode, pass the evidence from gatherEvidence to reduce it into the analysis.
+     */
+    async analyzeSegment(
+        segmentId: string,
+        segmentTitle: string,
+        segmentObjective: string,
+        segmentGuidance: string,
+        transcript: Transcript,
+        signal?: AbortSignal,
+        evidence?: string
+    ): Promise<SegmentAnalysis> {
+        const { systemPrompt, userPrompt } = this.buildAnalyzeSegmentPrompt(segmentTitle, segmentObjective, segmentGuidance, transcript, evidence);
 
         const model = this.getModel();
         const startTime = Date.now();
@@ -43,11 +85,12 @@ Write your analysis for this segment, using only the transcript as your source.`
             'writer',
             systemPrompt,
             userPrompt,
-            model
+            model,
+            segmentId
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -62,6 +105,10 @@ Write your analysis for this segment, using only the transcript as your source.`
                 generatedAt: new Date(),
             };
         } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+                throw error;
+            }
             agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
             return {
                 segmentId,
@@ -72,17 +119,37 @@ Write your analysis for this segment, using only the transcript as your source.`
     }
 
     /**
-     * Rewrites a segment based on critic feedback
+     * Build the prompts for rewriting a segment, also used to size them before launching.
+     * With evidence from gatherEvidence the prompt carries that evidence instead of the transcript.
      */
-    async rewriteSegment(
+    buildRewriteSegmentPrompt(
         originalContent: string,
         criticFeedback: string,
         segmentObjective: string,
-        transcript: string
-    ): Promise<string> {
+        transcript: Transcript,
+        evidence?: string
+    ): { systemPrompt: string; userPrompt: string } {
         const defaultPrompt = DEFAULT_INSTRUCTIONS.writer.rewriteSegment;
         const systemPrompt = settingsService.getAgentInstruction('writer', 'rewriteSegment') || defaultPrompt;
 
+        if (evidence !== undefined) {
+            const userPrompt = `Original Content:
+${originalContent}
+
+Critic Feedback:
+${criticFeedback}
+
+Objective: ${segmentObjective}
+
+The transcript was too long to read at once. Evidence gathered from it part by part (parts overlap, so the same turn may appear twice):
+
+${evidence || 'No relevant evidence was found in any part of the transcript.'}
+
+Rewrite the content addressing all feedback points, using only this evidence as your source. Keep the turn citations, e.g. [T12].`;
+
+            return { systemPrompt, userPrompt };
+        }
+
         const userPrompt = `Original Content:
 ${originalContent}
 
@@ -92,10 +159,28 @@ ${criticFeedback}
 Objective: ${segmentObjective}
 
 Transcript:
-${transcript}
+${transcriptParserService.toPromptText(transcript)}
 
 Rewrite the content addressing all feedback points.`;
 
+        return { systemPrompt, userPrompt };
+    }
+
+    /**
+     * Rewrites a segment based on critic feedback.
+     * In chunked mode, pass the evidence from gatherEvidence to rewrite from it instead of the full transcript.
+     */
+    async rewriteSegment(
+        segmentId: string,
+        originalContent: string,
+        criticFeedback: string,
+        segmentObjective: string,
+        transcript: Transcript,
+        signal?: AbortSignal,
+        evidence?: string
+    ): Promise<string> {
+        const { systemPrompt, userPrompt } = this.buildRewriteSegmentPrompt(originalContent, criticFeedback, segmentObjective, transcript, evidence);
+
         const model = this.getModel();
         const startTime = Date.now();
         const logId = agentLogger.logRequest(
@@ -103,11 +188,12 @@ Rewrite the content addressing all feedback points.`;
             'writer',
             systemPrompt,
             userPrompt,
-            model
+            model,
+            segmentId
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -116,34 +202,30 @@ Rewrite the content addressing all feedback points.`;
             } : undefined);
             return result.content.trim();
         } catch (error) {
-            agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
     /**
-     * Analyzes a single segment of the transcript (streaming version)
+     * Analyzes a single segment of the transcript (streaming version).
+     * In chunked mode, pass the evidence from gatherEvidence to reduce it into the analysis.
      */
     async *analyzeSegmentStream(
-        _segmentId: string,
+        segmentId: string,
         segmentTitle: string,
         segmentObjective: string,
         segmentGuidance: string,
-        transcript: string
+        transcript: Transcript,
+        signal?: AbortSignal,
+        evidence?: string,
+        onRestart?: () => void
     ): AsyncGenerator<string> {
-        const defaultPrompt = DEFAULT_INSTRUCTIONS.writer.analyzeSegment;
-        const systemPrompt = settingsService.getAgentInstruction('writer', 'analyzeSegment') || defaultPrompt;
-
-        const userPrompt = `Segment Title: ${segmentTitle}
-
-Objective: ${segmentObjective}
-
-Guidance: ${segmentGuidance}
-
-Transcript:
-${transcript}
-
-Write your analysis for this segment, using only the transcript as your source.`;
+        const { systemPrompt, userPrompt } = this.buildAnalyzeSegmentPrompt(segmentTitle, segmentObjective, segmentGuidance, transcript, evidence);
 
         const model = this.getModel();
         const startTime = Date.now();
@@ -152,27 +234,103 @@ Write your analysis for this segment, using only the transcript as your source.`
             'writer',
             systemPrompt,
             userPrompt,
-            model
+            model,
+            segmentId
         );
 
+        let fullResponse = '';
+        let usage: CompletionUsage | undefined;
         try {
-            let fullResponse = '';
-            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model)) {
+            for await (const chunk of llmService.generateCompletionStream(systemPrompt, userPrompt, model, { signal, logId, onUsage: (reported) => { usage = reported; }, onRestart: () => { fullResponse = ''; onRestart?.(); } })) {
                 fullResponse += chunk;
                 yield chunk;
             }
             const duration = Date.now() - startTime;
-            agentLogger.logResponse(logId, fullResponse, duration);
+            agentLogger.logResponse(logId, fullResponse, duration, usage ? {
+                prompt: usage.prompt_tokens,
+                completion: usage.completion_tokens,
+                total: usage.total_tokens
+            } : undefined);
         } catch (error) {
-            agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime, fullResponse);
+            } else {
+                agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
+            }
             throw error;
         }
     }
 
+    /**
+     * Whether the full-transcript prompt for a segment is too large for the writer model's context window
+     */
+    needsChunking(
+        segmentTitle: string,
+        segmentObjective: string,
+        segmentGuidance: string,
+        transcript: Transcript
+    ): boolean {
+        const { systemPrompt, userPrompt } = this.buildAnalyzeSegmentPrompt(segmentTitle, segmentObjective, segmentGuidance, transcript);
+        return tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, settingsService.getProvider(), this.getModel()).status === 'over';
+    }
+
+    /**
+     * Whether the full-transcript prompt for rewriting a segment is too large for the writer model's context window
+     */
+    needsRewriteChunking(
+        originalContent: string,
+        criticFeedback: string,
+        segmentObjective: string,
+        transcript: Transcript
+    ): boolean {
+        const { systemPrompt, userPrompt } = this.buildRewriteSegmentPrompt(originalContent, criticFeedback, segmentObjective, transcript);
+        return tokenEstimatorService.checkPrompt(systemPrompt, userPrompt, settingsService.getProvider(), this.getModel()).status === 'over';
+    }
+
+    /**
+     * Map step of chunked mode: splits the transcript on turn boundaries and gathers segment evidence from every chunk in parallel.
+     * Queues one job per chunk itself, so call it before queueing the writer rather than from inside a queued job.
+     */
+    async gatherEvidence(
+        segmentId: string,
+        segmentTitle: string,
+        segmentObjective: string,
+        segmentGuidance: string,
+        transcript: Transcript,
+        job: JobOptions,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const model = this.getModel();
+        const empty = this.buildExtractEvidencePrompt(segmentTitle, segmentObjective, segmentGuidance, '', 1, 1);
+        const chunks = transcriptParserService.chunk(transcript, tokenEstimatorService.getChunkBudget(empty.systemPrompt, empty.userPrompt, model), model);
+
+        const settled = await agentOrchestrator.runParallelAgents(chunks.map((chunk, index) => ({
+            id: `${job.id}:part${index + 1}`,
+            name: `${job.name} (part ${index + 1}/${chunks.length})`,
+            model,
+            priority: job.priority,
+            group: job.group,
+            signal,
+            task: () => this.extractEvidence(segmentId, segmentTitle, segmentObjective, segmentGuidance, chunk, index, chunks.length, signal),
+        })));
+
+        const failed = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+
+        return settled
+            .flatMap((result, index) => {
+                const found = result.status === 'fulfilled' ? result.value : '';
+                return found && !NO_EVIDENCE.test(found) ? [`### Part ${index + 1} of ${chunks.length}\n${found}`] : [];
+            })
+            .join('\n\n');
+    }
+
     /**
      * Generates a short 1-sentence summary of an analysis component
      */
-    async generateSummary(content: string): Promise<string> {
+    async generateSummary(content: string, signal?: AbortSignal): Promise<string> {
         const systemPrompt = "You are a concise technical writer. Summarize the following analysis in exactly one sentence.";
         const userPrompt = `Analysis Content:\n${content}\n\nOne sentence summary:`;
 
@@ -187,7 +345,7 @@ Write your analysis for this segment, using only the transcript as your source.`
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -196,6 +354,10 @@ Write your analysis for this segment, using only the transcript as your source.`
             } : undefined);
             return result.content.trim();
         } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+                throw error;
+            }
             agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
             return "Summary generation failed.";
         }
@@ -204,7 +366,7 @@ Write your analysis for this segment, using only the transcript as your source.`
     /**
      * Generates 10 keywords for the analysis
      */
-    async generateKeywords(content: string): Promise<string[]> {
+    async generateKeywords(content: string, signal?: AbortSignal): Promise<string[]> {
         const systemPrompt = "You are a technical writer. Extract exactly 10 relevant keywords from the text. Return ONLY a JSON array of strings.";
         const userPrompt = `Text:\n${content}\n\nKeywords (JSON array):`;
 
@@ -219,7 +381,7 @@ Write your analysis for this segment, using only the transcript as your source.`
         );
 
         try {
-            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model);
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
             const duration = Date.now() - startTime;
             agentLogger.logResponse(logId, result.content, duration, result.usage ? {
                 prompt: result.usage.prompt_tokens,
@@ -235,10 +397,88 @@ Write your analysis for this segment, using only the transcript as your source.`
                 return [];
             }
         } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+                throw error;
+            }
             agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
             return [];
         }
     }
+
+    private buildExtractEvidencePrompt(
+        segmentTitle: string,
+        segmentObjective: string,
+        segmentGuidance: string,
+        transcriptText: string,
+        part: number,
+        parts: number
+    ): { systemPrompt: string; userPrompt: string } {
+        const defaultPrompt = DEFAULT_INSTRUCTIONS.writer.extractEvidence;
+        const systemPrompt = settingsService.getAgentInstruction('writer', 'extractEvidence') || defaultPrompt;
+
+        const userPrompt = `Segment Title: ${segmentTitle}
+
+Objective: ${segmentObjective}
+
+Guidance: ${segmentGuidance}
+
+Transcript (part ${part} of ${parts}):
+${transcriptText}
+
+List the evidence in this part that is relevant to the segment objective.`;
+
+        return { systemPrompt, userPrompt };
+    }
+
+    private async extractEvidence(
+        segmentId: string,
+        segmentTitle: string,
+        segmentObjective: string,
+        segmentGuidance: string,
+        chunk: Transcript,
+        index: number,
+        total: number,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const { systemPrompt, userPrompt } = this.buildExtractEvidencePrompt(
+            segmentTitle,
+            segmentObjective,
+            segmentGuidance,
+            transcriptParserService.toPromptText(chunk),
+            index + 1,
+            total
+        );
+
+        const model = this.getModel();
+        const startTime = Date.now();
+        const logId = agentLogger.logRequest(
+            'Writer Agent',
+            'writer',
+            systemPrompt,
+            userPrompt,
+            model,
+            segmentId
+        );
+
+        try {
+            const result = await llmService.generateCompletion(systemPrompt, userPrompt, model, { signal, logId });
+            const duration = Date.now() - startTime;
+            agentLogger.logResponse(logId, result.content, duration, result.usage ? {
+                prompt: result.usage.prompt_tokens,
+                completion: result.usage.completion_tokens,
+                total: result.usage.total_tokens
+            } : undefined);
+            return result.content.trim();
+        } catch (error) {
+            if (signal?.aborted) {
+                agentLogger.logCancelled(logId, Date.now() - startTime);
+            } else {
+                agentLogger.logError('Writer Agent', 'writer', error instanceof Error ? error.message : 'Unknown error');
+            }
+            throw error;
+        }
+    }
 }
 
 export const writerAgent = new WriterAgent();
@@ -0,0 +1,112 @@
+// Zip archive service for writing uncompressed zip files in the browser
+
+export interface ZipEntry {
+    path: string; // Forward slashes, no leading slash
+    data: string | Uint8Array; // Strings are written as UTF-8
+}
+
+// General purpose flag telling readers that file names are UTF-8
+const UTF8_NAMES = 0x0800;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+class ZipArchiveService {
+    /**
+     * Pack files into a zip archive using the stored (uncompressed) method
+     */
+    create(entries: ZipEntry[], modifiedAt: Date = new Date()): Blob {
+        const encoder = new TextEncoder();
+        const { time, date } = this.toDosDateTime(modifiedAt);
+        const locals: Uint8Array[] = [];
+        const centrals: Uint8Array[] = [];
+        let offset = 0;
+
+        entries.forEach(entry => {
+            const name = encoder.encode(entry.path);
+            const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+            const crc = this.crc32(data);
+
+            const local = new Uint8Array(30 + name.length + data.length);
+            const localView = new DataView(local.buffer);
+            localView.setUint32(0, 0x04034b50, true);
+            localView.setUint16(4, 20, true); // Version needed to extract
+            localView.setUint16(6, UTF8_NAMES, true);
+            localView.setUint16(8, 0, true); // Stored
+            localView.setUint16(10, time, true);
+            localView.setUint16(12, date, true);
+            localView.setUint32(14, crc, true);
+            localView.setUint32(18, data.length, true);
+            localView.setUint32(22, data.length, true);
+            localView.setUint16(26, name.length, true);
+            localView.setUint16(28, 0, true);
+            local.set(name, 30);
+            local.set(data, 30 + name.length);
+
+            const central = new Uint8Array(46 + name.length);
+            const centralView = new DataView(central.buffer);
+            centralView.setUint32(0, 0x02014b50, true);
+            centralView.setUint16(4, 20, true); // Version made by
+            centralView.setUint16(6, 20, true);
+            centralView.setUint16(8, UTF8_NAMES, true);
+            centralView.setUint16(10, 0, true);
+            centralView.setUint16(12, time, true);
+            centralView.setUint16(14, date, true);
+            centralView.setUint32(16, crc, true);
+            centralView.setUint32(20, data.length, true);
+            centralView.setUint32(24, data.length, true);
+            centralView.setUint16(28, name.length, true);
+            centralView.setUint32(42, offset, true); // Extra, comment, disk and attribute fields stay zero
+            central.set(name, 46);
+
+            locals.push(local);
+            centrals.push(central);
+            offset += local.length;
+        });
+
+        const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+        const end = new Uint8Array(22);
+        const endView = new DataView(end.buffer);
+        endView.setUint32(0, 0x06054b50, true);
+        endView.setUint16(8, entries.length, true);
+        endView.setUint16(10, entries.length, true);
+        endView.setUint32(12, centralSize, true);
+        endView.setUint32(16, offset, true);
+
+        const archive = new Uint8Array(offset + centralSize + end.length);
+        let position = 0;
+        [...locals, ...centrals, end].forEach(part => {
+            archive.set(part, position);
+            position += part.length;
+        });
+        return new Blob([archive], { type: 'application/zip' });
+    }
+
+    private crc32(data: Uint8Array): number {
+        let crc = 0xffffffff;
+        for (let i = 0; i < data.length; i++) {
+            crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    // Zip timestamps are local time with two-second resolution, starting from 1980
+    private toDosDateTime(value: Date): { time: number; date: number } {
+        const year = Math.max(value.getFullYear(), 1980);
+        return {
+            time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+            date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+        };
+    }
+}
+
+export const zipArchiveService = new ZipArchiveService();
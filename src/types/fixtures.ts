@@ -0,0 +1,26 @@
+// Recorded LLM exchanges replayed by the mock provider
+
+export interface LLMFixture {
+    agentName: string;
+    agentRole: string;
+    model?: string;
+    prompt: {
+        system: string;
+        user: string;
+    };
+    response: string;
+    duration?: number; // Recorded response time in ms, used to pace replayed streams
+    tokens?: {
+        prompt: number;
+        completion: number;
+        total: number;
+    };
+}
+
+// Fixture file shared between developers; bump the version whenever its shape changes
+export interface FixtureFile {
+    format: 'transcript-processor-fixtures';
+    version: number;
+    recordedAt: string;
+    fixtures: LLMFixture[];
+}
@@ -6,13 +6,18 @@ export interface Agent {
     progress: number;
     output?: string;
     error?: string;
+    lane?: string; // Provider and model queue the agent runs in
+    priority?: 'high' | 'normal' | 'low';
+    queuePosition?: number; // 1-based position while waiting for a slot
 }
 
 export enum AgentStatus {
     IDLE = 'idle',
+    QUEUED = 'queued',
     RUNNING = 'running',
     COMPLETED = 'completed',
     FAILED = 'failed',
+    CANCELLED = 'cancelled',
 }
 
 export enum AgentRole {
@@ -23,9 +28,21 @@ export enum AgentRole {
 }
 
 // Transcript Types
+export interface Turn {
+    index: number; // Position in the transcript, rendered as T1, T2, ... in prompts
+    speaker: string; // Empty when the source has no speaker labels
+    startTime?: number; // Seconds from the start of the recording
+    endTime?: number; // Known for timed sources such as subtitle cues
+    text: string;
+    startOffset: number; // Character offsets of the utterance in Transcript.content
+    endOffset: number;
+}
+
 export interface Transcript {
     id: string;
-    content: string;
+    content: string; // Raw text as uploaded or pasted
+    turns: Turn[];
+    speakers: string[];
     uploadedAt: Date;
     processedAt?: Date;
 }
@@ -43,6 +60,24 @@ export interface Quote {
     text: string;
     context?: string;
     verified: boolean;
+    match?: QuoteMatch; // Closest passage in the transcript, also kept for quotes below the verification threshold
+}
+
+// A place in the transcript to show as evidence; offsets narrow it to a passage within the turn
+export interface EvidenceLocation {
+    turnIndex: number;
+    startOffset?: number;
+    endOffset?: number;
+}
+
+// Where a quoted passage was found in the source transcript
+export interface QuoteMatch {
+    turnIndex: number;
+    speaker: string;
+    startTime?: number; // Seconds from the start of the recording, when the turn has a timestamp
+    startOffset: number; // Character offsets of the matched passage in Transcript.content
+    endOffset: number;
+    similarity: number; // 1 for an exact match after normalisation, down to 0
 }
 
 // Markdown Output Types
@@ -1,11 +1,17 @@
 // Agent logging types
 
+import { LLMProvider } from '../constants/llm-providers';
+import { Phase } from './phases';
+
 export interface AgentLog {
     id: string;
     timestamp: Date;
     agentName: string;
     agentRole: string;
-    action: 'request' | 'response' | 'error';
+    action: 'request' | 'response' | 'error' | 'cancelled' | 'retry';
+    requestId?: string; // On responses, cancellations and retries, the id of the request they answer
+    attempt?: number; // On retries, which attempt failed (1 is the original request)
+    retryDelay?: number; // On retries, milliseconds waited before the next attempt
     prompt?: {
         system: string;
         user: string;
@@ -13,6 +19,9 @@ export interface AgentLog {
     response?: string;
     error?: string;
     model?: string;
+    provider?: LLMProvider; // Provider selected when the request was made
+    segmentId?: string; // Framework segment or gap the request works on
+    phase?: Phase; // Phase the user was in when the request was made
     duration?: number;
     tokens?: {
         prompt: number;
@@ -12,6 +12,10 @@ declare module 'mammoth' {
         path?: string;
     }
 
+    export interface HtmlOptions {
+        styleMap?: string | string[];
+    }
+
     export function extractRawText(options: ConversionOptions): Promise<ConversionResult>;
-    export function convertToHtml(options: ConversionOptions): Promise<ConversionResult>;
+    export function convertToHtml(options: ConversionOptions, htmlOptions?: HtmlOptions): Promise<ConversionResult>;
 }
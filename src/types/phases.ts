@@ -1,10 +1,15 @@
 // Phase-related types for the multi-phase user journey
 
+import { Transcript } from './index';
+import { UsageRecord } from './usage';
+
 export enum Phase {
     UPLOAD_ALIGN = 'upload_align',
     PROCESSING_VALIDATION = 'processing_validation',
     INSIGHT_EXTRACTION = 'insight_extraction',
     GAP_ANALYSIS = 'gap_analysis',
+    SYNTHESIS = 'synthesis',
+    CODING = 'coding',
     CONSOLIDATION = 'consolidation',
 }
 
@@ -12,6 +17,7 @@ export interface PlannerOutput {
     contextUnderstanding: string;
     metadataTags: string[];
     analysisObjective: string;
+    transcriptSummary?: string; // Set in full planning mode; the framework is planned from it too
 }
 
 export interface FrameworkSegment {
@@ -35,8 +41,35 @@ export interface AnalysisFramework {
 export interface SegmentAnalysis {
     segmentId: string;
     content: string;
-    status: 'pending' | 'processing' | 'complete' | 'error';
+    status: 'pending' | 'processing' | 'complete' | 'error' | 'cancelled';
     generatedAt?: Date;
+    refineHistory?: RefineIteration[]; // Drafts and critiques of the last auto-refine run
+    versions?: SegmentVersion[]; // Oldest first; the last one matches content
+    scorecard?: Scorecard; // Results of the last critic panel run
+}
+
+export type VersionSource = 'writer' | 'rewrite' | 'edit' | 'revert';
+
+// One state of a segment's text and how it came about
+export interface SegmentVersion {
+    id: string;
+    content: string;
+    source: VersionSource;
+    author: string; // Agent name for generated text, "You" for changes made in the app
+    createdAt: Date;
+    critique?: string; // The critic evaluation a rewrite responded to
+    note?: string;
+}
+
+export type ClaimVerdict = 'supported' | 'partially_supported' | 'unsupported';
+
+// The critic's judgement of one statement in an analysis
+export interface ClaimCheck {
+    claim: string; // The statement as written in the analysis
+    verdict: ClaimVerdict;
+    evidence?: string; // Transcript passage the verdict rests on
+    location?: string; // Turn labels of the evidence, e.g. "T12" or "T3, T4"
+    explanation?: string;
 }
 
 export interface CriticEvaluation {
@@ -46,10 +79,43 @@ export interface CriticEvaluation {
     sourceAlignmentIssues?: string[]; // Specific unsupported statements if fail
     objectiveFulfillmentScore: number; // 0-100
     improvementGuidance: string; // How to improve
+    claims?: ClaimCheck[]; // Per-statement verdicts; missing on evaluations saved before the critic answered in JSON
     suggestions: string[]; // Legacy field for backward compatibility
     generatedAt: Date;
 }
 
+// One rubric critic's verdict on a segment, with the rubric settings it was judged by
+export interface RubricEvaluation {
+    rubricId: string;
+    rubricName: string;
+    model: string;
+    score: number; // 0-100
+    passScore: number;
+    weight: number;
+    findings: string[];
+    guidance: string;
+    withoutTranscript?: boolean; // Judged on the content alone because the transcript did not fit the rubric's model
+    generatedAt: Date;
+}
+
+// The critic panel's results for one segment
+export interface Scorecard {
+    evaluations: RubricEvaluation[]; // In the order of the rubrics in settings
+    failedRubrics: string[]; // Names of rubrics whose critic gave no usable result
+    overallScore: number; // Weighted mean of the rubric scores
+    passed: boolean; // Every rubric reached its pass score and none failed
+    content: string; // The text that was scored, to tell when the analysis has changed since
+    generatedAt: Date;
+}
+
+// One round of the auto-refine loop: a draft and the critic's evaluation of it
+export interface RefineIteration {
+    iteration: number; // 1 is the draft the loop started from, later ones are rewrites
+    content: string;
+    evaluation?: CriticEvaluation; // Missing when the loop was stopped before the critic finished
+    createdAt: Date;
+}
+
 export interface GapSuggestion {
     id: string;
     title: string;
@@ -76,13 +142,75 @@ export interface GapAnalysis {
     generatedAt: Date;
 }
 
+// A transcript file or pasted text handed over from the upload phase
+export interface TranscriptSource {
+    name: string;
+    content: string;
+    transcript?: Transcript; // Pre-parsed turns from format-aware parsers
+}
+
+// One interview in a project, analysed against the shared framework
+export interface ProjectTranscript {
+    id: string;
+    name: string;
+    transcript: Transcript;
+    segmentAnalyses: Map<string, SegmentAnalysis>;
+    criticEvaluations: Map<string, CriticEvaluation>;
+}
+
+export type CodeSource = 'proposed' | 'imported' | 'manual';
+
+// One code of the project's codebook for thematic coding
+export interface Code {
+    id: string;
+    name: string;
+    definition: string;
+    includeRules: string[]; // When to apply the code
+    excludeRules: string[]; // When not to, even if it seems to fit
+    examples: string[]; // Passages the code fits, including excerpts reviewers accepted
+    counterExamples: string[]; // Excerpts reviewers rejected for this code
+    source: CodeSource;
+    createdAt: Date;
+}
+
+export type CodingStatus = 'suggested' | 'accepted' | 'rejected';
+
+// A code applied to one speaker turn, awaiting or after review
+export interface CodedExcerpt {
+    id: string;
+    transcriptId: string;
+    turnIndex: number;
+    codeId: string;
+    justification: string;
+    status: CodingStatus;
+    createdAt: Date;
+    reviewedAt?: Date;
+}
+
+// Cross-interview comparison of one framework segment
+export interface SegmentSynthesis {
+    segmentId: string;
+    content: string;
+    transcriptIds: string[]; // Interviews whose analyses were compared
+    generatedAt: Date;
+}
+
 export interface AnalysisState {
     currentPhase: Phase;
     transcript: string;
+    structuredTranscript?: Transcript; // Speaker turns parsed from the raw transcript
     plannerOutput?: PlannerOutput;
     framework?: AnalysisFramework;
     segmentAnalyses: Map<string, SegmentAnalysis>;
     criticEvaluations: Map<string, CriticEvaluation>;
     gapAnalysis?: GapAnalysis;
+    // Project scope: every interview in the study. The fields above mirror the active one.
+    transcripts: ProjectTranscript[];
+    activeTranscriptId?: string;
+    synthesis: Map<string, SegmentSynthesis>;
+    usage: UsageRecord[]; // Token usage of every agent response in this session
+    rubricIds: string[] | null; // Rubrics picked for this analysis' critic panel; all of them when null
+    codebook: Code[]; // Shared by every interview in the project
+    codedExcerpts: CodedExcerpt[]; // Of all interviews, told apart by transcript id
 }
 
@@ -0,0 +1,30 @@
+// Persisted analysis session types
+
+import { Phase } from './phases';
+import { AgentLog } from './logging';
+
+// JSON-safe form of AnalysisState: Maps and Dates are tagged so they can be revived
+export type SerializedAnalysisState = Record<string, unknown>;
+
+export interface SessionSummary {
+    id: string;
+    title: string;
+    currentPhase: Phase;
+    transcriptCount: number;
+    usage?: { tokens: number; cost: number }; // Missing on sessions saved before usage was tracked
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface StoredSession extends SessionSummary {
+    state: SerializedAnalysisState;
+}
+
+// Portable project file shared between users; bump the version whenever its shape changes
+export interface ProjectBundle {
+    format: 'transcript-processor-project';
+    version: number;
+    exportedAt: string;
+    state: SerializedAnalysisState;
+    agentLogs: Array<Omit<AgentLog, 'timestamp'> & { timestamp: string }>;
+}
@@ -0,0 +1,31 @@
+// Token usage recorded per session for cost reporting
+
+import { LLMProvider } from '../constants/llm-providers';
+import { Phase } from './phases';
+
+// Tokens used by one agent response
+export interface UsageRecord {
+    logId: string; // Agent log response the usage was reported on
+    timestamp: Date;
+    phase: Phase; // Phase the user was in when the request was made
+    agentName: string;
+    agentRole: string;
+    provider?: LLMProvider;
+    model?: string;
+    segmentId?: string;
+    tokens: {
+        prompt: number;
+        completion: number;
+        total: number;
+    };
+}
+
+// Summed tokens and estimated cost of a set of records
+export interface UsageTotals {
+    requests: number;
+    prompt: number;
+    completion: number;
+    total: number;
+    cost: number; // USD, counting only priced records
+    unpriced: number; // Records whose model has no known price
+}